@@ -0,0 +1,171 @@
+/**
+ * Tests for alcohol content estimation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ABV_BY_SUBCATEGORY,
+  decodeIngredient,
+  estimateRecipeAlcohol,
+  getIngredientAbv,
+  inferMixingMethod,
+  type Ingredient,
+  type IngredientSubcategory,
+  type Recipe,
+} from '../index';
+
+function ingredient(
+  id: number,
+  subcategory: IngredientSubcategory,
+  abv?: number,
+): Ingredient {
+  return {
+    id,
+    subcategory,
+    name: `Ingredient ${id}`,
+    icon: null,
+    abv,
+    createdAt: '2024-01-01T00:00:00Z',
+  };
+}
+
+const catalog: Ingredient[] = [
+  ingredient(1, 'spirit'),
+  ingredient(2, 'other_alcohol', 30),
+  ingredient(3, 'fruit'),
+  ingredient(4, 'other'),
+];
+
+function recipe(
+  ingredients: [number, string][],
+  steps: string[] = ['Shake with ice', 'Strain'],
+): Recipe {
+  return {
+    id: 1,
+    name: 'Test',
+    description: null,
+    moodId: null,
+    createdAt: '2024-01-01T00:00:00Z',
+    mood: null,
+    ingredients: ingredients.map(([id, amount]) => ({
+      id,
+      name: `Ingredient ${id}`,
+      icon: null,
+      amount,
+    })),
+    steps,
+    equipment: [],
+  };
+}
+
+describe('getIngredientAbv', () => {
+  it('should prefer the ingredient ABV', () => {
+    expect(getIngredientAbv(ingredient(1, 'spirit', 57))).toBe(57);
+  });
+
+  it('should fall back to the subcategory default', () => {
+    expect(getIngredientAbv(ingredient(1, 'spirit'))).toBe(40);
+    expect(getIngredientAbv({ ...ingredient(1, 'wine'), abv: null })).toBe(12);
+    expect(DEFAULT_ABV_BY_SUBCATEGORY.fruit).toBe(0);
+  });
+});
+
+describe('inferMixingMethod', () => {
+  it('should detect shaken, stirred and built drinks', () => {
+    expect(inferMixingMethod(recipe([], ['Shake hard']))).toBe('shaken');
+    expect(inferMixingMethod(recipe([], ['Stir until cold']))).toBe('stirred');
+    expect(inferMixingMethod(recipe([], ['Pour over ice']))).toBe('built');
+  });
+});
+
+describe('estimateRecipeAlcohol', () => {
+  it('should estimate a shaken sour', () => {
+    const estimate = estimateRecipeAlcohol(
+      recipe([
+        [1, '60 ml'],
+        [3, '30 ml'],
+        [4, '30 ml'],
+      ]),
+      catalog,
+    );
+
+    expect(estimate.method).toBe('shaken');
+    expect(estimate.volumeMl).toBe(120);
+    expect(estimate.alcoholMl).toBe(24);
+    expect(estimate.undilutedAbv).toBe(20);
+    expect(estimate.dilutedVolumeMl).toBe(150);
+    expect(estimate.abv).toBe(16);
+    expect(estimate.alcoholGrams).toBeCloseTo(18.94, 2);
+    expect(estimate.standardDrinks).toBeCloseTo(1.35, 2);
+    expect(estimate.skipped).toEqual([]);
+  });
+
+  it('should apply the selected standard drink definition', () => {
+    const drink = recipe([[1, '60 ml']]);
+    const us = estimateRecipeAlcohol(drink, catalog, { standardDrink: 'US' });
+    const uk = estimateRecipeAlcohol(drink, catalog, { standardDrink: 'UK' });
+    const custom = estimateRecipeAlcohol(drink, catalog, { standardDrink: 12 });
+
+    expect(uk.standardDrinks / us.standardDrinks).toBeCloseTo(14 / 8, 5);
+    expect(custom.standardDrinks).toBeCloseTo(us.alcoholGrams / 12, 5);
+  });
+
+  it('should dilute less when stirred or built', () => {
+    const drink = recipe([[1, '2 oz']]);
+    const shaken = estimateRecipeAlcohol(drink, catalog);
+    const stirred = estimateRecipeAlcohol(drink, catalog, {
+      method: 'stirred',
+    });
+    const built = estimateRecipeAlcohol(drink, catalog, { method: 'built' });
+
+    expect(shaken.abv).toBeLessThan(stirred.abv);
+    expect(stirred.abv).toBeLessThan(built.abv);
+    expect(built.alcoholMl).toBeCloseTo(shaken.alcoholMl, 5);
+  });
+
+  it('should use explicit ABVs and range midpoints', () => {
+    const estimate = estimateRecipeAlcohol(recipe([[2, '1-3 cl']]), catalog, {
+      method: 'built',
+    });
+
+    expect(estimate.volumeMl).toBe(20);
+    expect(estimate.alcoholMl).toBeCloseTo(6, 5);
+  });
+
+  it('should report unknown and unmeasurable alcoholic ingredients', () => {
+    const estimate = estimateRecipeAlcohol(
+      recipe([
+        [1, 'a splash'],
+        [1, 'to taste'],
+        [3, '1 wedge'],
+        [99, '1 oz'],
+      ]),
+      catalog,
+    );
+
+    expect(estimate.skipped).toEqual([
+      { index: 1, ingredientId: 1, reason: 'unmeasurable' },
+      { index: 3, ingredientId: 99, reason: 'unknown_ingredient' },
+    ]);
+    expect(estimate.volumeMl).toBe(7.5);
+  });
+
+  it('should return zero ABV for an empty recipe', () => {
+    const estimate = estimateRecipeAlcohol(recipe([]), catalog);
+
+    expect(estimate.abv).toBe(0);
+    expect(estimate.standardDrinks).toBe(0);
+  });
+});
+
+describe('Ingredient abv decoding', () => {
+  it('should accept missing, null and numeric abv', () => {
+    const base = ingredient(1, 'spirit');
+    delete base.abv;
+
+    expect(decodeIngredient(base).success).toBe(true);
+    expect(decodeIngredient({ ...base, abv: null }).success).toBe(true);
+    expect(decodeIngredient({ ...base, abv: 40 }).success).toBe(true);
+    expect(decodeIngredient({ ...base, abv: '40%' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for ingredient amount parsing and formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatAmount, normalizeUnit, parseAmount } from '../index';
+
+describe('parseAmount', () => {
+  it('should parse whole and decimal quantities', () => {
+    expect(parseAmount('2 oz')).toEqual({
+      original: '2 oz',
+      quantity: { kind: 'single', value: 2 },
+      unit: 'oz',
+      unitText: 'oz',
+    });
+    expect(parseAmount('0.75 oz').quantity).toEqual({
+      kind: 'single',
+      value: 0.75,
+    });
+    expect(parseAmount('.5 oz').quantity).toEqual({
+      kind: 'single',
+      value: 0.5,
+    });
+  });
+
+  it('should parse ascii and mixed fractions', () => {
+    expect(parseAmount('1/2 cup')).toMatchObject({
+      quantity: { kind: 'single', value: 0.5 },
+      unit: 'cup',
+    });
+    expect(parseAmount('1 1/2 oz').quantity).toEqual({
+      kind: 'single',
+      value: 1.5,
+    });
+  });
+
+  it('should parse unicode fractions', () => {
+    expect(parseAmount('1½ oz').quantity).toEqual({
+      kind: 'single',
+      value: 1.5,
+    });
+    expect(parseAmount('1 ¾ oz').quantity).toEqual({
+      kind: 'single',
+      value: 1.75,
+    });
+    expect(parseAmount('¼ tsp')).toMatchObject({
+      quantity: { kind: 'single', value: 0.25 },
+      unit: 'tsp',
+    });
+  });
+
+  it('should parse ranges', () => {
+    expect(parseAmount('2-3 dashes')).toMatchObject({
+      quantity: { kind: 'range', min: 2, max: 3 },
+      unit: 'dash',
+      unitText: 'dashes',
+    });
+    expect(parseAmount('1 to 1½ oz').quantity).toEqual({
+      kind: 'range',
+      min: 1,
+      max: 1.5,
+    });
+  });
+
+  it('should treat "a" as one', () => {
+    expect(parseAmount('a splash')).toMatchObject({
+      quantity: { kind: 'single', value: 1 },
+      unit: 'splash',
+    });
+  });
+
+  it('should not treat "a" as one without a unit', () => {
+    expect(parseAmount('A few leaves')).toEqual({
+      original: 'A few leaves',
+      quantity: null,
+      unit: null,
+      unitText: 'A few leaves',
+    });
+    expect(formatAmount(parseAmount('A few leaves'))).toBe('A few leaves');
+  });
+
+  it('should reject a zero denominator', () => {
+    expect(parseAmount('1/0 oz')).toMatchObject({
+      quantity: null,
+      unitText: '1/0 oz',
+    });
+    expect(parseAmount('1-1/0 oz').quantity).toBeNull();
+    expect(formatAmount(parseAmount('1/0 oz'))).toBe('1/0 oz');
+  });
+
+  it('should treat a bare number as pieces', () => {
+    expect(parseAmount('2')).toMatchObject({
+      quantity: { kind: 'single', value: 2 },
+      unit: 'piece',
+      unitText: null,
+    });
+  });
+
+  it('should keep unrecognized units as written', () => {
+    expect(parseAmount('1 sprig')).toEqual({
+      original: '1 sprig',
+      quantity: { kind: 'single', value: 1 },
+      unit: null,
+      unitText: 'sprig',
+    });
+  });
+
+  it('should parse "to taste" without a quantity', () => {
+    expect(parseAmount('To taste')).toEqual({
+      original: 'To taste',
+      quantity: null,
+      unit: 'to_taste',
+      unitText: 'To taste',
+    });
+  });
+
+  it('should keep free text without a quantity', () => {
+    expect(parseAmount('top with soda')).toMatchObject({
+      quantity: null,
+      unit: null,
+      unitText: 'top with soda',
+    });
+  });
+});
+
+describe('normalizeUnit', () => {
+  it('should normalize spellings and plurals', () => {
+    expect(normalizeUnit('Ounces')).toBe('oz');
+    expect(normalizeUnit('fl. oz')).toBe('oz');
+    expect(normalizeUnit('mL')).toBe('ml');
+    expect(normalizeUnit('Tablespoons')).toBe('tbsp');
+    expect(normalizeUnit('bar spoon')).toBe('barspoon');
+    expect(normalizeUnit('splashes')).toBe('splash');
+  });
+
+  it('should return null for unknown units', () => {
+    expect(normalizeUnit('sprig')).toBeNull();
+    expect(normalizeUnit('constructor')).toBeNull();
+  });
+});
+
+describe('formatAmount', () => {
+  it('should print canonical units', () => {
+    expect(formatAmount(parseAmount('1½ ounces'))).toBe('1 1/2 oz');
+    expect(formatAmount(parseAmount('3 Dashes'))).toBe('3 dashes');
+    expect(formatAmount(parseAmount('1 cup'))).toBe('1 cup');
+  });
+
+  it('should support unicode and decimal fractions', () => {
+    const amount = parseAmount('0.75 oz');
+
+    expect(formatAmount(amount, { fractions: 'unicode' })).toBe('¾ oz');
+    expect(formatAmount(amount, { fractions: 'decimal' })).toBe('0.75 oz');
+  });
+
+  it('should fall back to decimals for uncommon fractions', () => {
+    expect(
+      formatAmount({
+        quantity: { kind: 'single', value: 0.6 },
+        unit: 'oz',
+        unitText: null,
+      }),
+    ).toBe('0.6 oz');
+  });
+
+  it('should print ranges, bare counts and free text', () => {
+    expect(formatAmount(parseAmount('1-2 barspoons'))).toBe('1-2 barspoons');
+    expect(formatAmount(parseAmount('2'))).toBe('2');
+    expect(formatAmount(parseAmount('1 sprig'))).toBe('1 sprig');
+    expect(formatAmount(parseAmount('to taste'))).toBe('to taste');
+    expect(formatAmount(parseAmount('top with soda'))).toBe('top with soda');
+  });
+});
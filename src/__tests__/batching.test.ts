@@ -0,0 +1,263 @@
+/**
+ * Tests for the party batching planner
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planBatches, type Equipment, type Recipe } from '../index';
+
+function recipe(
+  id: number,
+  name: string,
+  ingredients: [string, string][],
+  equipment: string[],
+  steps: string[] = [],
+): Recipe {
+  return {
+    id,
+    name,
+    description: null,
+    moodId: 1,
+    createdAt: '2024-01-01T00:00:00Z',
+    mood: null,
+    ingredients: ingredients.map(([itemName, amount], index) => ({
+      id: id * 10 + index,
+      name: itemName,
+      icon: null,
+      amount,
+    })),
+    steps,
+    equipment: equipment.map((itemName, index) => ({
+      id: id * 10 + index,
+      name: itemName,
+      icon: null,
+    })),
+  };
+}
+
+const daiquiri = recipe(
+  1,
+  'Daiquiri',
+  [
+    ['White rum', '2 oz'],
+    ['Lime juice', '1 oz'],
+    ['Simple syrup', '3/4 oz'],
+  ],
+  ['Shaker', 'Coupe glass'],
+  ['Shake with ice and strain into a coupe'],
+);
+
+const negroni = recipe(
+  2,
+  'Negroni',
+  [
+    ['Gin', '1 oz'],
+    ['Campari', '1 oz'],
+    ['Sweet vermouth', '1 oz'],
+  ],
+  ['Mixing glass', 'Bar spoon', 'Rocks glass'],
+  ['Stir with ice and strain over a large cube'],
+);
+
+const highball = recipe(
+  3,
+  'Whisky Highball',
+  [
+    ['Whisky', '2 oz'],
+    ['Soda water', 'top'],
+    ['Lemon peel', '1 twist'],
+  ],
+  ['Highball glass'],
+);
+
+const sour = recipe(
+  4,
+  'Whiskey Sour',
+  [
+    ['Bourbon', '2 oz'],
+    ['Lemon juice', '3/4 oz'],
+    ['Simple syrup', '3/4 oz'],
+    ['Egg white', '1'],
+  ],
+  ['Shaker', 'Rocks glass'],
+  ['Dry shake, then shake with ice and strain'],
+);
+
+describe('planBatches', () => {
+  it('should split drinks across recipes by share', () => {
+    const plan = planBatches([daiquiri, negroni, highball], {
+      guests: 7,
+      drinksPerGuest: 1.5,
+    });
+    expect(plan.totalDrinks).toBe(11);
+    expect(plan.batches.map((batch) => batch.drinks)).toEqual([4, 4, 3]);
+
+    const weighted = planBatches([daiquiri, negroni], {
+      guests: 10,
+      shares: { 1: 3, 2: 1 },
+    });
+    expect(weighted.batches.map((batch) => batch.drinks)).toEqual([15, 5]);
+  });
+
+  it('should add dilution water to stirred and shaken batches', () => {
+    const [batch] = planBatches([negroni], {
+      guests: 10,
+      drinksPerGuest: 1,
+      unitSystem: 'metric',
+    }).batches;
+
+    expect(batch.method).toBe('stirred');
+    expect(batch.batched.map((item) => item.total)).toEqual([
+      '295 ml',
+      '295 ml',
+      '295 ml',
+    ]);
+    expect(batch.waterMl).toBeCloseTo(3 * 29.5735 * 0.2 * 10);
+    expect(batch.water).toBe('175 ml');
+    expect(batch.pour).toBe('105 ml');
+    expect(batch.instructions[1]).toBe(
+      'Pour 105 ml into each rocks glass over ice',
+    );
+  });
+
+  it('should batch citrus only when served within a few hours', () => {
+    const soon = planBatches([daiquiri], { guests: 4, hoursAhead: 1 });
+    expect(soon.batches[0].held).toEqual([]);
+    expect(soon.batches[0].serveWithinHours).toBe(3);
+
+    const early = planBatches([daiquiri], { guests: 4, hoursAhead: 12 });
+    const [batch] = early.batches;
+    expect(batch.serveWithinHours).toBeNull();
+    expect(batch.held).toEqual([
+      {
+        index: 1,
+        ingredientId: 11,
+        name: 'Lime juice',
+        reason: 'citrus',
+        perDrink: '1 oz',
+        total: '8 oz',
+      },
+    ]);
+    expect(batch.instructions).toEqual([
+      'Combine 16 oz White rum, 6 oz Simple syrup and 7 1/2 oz water ' +
+        '(29 1/2 oz) and refrigerate until service',
+      'Pour 3 3/4 oz into each chilled coupe glass',
+      'Add 1 oz Lime juice to each glass',
+    ]);
+  });
+
+  it('should hold carbonated mixers and garnish-style amounts', () => {
+    const [batch] = planBatches([highball], { guests: 6 }).batches;
+
+    expect(batch.method).toBe('built');
+    expect(batch.waterMl).toBe(0);
+    expect(batch.held.map((item) => [item.name, item.reason])).toEqual([
+      ['Soda water', 'carbonated'],
+      ['Lemon peel', 'unmeasured'],
+    ]);
+    expect(batch.instructions).toEqual([
+      'Combine 24 oz Whisky (24 oz) and refrigerate until service',
+      'Pour 2 oz into each highball glass over ice',
+      'Add 1 twist Lemon peel to each glass',
+      'Top each glass with Soda water',
+    ]);
+  });
+
+  it('should shake egg white drinks to order without adding water', () => {
+    const [batch] = planBatches([sour], { guests: 2 }).batches;
+
+    expect(batch.waterMl).toBe(0);
+    expect(batch.held).toMatchObject([
+      { name: 'Egg white', reason: 'egg', total: '4' },
+    ]);
+    expect(batch.instructions[2]).toBe(
+      'For each drink, shake 3 1/2 oz of the batch and 1 Egg white ' +
+        'with ice and strain into a rocks glass',
+    );
+    expect(batch.iceGrams).toBe(4 * (150 + 150));
+  });
+
+  it('should count glassware and ice', () => {
+    const equipment: Equipment[] = [
+      {
+        id: 21,
+        icon: null,
+        name: 'Bar spoon',
+        subcategory: 'essential',
+        createdAt: '2024-01-01T00:00:00Z',
+      },
+      {
+        id: 22,
+        icon: null,
+        name: 'Rocks glass',
+        subcategory: 'glassware',
+        createdAt: '2024-01-01T00:00:00Z',
+      },
+    ];
+    const plan = planBatches([daiquiri, negroni, highball], {
+      guests: 10,
+      equipment,
+    });
+
+    expect(
+      plan.glassware.map(({ glass, count }) => [glass.name, count]),
+    ).toEqual([
+      ['Coupe glass', 7],
+      ['Rocks glass', 7],
+      ['Highball glass', 6],
+    ]);
+    expect(plan.drinksWithoutGlass).toBe(0);
+    expect(plan.ice).toEqual({ kilograms: 2.9, bags: 2 });
+  });
+
+  it('should leave batches empty for recipes without drinks', () => {
+    const plan = planBatches([daiquiri, negroni, sour], {
+      guests: 4,
+      shares: { 1: 1, 2: 0, 4: 0 },
+    });
+    const empty = plan.batches.filter((batch) => batch.drinks === 0);
+    expect(empty).toHaveLength(2);
+    for (const batch of empty) {
+      expect(batch).toMatchObject({
+        batched: [],
+        held: [],
+        waterMl: 0,
+        volumeMl: 0,
+        iceGrams: 0,
+        instructions: [],
+      });
+    }
+    expect(
+      plan.glassware.map(({ glass, count }) => [glass.name, count]),
+    ).toEqual([['Coupe glass', 8]]);
+  });
+
+  it('should convert held amounts to the unit system', () => {
+    const [batch] = planBatches([daiquiri], {
+      guests: 4,
+      hoursAhead: 12,
+      unitSystem: 'metric',
+    }).batches;
+
+    expect(batch.held).toMatchObject([
+      { name: 'Lime juice', perDrink: '30 ml', total: '235 ml' },
+    ]);
+    expect(batch.instructions[2]).toBe('Add 30 ml Lime juice to each glass');
+  });
+
+  it('should reject empty parties and shares', () => {
+    expect(() => planBatches([], { guests: 4 })).toThrow(RangeError);
+    expect(() => planBatches([negroni], { guests: 0 })).toThrow(RangeError);
+    expect(() =>
+      planBatches([negroni], { guests: 4, drinksPerGuest: -1 }),
+    ).toThrow(RangeError);
+    expect(() =>
+      planBatches([negroni], { guests: 4, shares: { 2: 0 } }),
+    ).toThrow('Shares must add up to a positive number');
+    expect(() =>
+      planBatches([daiquiri, negroni], {
+        guests: 4,
+        shares: { 1: -2, 2: -1 },
+      }),
+    ).toThrow(RangeError);
+  });
+});
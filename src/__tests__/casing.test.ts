@@ -0,0 +1,135 @@
+/**
+ * Tests for snake_case / camelCase conversion
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  camelCaseKeys,
+  camelToSnake,
+  snakeCaseKeys,
+  snakeToCamel,
+  type CamelRatingAggregate,
+  type CamelRecipeCollection,
+  type CamelRecipeRating,
+  type CamelRecipeRevision,
+  type CamelUser,
+  type CamelUserPreferences,
+  type Mood,
+  type RatingAggregate,
+  type RecipeRating,
+  type RecipeRevision,
+  type SnakeCased,
+} from '../index';
+
+const aggregate: RatingAggregate = {
+  recipe_id: 1,
+  average_rating: 4.5,
+  total_ratings: 2,
+  rating_distribution: { '1': 0, '2': 0, '3': 0, '4': 1, '5': 1 },
+};
+
+const rating: RecipeRating = {
+  id: 1,
+  recipe_id: 1,
+  user_id: 'user-123',
+  user_name: 'Test User',
+  user_email: 'test@example.com',
+  stars: 5,
+  review: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('Key converters', () => {
+  it('should convert single keys', () => {
+    expect(snakeToCamel('rating_distribution')).toBe('ratingDistribution');
+    expect(snakeToCamel('id')).toBe('id');
+    expect(camelToSnake('exampleDrinks')).toBe('example_drinks');
+    expect(camelToSnake('createdAt')).toBe('created_at');
+  });
+});
+
+describe('camelCaseKeys', () => {
+  it('should convert nested objects and keep numeric keys', () => {
+    const result: CamelRatingAggregate = camelCaseKeys(aggregate);
+
+    expect(result).toEqual({
+      recipeId: 1,
+      averageRating: 4.5,
+      totalRatings: 2,
+      ratingDistribution: { '1': 0, '2': 0, '3': 0, '4': 1, '5': 1 },
+    });
+  });
+
+  it('should convert objects inside arrays', () => {
+    const result: CamelRecipeRating[] = camelCaseKeys([rating]);
+
+    expect(result[0].userName).toBe('Test User');
+    expect(result[0].review).toBeNull();
+  });
+
+  it('should leave non-plain objects untouched', () => {
+    const date = new Date(0);
+    const result = camelCaseKeys({ created_at: date });
+
+    expect(result.createdAt).toBe(date);
+  });
+});
+
+describe('snakeCaseKeys', () => {
+  it('should round-trip snake_case entities', () => {
+    expect(snakeCaseKeys(camelCaseKeys(rating))).toEqual(rating);
+    expect(snakeCaseKeys(camelCaseKeys(aggregate))).toEqual(aggregate);
+  });
+
+  it('should convert camelCase entities', () => {
+    const mood: Mood = {
+      id: 1,
+      emoji: '🎉',
+      name: 'Celebratory',
+      description: 'Party time',
+      exampleDrinks: 'Bellini',
+      imageName: null,
+      createdAt: '2024-01-01T00:00:00Z',
+    };
+    const result: SnakeCased<Mood> = snakeCaseKeys(mood);
+
+    expect(result.example_drinks).toBe('Bellini');
+    expect(result.image_name).toBeNull();
+  });
+});
+
+describe('camelCase entity views', () => {
+  it('should map snake_case keys at the type level', () => {
+    expectTypeOf<keyof CamelUser>().toEqualTypeOf<
+      'id' | 'email' | 'displayName' | 'createdAt' | 'updatedAt'
+    >();
+    expectTypeOf<CamelUserPreferences['equipmentIds']>().toEqualTypeOf<
+      number[]
+    >();
+    expectTypeOf<
+      keyof CamelRatingAggregate['ratingDistribution']
+    >().toEqualTypeOf<'1' | '2' | '3' | '4' | '5'>();
+    expectTypeOf<CamelRecipeRating['review']>().toEqualTypeOf<
+      RecipeRating['review']
+    >();
+    expectTypeOf<keyof CamelRecipeRevision>().toEqualTypeOf<
+      | 'id'
+      | 'recipeId'
+      | 'parentRecipeId'
+      | 'userId'
+      | 'summary'
+      | 'diff'
+      | 'createdAt'
+    >();
+    expectTypeOf<CamelRecipeRevision['diff']>().toEqualTypeOf<
+      RecipeRevision['diff']
+    >();
+    expectTypeOf<keyof CamelRecipeCollection['items'][number]>().toEqualTypeOf<
+      'recipeId' | 'note' | 'addedAt'
+    >();
+    expectTypeOf<CamelRecipeCollection['coverMoodId']>().toEqualTypeOf<
+      number | null | undefined
+    >();
+  });
+});
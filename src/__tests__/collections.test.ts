@@ -0,0 +1,122 @@
+/**
+ * Tests for local recipe collection updates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyCollectionOperation,
+  type CollectionOperation,
+  type RecipeCollection,
+} from '../index';
+
+const NOW = '2024-07-04T18:00:00Z';
+
+const collection: RecipeCollection = {
+  id: 1,
+  user_id: 'uid-1',
+  name: 'Summer party',
+  description: null,
+  cover_mood_id: null,
+  visibility: 'private',
+  items: [
+    { recipe_id: 10, note: null, added_at: '2024-06-01T00:00:00Z' },
+    { recipe_id: 20, note: 'Batch ahead', added_at: '2024-06-02T00:00:00Z' },
+    { recipe_id: 30, note: null, added_at: '2024-06-03T00:00:00Z' },
+  ],
+  created_at: '2024-06-01T00:00:00Z',
+  updated_at: '2024-06-03T00:00:00Z',
+};
+
+function apply(operation: CollectionOperation) {
+  return applyCollectionOperation(collection, operation, NOW);
+}
+
+function idsOf(result: ReturnType<typeof apply>) {
+  return result.success ? result.data.items.map((item) => item.recipe_id) : [];
+}
+
+describe('applyCollectionOperation', () => {
+  it('should update details and the timestamp', () => {
+    const result = apply({
+      type: 'update',
+      name: ' Fourth of July ',
+      visibility: 'public',
+      cover_mood_id: 2,
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      data: {
+        name: 'Fourth of July',
+        visibility: 'public',
+        cover_mood_id: 2,
+        description: null,
+        updated_at: NOW,
+      },
+    });
+  });
+
+  it('should add recipes at the end or at a position', () => {
+    expect(idsOf(apply({ type: 'add_item', recipe_id: 40 }))).toEqual([
+      10, 20, 30, 40,
+    ]);
+    const inserted = apply({
+      type: 'add_item',
+      recipe_id: 40,
+      note: 'Signature drink',
+      position: 0,
+    });
+    expect(idsOf(inserted)).toEqual([40, 10, 20, 30]);
+    expect(inserted.success && inserted.data.items[0]).toEqual({
+      recipe_id: 40,
+      note: 'Signature drink',
+      added_at: NOW,
+    });
+    expect(
+      idsOf(apply({ type: 'add_item', recipe_id: 40, position: 9 })),
+    ).toEqual([10, 20, 30, 40]);
+  });
+
+  it('should reject adding a recipe twice', () => {
+    expect(apply({ type: 'add_item', recipe_id: 20 })).toMatchObject({
+      success: false,
+      code: 'ALREADY_IN_COLLECTION',
+    });
+  });
+
+  it('should reorder when every recipe is listed once', () => {
+    expect(idsOf(apply({ type: 'reorder', recipe_ids: [30, 10, 20] }))).toEqual(
+      [30, 10, 20],
+    );
+    for (const recipe_ids of [
+      [30, 10],
+      [30, 10, 10],
+      [30, 10, 40],
+    ]) {
+      expect(apply({ type: 'reorder', recipe_ids })).toMatchObject({
+        success: false,
+        code: 'VALIDATION_FAILED',
+      });
+    }
+  });
+
+  it('should update notes and remove recipes', () => {
+    const noted = apply({ type: 'update_item', recipe_id: 20, note: null });
+    expect(noted.success && noted.data.items[1].note).toBeNull();
+    expect(idsOf(apply({ type: 'remove_item', recipe_id: 20 }))).toEqual([
+      10, 30,
+    ]);
+    for (const type of ['update_item', 'remove_item'] as const) {
+      expect(
+        apply({ type, recipe_id: 99, note: null } as CollectionOperation),
+      ).toMatchObject({ success: false, code: 'COLLECTION_ITEM_NOT_FOUND' });
+    }
+  });
+
+  it('should not mutate the collection', () => {
+    const before = JSON.stringify(collection);
+    apply({ type: 'remove_item', recipe_id: 10 });
+    apply({ type: 'update_item', recipe_id: 20, note: 'Changed' });
+    expect(JSON.stringify(collection)).toBe(before);
+  });
+});
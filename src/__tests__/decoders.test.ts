@@ -0,0 +1,278 @@
+/**
+ * Tests for API response decoders
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  arrayDecoder,
+  decodeDeleteRatingResponse,
+  decodeEquipmentListResponse,
+  decodeHealthResponse,
+  decodeRatingAggregateResponse,
+  decodeRecipe,
+  decodeRecipeCollection,
+  decodeRecipeListResponse,
+  decodeRecipeResponse,
+  decodeRecipeRevision,
+  decodeRecipeWithUser,
+  decodeUserResponse,
+  formatValidationError,
+  type Recipe,
+  type ValidationResult,
+} from '../index';
+
+const recipe: Recipe = {
+  id: 1,
+  name: 'Martini',
+  description: 'A classic cocktail',
+  moodId: 1,
+  createdAt: '2024-01-01T00:00:00Z',
+  mood: {
+    id: 1,
+    emoji: '😌',
+    name: 'Relaxed',
+    description: 'Unwind',
+    exampleDrinks: 'Martini, Negroni',
+    imageName: null,
+    createdAt: '2024-01-01T00:00:00Z',
+  },
+  ingredients: [
+    { id: 1, name: 'Gin', icon: null, amount: '2 oz' },
+    { id: 2, name: 'Vermouth', icon: 'vermouth.png', amount: '0.5 oz' },
+  ],
+  steps: ['Stir ingredients with ice', 'Strain into glass'],
+  equipment: [{ id: 1, name: 'Mixing glass', icon: null }],
+};
+
+function messagesOf<T>(result: ValidationResult<T>): string[] {
+  return result.success ? [] : result.errors.map(formatValidationError);
+}
+
+describe('Response decoders', () => {
+  it('should decode a valid recipe response', () => {
+    const json = JSON.parse(JSON.stringify({ success: true, data: recipe }));
+    const result = decodeRecipeResponse(json);
+
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.value.data).toEqual(recipe);
+  });
+
+  it('should report the exact path of a nested mismatch', () => {
+    const broken = {
+      ...recipe,
+      ingredients: [
+        recipe.ingredients[0],
+        { ...recipe.ingredients[1], icon: 7 },
+      ],
+    };
+    const result = decodeRecipeListResponse({
+      success: true,
+      data: [recipe, recipe, recipe, broken],
+    });
+
+    expect(messagesOf(result)).toEqual([
+      'data[3].ingredients[1].icon: expected string|null, received number',
+    ]);
+  });
+
+  it('should report nullable objects with their combined type', () => {
+    const result = decodeRecipeResponse({
+      success: true,
+      data: { ...recipe, mood: 'relaxed' },
+    });
+
+    expect(messagesOf(result)).toEqual([
+      'data.mood: expected object|null, received string',
+    ]);
+  });
+
+  it('should require data on success', () => {
+    const result = decodeUserResponse({ success: true });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0]).toMatchObject({
+        path: 'data',
+        code: 'required',
+      });
+    }
+  });
+
+  it('should accept an error response without data', () => {
+    const result = decodeUserResponse({
+      success: false,
+      error: 'User not found',
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should validate subcategory enum values', () => {
+    const result = decodeEquipmentListResponse({
+      success: true,
+      data: [
+        {
+          id: 1,
+          subcategory: 'tiki',
+          name: 'Mug',
+          icon: null,
+          createdAt: '2024-01-01T00:00:00Z',
+        },
+      ],
+      count: 1,
+    });
+
+    expect(messagesOf(result)).toEqual([
+      'data[0].subcategory: expected essential|glassware|garnish|advanced, received string',
+    ]);
+  });
+
+  it('should check the rating distribution', () => {
+    const result = decodeRatingAggregateResponse({
+      success: true,
+      data: {
+        recipe_id: 1,
+        average_rating: 4.5,
+        total_ratings: 2,
+        rating_distribution: { '1': 0, '2': 0, '3': 0, '4': 1 },
+      },
+    });
+
+    expect(messagesOf(result)).toEqual([
+      'data.rating_distribution.5: expected integer, received undefined',
+    ]);
+  });
+
+  it('should ignore unknown fields', () => {
+    const result = decodeDeleteRatingResponse({
+      success: true,
+      data: { message: 'Deleted', deleted_at: 'now' },
+      trace_id: 'abc',
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should accept any catalog error code', () => {
+    const failure = {
+      success: false,
+      error: 'Slow down',
+      code: 'RATE_LIMITED',
+    };
+
+    expect(decodeRecipeResponse(failure)).toEqual({
+      success: true,
+      value: failure,
+    });
+  });
+
+  it('should map unknown error codes to INTERNAL_ERROR', () => {
+    const failure = { success: false, error: 'Brewing', code: 'TEAPOT' };
+
+    expect(decodeRecipeResponse(failure)).toEqual({
+      success: true,
+      value: { ...failure, code: 'INTERNAL_ERROR' },
+    });
+    expect(decodeRecipeListResponse(failure)).toMatchObject({
+      value: { code: 'INTERNAL_ERROR' },
+    });
+    expect(failure.code).toBe('TEAPOT');
+    expect(messagesOf(decodeRecipeResponse({ ...failure, code: 7 }))).toEqual([
+      'code: expected string|undefined, received number',
+    ]);
+  });
+
+  it('should decode custom envelope shapes', () => {
+    expect(
+      decodeHealthResponse({
+        success: true,
+        status: 'ok',
+        timestamp: '2024-01-01T00:00:00Z',
+      }).success,
+    ).toBe(true);
+    expect(messagesOf(decodeHealthResponse([]))).toEqual([
+      'expected object, received array',
+    ]);
+  });
+});
+
+describe('Entity decoders', () => {
+  it('should decode arrays with item paths', () => {
+    const decodeRecipes = arrayDecoder(decodeRecipe);
+    expect(decodeRecipes([recipe]).success).toBe(true);
+    expect(
+      messagesOf(
+        decodeRecipes([recipe, { ...recipe, steps: [1], mood: 'calm' }]),
+      ),
+    ).toEqual([
+      '[1].mood: expected object|null, received string',
+      '[1].steps[0]: expected string, received number',
+    ]);
+    expect(messagesOf(decodeRecipes(undefined))).toEqual([
+      'expected array, received undefined',
+    ]);
+  });
+
+  it('should require userId on RecipeWithUser', () => {
+    expect(decodeRecipeWithUser({ ...recipe, userId: null }).success).toBe(
+      true,
+    );
+    expect(messagesOf(decodeRecipeWithUser(recipe))).toEqual([
+      'userId: expected string|null, received undefined',
+    ]);
+  });
+
+  it('should check collection visibility', () => {
+    const collection = {
+      id: 1,
+      user_id: 'uid-1',
+      name: 'Summer party',
+      description: null,
+      cover_mood_id: 2,
+      visibility: 'public',
+      items: [{ recipe_id: 4, note: null, added_at: '2024-06-01T00:00:00Z' }],
+      created_at: '2024-06-01T00:00:00Z',
+      updated_at: '2024-06-01T00:00:00Z',
+    };
+    expect(decodeRecipeCollection(collection).success).toBe(true);
+    expect(
+      messagesOf(decodeRecipeCollection({ ...collection, visibility: 'team' })),
+    ).toEqual(['visibility: expected public|private, received string']);
+  });
+
+  it('should check revision diffs by change type', () => {
+    const revision = {
+      id: 1,
+      recipe_id: 2,
+      parent_recipe_id: 1,
+      user_id: 'uid-1',
+      summary: 'Less vermouth',
+      diff: {
+        fields: { name: { from: 'Martini', to: 'Dry Martini' } },
+        ingredients: [
+          {
+            type: 'update',
+            index: 1,
+            newIndex: 1,
+            from: recipe.ingredients[1],
+            to: { ...recipe.ingredients[1], amount: '0.25 oz' },
+          },
+        ],
+        steps: [{ type: 'add', newIndex: 2, value: 'Garnish with a twist' }],
+        equipment: [],
+      },
+      created_at: '2024-06-01T00:00:00Z',
+    };
+    expect(decodeRecipeRevision(revision).success).toBe(true);
+
+    const diff = {
+      ...revision.diff,
+      steps: [{ type: 'move', index: 0, value: 'Stir' }],
+      equipment: [{ type: 'swap' }],
+    };
+    expect(messagesOf(decodeRecipeRevision({ ...revision, diff }))).toEqual([
+      'diff.steps[0].newIndex: expected integer, received undefined',
+      'diff.equipment[0].type: expected add|remove|update|move, received string',
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for the endpoint contract registry
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  MIXR_ENDPOINTS,
+  buildEndpointPath,
+  type EndpointBody,
+  type EndpointKey,
+  type EndpointParams,
+  type EndpointQuery,
+  type EndpointResponse,
+  type PathParams,
+  type RatingListParams,
+  type RecipeRatingListResponse,
+  type SubmitRatingRequest,
+} from '../index';
+
+describe('MIXR_ENDPOINTS', () => {
+  it('should match each key to its method and path', () => {
+    for (const [key, info] of Object.entries(MIXR_ENDPOINTS)) {
+      expect(key).toBe(`${info.method} ${info.path}`);
+    }
+  });
+
+  it('should have unique method/path pairs', () => {
+    const keys = Object.keys(MIXR_ENDPOINTS);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('should mark user-scoped routes as authenticated', () => {
+    expect(MIXR_ENDPOINTS['GET /users/me'].auth).toBe(true);
+    expect(MIXR_ENDPOINTS['POST /recipes/:id/ratings'].auth).toBe(true);
+    expect(MIXR_ENDPOINTS['GET /moods'].auth).toBe(false);
+  });
+});
+
+describe('Endpoint type helpers', () => {
+  it('should extract query, body and response types', () => {
+    expectTypeOf<
+      EndpointQuery<'GET /recipes/:id/ratings'>
+    >().toEqualTypeOf<RatingListParams>();
+    expectTypeOf<
+      EndpointResponse<'GET /recipes/:id/ratings'>
+    >().toEqualTypeOf<RecipeRatingListResponse>();
+    expectTypeOf<
+      EndpointBody<'POST /recipes/:id/ratings'>
+    >().toEqualTypeOf<SubmitRatingRequest>();
+    expectTypeOf<EndpointBody<'GET /moods'>>().toEqualTypeOf<undefined>();
+  });
+
+  it('should derive path params from the template', () => {
+    expectTypeOf<
+      EndpointParams<'DELETE /favorites/:recipeId'>
+    >().toEqualTypeOf<{
+      recipeId: string | number;
+    }>();
+    expectTypeOf<keyof PathParams<'/a/:x/b/:y'>>().toEqualTypeOf<'x' | 'y'>();
+    expectTypeOf<keyof EndpointParams<'GET /moods'>>().toEqualTypeOf<never>();
+    expectTypeOf<'GET /nope'>().not.toMatchTypeOf<EndpointKey>();
+  });
+});
+
+describe('buildEndpointPath', () => {
+  it('should fill in path params', () => {
+    expect(buildEndpointPath('GET /recipes/:id/ratings', { id: 42 })).toBe(
+      '/recipes/42/ratings',
+    );
+    expect(
+      buildEndpointPath('DELETE /favorites/:recipeId', { recipeId: '7' }),
+    ).toBe('/favorites/7');
+  });
+
+  it('should return static paths unchanged', () => {
+    expect(buildEndpointPath('GET /moods')).toBe('/moods');
+  });
+
+  it('should encode param values', () => {
+    expect(buildEndpointPath('GET /moods/:id', { id: 'a/b' })).toBe(
+      '/moods/a%2Fb',
+    );
+  });
+
+  it('should reject missing params at compile time', () => {
+    // @ts-expect-error - id is required for this route
+    expect(() => buildEndpointPath('GET /recipes/:id')).toThrow(
+      'Missing path param "id"',
+    );
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for machine-readable error codes
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  MIXR_ERRORS,
+  MIXR_ERROR_CODES,
+  createErrorResponse,
+  createSuccessResponse,
+  decodeAddFavoriteResponse,
+  decodeRecipeResponse,
+  getErrorStatus,
+  hasErrorCode,
+  isErrorResponse,
+  isSuccessResponse,
+  validateSubmitRatingRequest,
+  type EndpointErrorCode,
+  type MixrApiResponse,
+  type MixrErrorCode,
+  type MixrErrorResponse,
+  type RecipeRating,
+  type RecipeRatingResponse,
+  type RecipeResponse,
+  type ResponseErrorCode,
+  type ResponseResult,
+} from '../index';
+
+describe('Error catalog', () => {
+  it('should describe every code', () => {
+    expect(Object.keys(MIXR_ERRORS).sort()).toEqual(
+      [...MIXR_ERROR_CODES].sort(),
+    );
+    expect(getErrorStatus('RECIPE_NOT_FOUND')).toBe(404);
+    expect(getErrorStatus('RATE_LIMITED')).toBe(429);
+  });
+});
+
+describe('createErrorResponse', () => {
+  it('should use the catalog message by default', () => {
+    expect(createErrorResponse('RECIPE_NOT_FOUND')).toEqual({
+      success: false,
+      code: 'RECIPE_NOT_FOUND',
+      error: 'Recipe not found',
+    });
+  });
+
+  it('should carry validation details', () => {
+    const result = validateSubmitRatingRequest({ stars: 'five' });
+    const errors = result.success ? [] : result.errors;
+    const response = createErrorResponse('VALIDATION_FAILED', {
+      message: 'Check the highlighted fields',
+      details: { fields: errors },
+    });
+
+    expect(response.error).toBe('Check the highlighted fields');
+    expect(response.details.fields[0].path).toBe('stars');
+  });
+
+  it('should require details for codes that have them', () => {
+    // @ts-expect-error VALIDATION_FAILED needs details
+    createErrorResponse('VALIDATION_FAILED');
+    createErrorResponse('RATE_LIMITED', { details: { retry_after: 30 } });
+  });
+});
+
+describe('createSuccessResponse', () => {
+  it('should only include count when given', () => {
+    expect(createSuccessResponse([1, 2])).toEqual({
+      success: true,
+      data: [1, 2],
+    });
+    expect(createSuccessResponse([1, 2], 10).count).toBe(10);
+  });
+});
+
+describe('isErrorResponse / hasErrorCode', () => {
+  const failure: RecipeRatingResponse = createErrorResponse('RATE_LIMITED', {
+    details: { retry_after: 5 },
+  });
+
+  it('should narrow failed responses', () => {
+    expect(isErrorResponse(failure)).toBe(true);
+    if (isErrorResponse(failure)) {
+      expectTypeOf(failure.code).toEqualTypeOf<
+        ResponseErrorCode<RecipeRatingResponse>
+      >();
+    }
+  });
+
+  it('should narrow details by code', () => {
+    expect(hasErrorCode(failure, 'UNAUTHENTICATED')).toBe(false);
+    expect(hasErrorCode(failure, 'RATE_LIMITED', 'INTERNAL_ERROR')).toBe(true);
+    if (hasErrorCode(failure, 'RATE_LIMITED')) {
+      expect(failure.details.retry_after).toBe(5);
+    }
+  });
+
+  it('should ignore failures without a known code', () => {
+    const legacy: MixrApiResponse = { success: false, error: 'Oops' };
+    const unknown = {
+      success: false,
+      error: 'Oops',
+      code: 'TEAPOT',
+    } as unknown as MixrApiResponse;
+
+    expect(isErrorResponse(legacy)).toBe(false);
+    expect(isErrorResponse(unknown)).toBe(false);
+    expect(isErrorResponse(createSuccessResponse(1))).toBe(false);
+  });
+
+  it('should reject failures without a message or required details', () => {
+    const noMessage = {
+      success: false,
+      code: 'RECIPE_NOT_FOUND',
+    } as unknown as MixrApiResponse;
+    const noDetails = {
+      success: false,
+      error: 'Slow down',
+      code: 'RATE_LIMITED',
+    } as unknown as RecipeRatingResponse;
+    const badFields = {
+      success: false,
+      error: 'Invalid',
+      code: 'VALIDATION_FAILED',
+      details: { fields: 'stars' },
+    } as unknown as RecipeRatingResponse;
+
+    expect(isErrorResponse(noMessage)).toBe(false);
+    expect(hasErrorCode(noDetails, 'RATE_LIMITED')).toBe(false);
+    expect(hasErrorCode(badFields, 'VALIDATION_FAILED')).toBe(false);
+  });
+});
+
+describe('Declared endpoint errors', () => {
+  it('should list the codes per response alias', () => {
+    expectTypeOf<ResponseErrorCode<RecipeResponse>>().toEqualTypeOf<
+      | 'RATE_LIMITED'
+      | 'INTERNAL_ERROR'
+      | 'VALIDATION_FAILED'
+      | 'RECIPE_NOT_FOUND'
+    >();
+    expectTypeOf<
+      EndpointErrorCode<'POST /recipes/generate'>
+    >().toMatchTypeOf<MixrErrorCode>();
+    expectTypeOf<'GENERATION_FAILED'>().toMatchTypeOf<
+      EndpointErrorCode<'POST /recipes/generate'>
+    >();
+    expectTypeOf<'RATING_OUT_OF_RANGE'>().toMatchTypeOf<
+      EndpointErrorCode<'POST /recipes/:id/ratings'>
+    >();
+    expectTypeOf<EndpointErrorCode<'GET /health'>>().toEqualTypeOf<never>();
+  });
+
+  it('should reject undeclared codes', () => {
+    const response: RecipeResponse = {
+      success: false,
+      error: 'Nope',
+      // @ts-expect-error GET /recipes/:id never fails with GENERATION_FAILED
+      code: 'GENERATION_FAILED',
+    };
+    expect(response.success).toBe(false);
+  });
+
+  it('should convert an alias to its strict union', () => {
+    const handle = (res: ResponseResult<RecipeRatingResponse>) => {
+      if (res.success) {
+        expectTypeOf(res.data).toEqualTypeOf<RecipeRating>();
+        return 'ok';
+      }
+      expectTypeOf(res).toMatchTypeOf<MixrErrorResponse>();
+      switch (res.code) {
+        case 'VALIDATION_FAILED':
+          return res.details.fields.length;
+        case 'RATING_OUT_OF_RANGE':
+          return 'pick 1-5 stars';
+        default:
+          return res.error;
+      }
+    };
+
+    expect(handle(createErrorResponse('RATING_OUT_OF_RANGE'))).toBe(
+      'pick 1-5 stars',
+    );
+  });
+
+  it('should stay compatible with isSuccessResponse', () => {
+    const response: RecipeResponse = createErrorResponse('RECIPE_NOT_FOUND');
+    expect(isSuccessResponse(response)).toBe(false);
+  });
+});
+
+describe('Decoding error responses', () => {
+  it('should accept codes and details', () => {
+    const result = decodeRecipeResponse(
+      createErrorResponse('VALIDATION_FAILED', { details: { fields: [] } }),
+    );
+    expect(result.success).toBe(true);
+    expect(
+      decodeAddFavoriteResponse({
+        success: false,
+        message: '',
+        error: 'Already saved',
+        code: 'ALREADY_FAVORITED',
+      }).success,
+    ).toBe(true);
+  });
+
+  it('should decode unknown codes as INTERNAL_ERROR', () => {
+    const result = decodeRecipeResponse({
+      success: false,
+      error: 'Oops',
+      code: 'TEAPOT',
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.code).toBe('INTERNAL_ERROR');
+      expect(getErrorStatus(result.value.code ?? 'INTERNAL_ERROR')).toBe(500);
+    }
+  });
+});
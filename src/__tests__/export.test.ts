@@ -0,0 +1,189 @@
+/**
+ * Tests for recipe export
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeRatingAggregate,
+  toJsonLdScript,
+  toRecipeJsonLd,
+  toRecipeMarkdown,
+  toRecipeText,
+  type RecipeWithUser,
+} from '../index';
+
+const margarita: RecipeWithUser = {
+  id: 7,
+  name: 'Margarita',
+  description: 'Tart and *salty*',
+  moodId: 1,
+  createdAt: '2024-01-01T00:00:00Z',
+  mood: {
+    id: 1,
+    emoji: '🎉',
+    name: 'Party',
+    description: 'Fun',
+    exampleDrinks: 'Margarita',
+    imageName: null,
+    createdAt: '2024-01-01T00:00:00Z',
+  },
+  ingredients: [
+    { id: 1, name: 'Tequila', icon: null, amount: '2 oz' },
+    { id: 2, name: 'Lime juice', icon: null, amount: '1 oz' },
+    { id: 3, name: 'Salt', icon: null, amount: 'to taste' },
+  ],
+  steps: ['1. Shake with ice', 'Strain into a salt-rimmed glass'],
+  equipment: [{ id: 1, name: 'Shaker', icon: null }],
+  userId: 'uid-1',
+};
+
+const aggregate = computeRatingAggregate(7, [
+  { recipe_id: 7, stars: 5 },
+  { recipe_id: 7, stars: 4 },
+]);
+
+describe('toRecipeJsonLd', () => {
+  it('should produce a schema.org Recipe', () => {
+    const jsonLd = toRecipeJsonLd(margarita, {
+      aggregate,
+      url: 'https://mixr.example/recipes/7',
+      authorName: 'Alice',
+    });
+
+    expect(jsonLd).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Recipe',
+      name: 'Margarita',
+      description: 'Tart and *salty*',
+      url: 'https://mixr.example/recipes/7',
+      author: { '@type': 'Person', name: 'Alice' },
+      datePublished: '2024-01-01T00:00:00Z',
+      recipeCategory: 'Cocktail',
+      recipeYield: '1 serving',
+      keywords: 'Party',
+      recipeIngredient: ['2 oz Tequila', '1 oz Lime juice', 'Salt, to taste'],
+      recipeInstructions: [
+        { '@type': 'HowToStep', position: 1, text: 'Shake with ice' },
+        {
+          '@type': 'HowToStep',
+          position: 2,
+          text: 'Strain into a salt-rimmed glass',
+        },
+      ],
+      tool: [{ '@type': 'HowToTool', name: 'Shaker' }],
+      aggregateRating: {
+        '@type': 'AggregateRating',
+        ratingValue: 4.5,
+        ratingCount: 2,
+        bestRating: 5,
+        worstRating: 1,
+      },
+    });
+  });
+
+  it('should omit empty optional properties', () => {
+    const jsonLd = toRecipeJsonLd(
+      { ...margarita, description: null, mood: null },
+      { aggregate: computeRatingAggregate(7, []) },
+    );
+
+    expect(jsonLd).not.toHaveProperty('description');
+    expect(jsonLd).not.toHaveProperty('keywords');
+    expect(jsonLd).not.toHaveProperty('aggregateRating');
+  });
+
+  it('should keep step text that starts with a quantity', () => {
+    const jsonLd = toRecipeJsonLd({
+      ...margarita,
+      steps: ['1.5 oz of gin goes in first', 'Step 2: Stir'],
+    });
+
+    expect(jsonLd.recipeInstructions.map((step) => step.text)).toEqual([
+      '1.5 oz of gin goes in first',
+      'Stir',
+    ]);
+  });
+});
+
+describe('toJsonLdScript', () => {
+  it('should escape closing tags', () => {
+    const script = toJsonLdScript(
+      toRecipeJsonLd({ ...margarita, name: '</script><b>' }),
+    );
+
+    expect(script.startsWith('<script type="application/ld+json">')).toBe(true);
+    expect(script.match(/<\/script>/g)).toHaveLength(1);
+    expect(
+      JSON.parse(script.slice(script.indexOf('>') + 1, -'</script>'.length))
+        .name,
+    ).toBe('</script><b>');
+  });
+});
+
+describe('toRecipeMarkdown', () => {
+  it('should render a Markdown document', () => {
+    expect(toRecipeMarkdown(margarita, { aggregate })).toBe(
+      [
+        '# Margarita',
+        '',
+        '**Mood:** 🎉 Party · **Rating:** 4.5/5 (2 ratings)',
+        '',
+        'Tart and \\*salty\\*',
+        '',
+        '## Ingredients',
+        '',
+        '- 2 oz Tequila',
+        '- 1 oz Lime juice',
+        '- Salt, to taste',
+        '',
+        '## Equipment',
+        '',
+        '- Shaker',
+        '',
+        '## Steps',
+        '',
+        '1. Shake with ice',
+        '2. Strain into a salt-rimmed glass',
+      ].join('\n'),
+    );
+  });
+
+  it('should percent-encode spaces and parentheses in the link', () => {
+    const markdown = toRecipeMarkdown(margarita, {
+      url: 'https://mixr.example/recipes/Tommy (classic) margarita',
+    });
+
+    expect(markdown.split('\n').pop()).toBe(
+      '[View recipe](https://mixr.example/recipes/Tommy%20%28classic%29%20margarita)',
+    );
+  });
+});
+
+describe('toRecipeText', () => {
+  it('should render a plain-text card', () => {
+    expect(
+      toRecipeText(
+        { ...margarita, equipment: [] },
+        { url: 'https://mixr.example/recipes/7' },
+      ),
+    ).toBe(
+      [
+        'MARGARITA',
+        'Mood: 🎉 Party',
+        '',
+        'Tart and *salty*',
+        '',
+        'INGREDIENTS',
+        '  - 2 oz Tequila',
+        '  - 1 oz Lime juice',
+        '  - Salt, to taste',
+        '',
+        'STEPS',
+        '  1. Shake with ice',
+        '  2. Strain into a salt-rimmed glass',
+        '',
+        'https://mixr.example/recipes/7',
+      ].join('\n'),
+    );
+  });
+});
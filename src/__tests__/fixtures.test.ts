@@ -0,0 +1,308 @@
+/**
+ * Tests for the seeded fixture factories
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeRatingAggregate,
+  createFixtureFactory,
+  decodeAddFavoriteResponse,
+  decodeDeleteCollectionResponse,
+  decodeDeleteRatingResponse,
+  decodeEquipmentListResponse,
+  decodeEquipmentResponse,
+  decodeEquipmentSubcategoriesResponse,
+  decodeGenerateRecipeResponse,
+  decodeHealthResponse,
+  decodeIngredientListResponse,
+  decodeIngredientResponse,
+  decodeIngredientSubcategoriesResponse,
+  decodeMoodListResponse,
+  decodeMoodResponse,
+  decodeRatingAggregateResponse,
+  decodeRecipeCollectionListResponse,
+  decodeRecipeCollectionResponse,
+  decodeRecipeListResponse,
+  decodeRecipeRatingListResponse,
+  decodeRecipeRatingResponse,
+  decodeRecipeResponse,
+  decodeRecipeRevision,
+  decodeRecipeRevisionListResponse,
+  decodeRecipeWithUser,
+  decodeRemoveFavoriteResponse,
+  decodeUpdateRecipeResponse,
+  decodeUser,
+  decodeUserPreferencesResponse,
+  decodeUserResponse,
+  decodeVersionResponse,
+  diffRecipes,
+  generateFixtureCorpus,
+  type Decoder,
+  type FixtureFactory,
+} from '../index';
+
+describe('createFixtureFactory', () => {
+  it('should produce the same data for the same seed', () => {
+    const run = (seed: number) => {
+      const fixtures = createFixtureFactory({ seed });
+      return [fixtures.user(), fixtures.recipe(), fixtures.recipeRatings(1)];
+    };
+    expect(run(7)).toEqual(run(7));
+    expect(run(7)).not.toEqual(run(8));
+  });
+
+  it('should apply overrides', () => {
+    const fixtures = createFixtureFactory();
+    const recipe = fixtures.recipe({ name: 'House Negroni', moodId: null });
+    expect(recipe.name).toBe('House Negroni');
+    expect(recipe.moodId).toBeNull();
+    expect(fixtures.user({ id: 'uid-1' }).id).toBe('uid-1');
+    expect(fixtures.recipeResponse({ data: recipe }).data).toBe(recipe);
+  });
+
+  it('should assign increasing unique ids', () => {
+    const fixtures = createFixtureFactory();
+    const ids = [fixtures.recipe(), fixtures.recipe(), fixtures.recipe()].map(
+      (recipe) => recipe.id,
+    );
+    expect(ids).toEqual([1, 2, 3]);
+    const users = [fixtures.user(), fixtures.user()];
+    expect(users[0].id).not.toBe(users[1].id);
+    expect(users[0].email).not.toBe(users[1].email);
+  });
+
+  it('should build recipes from the catalog', () => {
+    const fixtures = createFixtureFactory({ seed: 3 });
+    const { catalog } = fixtures;
+    for (let i = 0; i < 20; i++) {
+      const recipe = fixtures.recipe();
+      for (const item of recipe.ingredients) {
+        expect(catalog.ingredients.find((c) => c.id === item.id)?.name).toBe(
+          item.name,
+        );
+      }
+      for (const item of recipe.equipment) {
+        expect(catalog.equipment.find((c) => c.id === item.id)?.name).toBe(
+          item.name,
+        );
+      }
+      expect(recipe.mood?.id ?? null).toBe(recipe.moodId);
+      expect(recipe.ingredients[0].amount).not.toBe('');
+    }
+  });
+
+  it('should compute aggregates from the generated ratings', () => {
+    const fixtures = createFixtureFactory();
+    const ratings = fixtures.recipeRatings(5, 6);
+    expect(ratings.every((rating) => rating.recipe_id === 5)).toBe(true);
+    expect(fixtures.ratingAggregate(5, ratings)).toEqual(
+      computeRatingAggregate(5, ratings),
+    );
+    expect(fixtures.ratingAggregate(5).total_ratings).toBeGreaterThan(0);
+  });
+
+  it('should produce entities and responses that decode', () => {
+    const fixtures = createFixtureFactory({ seed: 11 });
+    expect(decodeUser(fixtures.user()).success).toBe(true);
+    expect(decodeRecipeWithUser(fixtures.recipeWithUser()).success).toBe(true);
+
+    const cases: [Decoder<unknown>, (f: FixtureFactory) => unknown][] = [
+      [decodeEquipmentListResponse, (f) => f.equipmentListResponse()],
+      [decodeEquipmentResponse, (f) => f.equipmentResponse()],
+      [
+        decodeEquipmentSubcategoriesResponse,
+        (f) => f.equipmentSubcategoriesResponse(),
+      ],
+      [decodeIngredientListResponse, (f) => f.ingredientListResponse()],
+      [decodeIngredientResponse, (f) => f.ingredientResponse()],
+      [
+        decodeIngredientSubcategoriesResponse,
+        (f) => f.ingredientSubcategoriesResponse(),
+      ],
+      [decodeMoodListResponse, (f) => f.moodListResponse()],
+      [decodeMoodResponse, (f) => f.moodResponse()],
+      [decodeRecipeListResponse, (f) => f.recipeListResponse()],
+      [decodeRecipeResponse, (f) => f.recipeResponse()],
+      [decodeGenerateRecipeResponse, (f) => f.generateRecipeResponse()],
+      [decodeUserResponse, (f) => f.userResponse()],
+      [decodeUserPreferencesResponse, (f) => f.userPreferencesResponse()],
+      [decodeAddFavoriteResponse, (f) => f.addFavoriteResponse()],
+      [decodeRemoveFavoriteResponse, (f) => f.removeFavoriteResponse()],
+      [decodeRecipeRatingResponse, (f) => f.recipeRatingResponse()],
+      [decodeRecipeRatingListResponse, (f) => f.recipeRatingListResponse()],
+      [decodeRatingAggregateResponse, (f) => f.ratingAggregateResponse()],
+      [decodeDeleteRatingResponse, (f) => f.deleteRatingResponse()],
+      [decodeUpdateRecipeResponse, (f) => f.updateRecipeResponse()],
+      [decodeRecipeRevisionListResponse, (f) => f.recipeRevisionListResponse()],
+      [decodeRecipeCollectionResponse, (f) => f.recipeCollectionResponse()],
+      [
+        decodeRecipeCollectionListResponse,
+        (f) => f.recipeCollectionListResponse(),
+      ],
+      [decodeDeleteCollectionResponse, (f) => f.deleteCollectionResponse()],
+      [decodeHealthResponse, (f) => f.healthResponse()],
+      [decodeVersionResponse, (f) => f.versionResponse()],
+    ];
+    for (const [decode, make] of cases) {
+      expect(decode(make(fixtures))).toMatchObject({ success: true });
+    }
+  });
+
+  it('should take rating authors from the users made so far', () => {
+    const fixtures = createFixtureFactory({ seed: 4 });
+    const author = fixtures.user();
+    const recipe = fixtures.recipe();
+    const rating = fixtures.recipeRating({
+      recipe_id: recipe.id,
+      user_id: author.id,
+    });
+    expect(rating).toMatchObject({
+      user_name: author.display_name,
+      user_email: author.email,
+    });
+    expect(rating.created_at >= recipe.createdAt).toBe(true);
+    expect(rating.created_at >= author.created_at).toBe(true);
+
+    const unknown = fixtures.recipeRating({ user_id: 'uid-1' });
+    expect(unknown.user_id).toBe('uid-1');
+    expect(unknown.user_name).not.toBe('uid-1');
+    expect(unknown.user_email).toMatch(/^[a-z]+\.[a-z]+\d+@example\.com$/);
+
+    const ids = Array.from(
+      { length: 20 },
+      () => fixtures.recipeRating().recipe_id,
+    );
+    expect(new Set(ids).size).toBeGreaterThan(1);
+  });
+
+  it('should build revisions from a diff of the parent', () => {
+    const fixtures = createFixtureFactory({ seed: 6 });
+    const parent = fixtures.recipe();
+    const revision = fixtures.recipeRevision({ user_id: 'uid-1' }, parent);
+    expect(decodeRecipeRevision(revision).success).toBe(true);
+    expect(revision).toMatchObject({
+      parent_recipe_id: parent.id,
+      recipe_id: parent.id + 1,
+      user_id: 'uid-1',
+    });
+    expect(revision.summary).not.toBe('');
+    expect(fixtures.recipe().id).toBe(parent.id + 2);
+  });
+
+  it('should paginate list responses over their data', () => {
+    const fixtures = createFixtureFactory();
+    const response = fixtures.recipeListResponse({
+      data: [fixtures.recipe()],
+    });
+    expect(response.pagination).toEqual({ total: 1, limit: 20, offset: 0 });
+  });
+});
+
+describe('generateFixtureCorpus', () => {
+  const corpus = generateFixtureCorpus({ seed: 5, recipes: 40, users: 6 });
+
+  it('should be deterministic', () => {
+    expect(generateFixtureCorpus({ seed: 5, recipes: 40, users: 6 })).toEqual(
+      corpus,
+    );
+  });
+
+  it('should generate the requested sizes', () => {
+    expect(corpus.recipes).toHaveLength(40);
+    expect(corpus.users).toHaveLength(6);
+    expect(corpus.aggregates).toHaveLength(40);
+    expect(Object.keys(corpus.preferences)).toHaveLength(6);
+  });
+
+  it('should only reference entities in the corpus', () => {
+    const userIds = new Set(corpus.users.map((user) => user.id));
+    const recipeIds = new Set(corpus.recipes.map((recipe) => recipe.id));
+    const ingredientIds = new Set(corpus.catalog.ingredients.map((i) => i.id));
+    const equipmentIds = new Set(corpus.catalog.equipment.map((e) => e.id));
+
+    for (const recipe of corpus.recipes) {
+      if (recipe.userId) expect(userIds.has(recipe.userId)).toBe(true);
+    }
+    for (const rating of corpus.ratings) {
+      expect(userIds.has(rating.user_id)).toBe(true);
+      expect(recipeIds.has(rating.recipe_id)).toBe(true);
+    }
+    for (const [userId, prefs] of Object.entries(corpus.preferences)) {
+      expect(userIds.has(userId)).toBe(true);
+      expect(prefs.ingredient_ids.every((id) => ingredientIds.has(id))).toBe(
+        true,
+      );
+      expect(prefs.equipment_ids.every((id) => equipmentIds.has(id))).toBe(
+        true,
+      );
+    }
+    for (const ids of Object.values(corpus.favorites)) {
+      expect(ids.every((id) => recipeIds.has(id))).toBe(true);
+    }
+    for (const collection of corpus.collections) {
+      expect(userIds.has(collection.user_id)).toBe(true);
+      for (const item of collection.items) {
+        expect(recipeIds.has(item.recipe_id)).toBe(true);
+      }
+    }
+  });
+
+  it('should store each revision as an edited recipe', () => {
+    expect(corpus.revisions.length).toBeGreaterThan(0);
+    expect(corpus.collections.length).toBeGreaterThan(0);
+    for (const revision of corpus.revisions) {
+      const find = (id: number) => corpus.recipes.find((r) => r.id === id);
+      const parent = find(revision.parent_recipe_id);
+      const edited = find(revision.recipe_id);
+      expect(edited?.userId).toBe(revision.user_id);
+      expect(parent && edited && diffRecipes(parent, edited)).toEqual(
+        revision.diff,
+      );
+    }
+  });
+
+  it('should date entities after the ones they depend on', () => {
+    for (const seed of [3, 5]) {
+      const { users, recipes, ratings, collections } = generateFixtureCorpus({
+        seed,
+      });
+      const joined = (id: string) =>
+        users.find((user) => user.id === id)?.created_at ?? '';
+      const created = (id: number) =>
+        recipes.find((recipe) => recipe.id === id)?.createdAt ?? '';
+
+      for (const recipe of recipes) {
+        if (recipe.userId) {
+          expect(recipe.createdAt >= joined(recipe.userId)).toBe(true);
+        }
+      }
+      for (const rating of ratings) {
+        expect(rating.created_at >= created(rating.recipe_id)).toBe(true);
+        expect(rating.created_at >= joined(rating.user_id)).toBe(true);
+      }
+      for (const collection of collections) {
+        expect(collection.created_at >= joined(collection.user_id)).toBe(true);
+        for (const item of collection.items) {
+          expect(item.added_at >= created(item.recipe_id)).toBe(true);
+          expect(item.added_at >= collection.created_at).toBe(true);
+          expect(collection.updated_at >= item.added_at).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('should have at most one rating per user and recipe', () => {
+    const keys = corpus.ratings.map((r) => `${r.recipe_id}:${r.user_id}`);
+    expect(new Set(keys).size).toBe(keys.length);
+    const ids = corpus.ratings.map((rating) => rating.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should have aggregates that match the ratings', () => {
+    for (const aggregate of corpus.aggregates) {
+      expect(aggregate).toEqual(
+        computeRatingAggregate(aggregate.recipe_id, corpus.ratings),
+      );
+    }
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Tests for recipe import from JSON-LD and pasted text
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  importRecipeFromJsonLd,
+  importRecipeFromText,
+  toRecipeJsonLd,
+  type Equipment,
+  type Ingredient,
+  type Recipe,
+  type RecipeImport,
+  type RecipeImportCatalog,
+  type ValidationResult,
+} from '../index';
+
+const createdAt = '2024-01-01T00:00:00Z';
+
+function ingredient(id: number, name: string): Ingredient {
+  return { id, name, subcategory: 'other', icon: null, createdAt };
+}
+
+function equipment(id: number, name: string): Equipment {
+  return { id, name, subcategory: 'essential', icon: null, createdAt };
+}
+
+const catalog: RecipeImportCatalog = {
+  ingredients: [
+    ingredient(1, 'Tequila'),
+    ingredient(2, 'Lime'),
+    ingredient(3, 'Lime juice'),
+    ingredient(4, 'Triple sec'),
+    ingredient(5, 'Salt'),
+    ingredient(6, 'White rum'),
+    ingredient(7, 'Simple syrup'),
+  ],
+  equipment: [equipment(1, 'Cocktail shaker'), equipment(2, 'Strainer')],
+};
+
+function value(result: ValidationResult<RecipeImport>): RecipeImport {
+  if (!result.success) throw new Error('expected a successful import');
+  return result.value;
+}
+
+describe('importRecipeFromJsonLd', () => {
+  const jsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: 'Margarita',
+    description: 'A <b>classic</b> &amp; refreshing drink',
+    recipeIngredient: [
+      '2 oz tequila',
+      '1 oz fresh lime juice',
+      '3/4 oz Triple Sec',
+      'Salt, to taste',
+      '1 sprig of unobtainium',
+    ],
+    recipeInstructions: [
+      { '@type': 'HowToStep', text: 'Shake with ice.' },
+      { '@type': 'HowToStep', text: 'Strain into a glass.' },
+    ],
+    tool: [{ '@type': 'HowToTool', name: 'Shaker' }, 'Strainer'],
+  };
+
+  it('should build a draft from a Recipe node', () => {
+    const { draft } = value(importRecipeFromJsonLd(jsonLd, catalog));
+    expect(draft.name).toBe('Margarita');
+    expect(draft.description).toBe('A classic & refreshing drink');
+    expect(draft.steps).toEqual(['Shake with ice.', 'Strain into a glass.']);
+    expect(draft.ingredients).toEqual([
+      { id: 1, name: 'Tequila', icon: null, amount: '2 oz' },
+      { id: 3, name: 'Lime juice', icon: null, amount: '1 oz' },
+      { id: 4, name: 'Triple sec', icon: null, amount: '3/4 oz' },
+      { id: 5, name: 'Salt', icon: null, amount: 'to taste' },
+    ]);
+    expect(draft.equipment.map((item) => item.name)).toEqual([
+      'Cocktail shaker',
+      'Strainer',
+    ]);
+  });
+
+  it('should report unresolved and low-confidence items', () => {
+    const result = value(importRecipeFromJsonLd(jsonLd, catalog));
+    expect(result.items).toHaveLength(7);
+    expect(result.unresolved.map((item) => item.name)).toEqual([
+      'sprig of unobtainium',
+    ]);
+    expect(result.lowConfidence.map((item) => item.name)).toEqual(['Shaker']);
+    expect(
+      result.items.find((item) => item.name === 'fresh lime juice')?.match,
+    ).toEqual({ id: 3, name: 'Lime juice', icon: null, amount: '1 oz' });
+  });
+
+  it('should keep numeric entities that are not valid code points', () => {
+    const result = importRecipeFromJsonLd(
+      { ...jsonLd, name: 'X &#99999999; &#xD800; &#x1F378; y' },
+      catalog,
+    );
+    expect(value(result).draft.name).toBe('X &#99999999; &#xD800; 🍸 y');
+  });
+
+  it('should honor the confidence thresholds', () => {
+    const result = value(
+      importRecipeFromJsonLd(jsonLd, catalog, { minConfidence: 0.95 }),
+    );
+    expect(result.unresolved.map((item) => item.name)).toContain(
+      'fresh lime juice',
+    );
+    expect(result.draft.ingredients.map((item) => item.id)).toEqual([1, 4, 5]);
+  });
+
+  it('should find the recipe in a @graph document or JSON text', () => {
+    const graph = {
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'WebPage', name: 'Cocktails' },
+        { ...jsonLd, '@type': ['Recipe', 'NewsArticle'] },
+      ],
+    };
+    expect(value(importRecipeFromJsonLd(graph, catalog)).draft.name).toBe(
+      'Margarita',
+    );
+    expect(
+      value(importRecipeFromJsonLd(JSON.stringify([jsonLd]), catalog)).draft
+        .name,
+    ).toBe('Margarita');
+  });
+
+  it('should flatten sections and string instructions', () => {
+    const sections = {
+      ...jsonLd,
+      recipeInstructions: [
+        {
+          '@type': 'HowToSection',
+          name: 'Prepare',
+          itemListElement: [{ '@type': 'HowToStep', text: 'Salt the rim.' }],
+        },
+        'Shake.\nStrain.',
+      ],
+    };
+    expect(
+      value(importRecipeFromJsonLd(sections, catalog)).draft.steps,
+    ).toEqual(['Salt the rim.', 'Shake.', 'Strain.']);
+  });
+
+  it('should round-trip an exported recipe', () => {
+    const recipe: Recipe = {
+      id: 9,
+      name: 'Daiquiri',
+      description: null,
+      moodId: null,
+      createdAt,
+      mood: null,
+      ingredients: [
+        { id: 6, name: 'White rum', icon: null, amount: '2 oz' },
+        { id: 3, name: 'Lime juice', icon: null, amount: '1 oz' },
+        { id: 7, name: 'Simple syrup', icon: null, amount: '3/4 oz' },
+      ],
+      steps: ['Shake with ice', 'Strain'],
+      equipment: [{ id: 1, name: 'Cocktail shaker', icon: null }],
+    };
+    const result = value(
+      importRecipeFromJsonLd(toRecipeJsonLd(recipe), catalog),
+    );
+    expect(result.draft).toEqual({
+      name: recipe.name,
+      description: null,
+      ingredients: recipe.ingredients,
+      steps: recipe.steps,
+      equipment: recipe.equipment,
+    });
+    expect(result.lowConfidence).toEqual([]);
+  });
+
+  it('should fail without a Recipe node', () => {
+    const result = importRecipeFromJsonLd({ '@type': 'WebPage' }, catalog);
+    expect(result.success).toBe(false);
+    expect(importRecipeFromJsonLd('{not json', catalog).success).toBe(false);
+  });
+
+  it('should require a name and ingredients', () => {
+    const result = importRecipeFromJsonLd({ '@type': 'Recipe' }, catalog);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((error) => error.path)).toEqual([
+        'name',
+        'ingredients',
+      ]);
+    }
+  });
+});
+
+describe('importRecipeFromText', () => {
+  it('should parse sections', () => {
+    const text = `# Margarita
+A classic.
+
+## Ingredients
+- 2 oz Tequila
+- 1 oz lime juice
+- Triple sec: 3/4 oz
+
+## Equipment
+- Cocktail shaker
+
+## Instructions
+1. Shake with ice
+2. Strain into a glass`;
+    const { draft, unresolved } = value(importRecipeFromText(text, catalog));
+    expect(draft.name).toBe('Margarita');
+    expect(draft.description).toBe('A classic.');
+    expect(draft.ingredients.map((item) => [item.name, item.amount])).toEqual([
+      ['Tequila', '2 oz'],
+      ['Lime juice', '1 oz'],
+      ['Triple sec', '3/4 oz'],
+    ]);
+    expect(draft.equipment.map((item) => item.id)).toEqual([1]);
+    expect(draft.steps).toEqual(['Shake with ice', 'Strain into a glass']);
+    expect(unresolved).toEqual([]);
+  });
+
+  it('should read bullets as ingredients and numbers as steps without headers', () => {
+    const text = `Daiquiri
+
+* 2 oz white rum
+* 2 limes
+* 3/4 oz simple syrup
+1. Shake
+2. Strain`;
+    const { draft } = value(importRecipeFromText(text, catalog));
+    expect(draft.ingredients.map((item) => [item.name, item.amount])).toEqual([
+      ['White rum', '2 oz'],
+      ['Lime', '2'],
+      ['Simple syrup', '3/4 oz'],
+    ]);
+    expect(draft.steps).toEqual(['Shake', 'Strain']);
+  });
+
+  it('should match misspelled names with lower confidence', () => {
+    const result = value(
+      importRecipeFromText('Shot\nIngredients\n2 oz tequlla', catalog),
+    );
+    expect(result.draft.ingredients[0].id).toBe(1);
+    expect(result.lowConfidence).toHaveLength(1);
+    expect(result.lowConfidence[0].confidence).toBeLessThan(0.9);
+  });
+
+  it('should fail on empty text', () => {
+    expect(importRecipeFromText('  \n', catalog).success).toBe(false);
+  });
+});
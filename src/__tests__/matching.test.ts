@@ -0,0 +1,118 @@
+/**
+ * Tests for "what can I make" recipe matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  matchRecipe,
+  matchRecipes,
+  type Recipe,
+  type UserInventory,
+} from '../index';
+
+function recipe(
+  id: number,
+  ingredientIds: number[],
+  equipmentIds: number[] = [],
+): Recipe {
+  return {
+    id,
+    name: `Recipe ${id}`,
+    description: null,
+    moodId: null,
+    createdAt: '2024-01-01T00:00:00Z',
+    mood: null,
+    ingredients: ingredientIds.map((ingredientId) => ({
+      id: ingredientId,
+      name: `Ingredient ${ingredientId}`,
+      icon: null,
+      amount: '1 oz',
+    })),
+    steps: [],
+    equipment: equipmentIds.map((equipmentId) => ({
+      id: equipmentId,
+      name: `Equipment ${equipmentId}`,
+      icon: null,
+    })),
+  };
+}
+
+const inventory: UserInventory = {
+  equipment_ids: [1, 2],
+  ingredient_ids: [10, 11, 12],
+};
+
+describe('matchRecipe', () => {
+  it('should mark a fully stocked recipe as makeable', () => {
+    const match = matchRecipe(recipe(1, [10, 11], [1]), inventory);
+
+    expect(match.status).toBe('makeable');
+    expect(match.missingCount).toBe(0);
+  });
+
+  it('should list missing ingredients', () => {
+    const match = matchRecipe(recipe(1, [10, 20, 21], [1]), inventory);
+
+    expect(match.status).toBe('missing_ingredients');
+    expect(match.missingIngredients.map((item) => item.id)).toEqual([20, 21]);
+    expect(match.missingEquipment).toEqual([]);
+  });
+
+  it('should prefer missing equipment over missing ingredients', () => {
+    const match = matchRecipe(recipe(1, [20], [3]), inventory);
+
+    expect(match.status).toBe('missing_equipment');
+    expect(match.missingEquipment.map((item) => item.id)).toEqual([3]);
+    expect(match.missingIngredients.map((item) => item.id)).toEqual([20]);
+    expect(match.missingCount).toBe(2);
+  });
+
+  it('should count a repeated missing ingredient once', () => {
+    const match = matchRecipe(recipe(1, [20, 20]), inventory);
+
+    expect(match.missingCount).toBe(1);
+  });
+});
+
+describe('matchRecipes', () => {
+  const recipes = [
+    recipe(1, [10, 20, 21, 22]),
+    recipe(2, [10, 11]),
+    recipe(3, [10, 20]),
+    recipe(4, [10], [3]),
+    recipe(5, [30, 31], [3, 4]),
+    recipe(6, [12, 21]),
+  ];
+
+  it('should group and rank recipes', () => {
+    const result = matchRecipes(recipes, inventory);
+
+    expect(result.makeable.map((m) => m.recipe.id)).toEqual([2]);
+    expect(result.missingIngredients.map((m) => m.recipe.id)).toEqual([
+      3, 6, 1,
+    ]);
+    expect(result.missingEquipment.map((m) => m.recipe.id)).toEqual([4, 5]);
+  });
+
+  it('should leave out recipes missing too many items', () => {
+    const result = matchRecipes(recipes, inventory, { maxMissing: 1 });
+
+    expect(result.missingIngredients.map((m) => m.recipe.id)).toEqual([3, 6]);
+    expect(result.missingEquipment.map((m) => m.recipe.id)).toEqual([4]);
+  });
+
+  it('should handle a few thousand recipes quickly', () => {
+    const many = Array.from({ length: 5000 }, (_, i) =>
+      recipe(i, [10 + (i % 7), 20 + (i % 13), 30 + (i % 5)], [1 + (i % 3)]),
+    );
+    const start = Date.now();
+    const result = matchRecipes(many, inventory);
+
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(
+      result.makeable.length +
+        result.missingIngredients.length +
+        result.missingEquipment.length,
+    ).toBe(5000);
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * Tests for the in-memory mock MIXR API
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createMockMixrApi,
+  decodeEquipmentListResponse,
+  decodeDeleteCollectionResponse,
+  decodeGenerateRecipeResponse,
+  decodeRecipeCollectionListResponse,
+  decodeRecipeCollectionResponse,
+  decodeRecipeListResponse,
+  decodeRecipeRatingListResponse,
+  decodeRecipeRevisionListResponse,
+  decodeUpdateRecipeResponse,
+  decodeUserPreferencesResponse,
+  generateFixtureCorpus,
+  type MockHeadersInit,
+  type MockRequest,
+  type MockRequestInit,
+} from '../index';
+
+/** Loosely typed JSON body, so assertions can reach into any response */
+type Entity = Record<string, unknown> & {
+  id: number;
+  stars: number;
+  subcategory: string;
+};
+interface Body {
+  success: boolean;
+  code?: string;
+  error?: string;
+  message?: string;
+  version?: string;
+  count?: number;
+  pagination?: unknown;
+  data: Entity & Entity[];
+}
+
+const corpus = generateFixtureCorpus({ seed: 9, recipes: 12, users: 4 });
+const userId = corpus.users[0].id;
+
+function setup() {
+  const api = createMockMixrApi({
+    corpus,
+    now: () => new Date('2025-03-01T12:00:00Z'),
+  });
+  const call = async (
+    method: string,
+    path: string,
+    body?: unknown,
+    init: MockRequestInit = {},
+  ) => {
+    const response = await api.fetch(`https://api.mixr.test${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${userId}`, ...init.headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as Body };
+  };
+  return { api, call };
+}
+
+describe('createMockMixrApi', () => {
+  it('should serve health and version', async () => {
+    const { call } = setup();
+    expect(await call('GET', '/health')).toEqual({
+      status: 200,
+      body: {
+        success: true,
+        status: 'ok',
+        timestamp: '2025-03-01T12:00:00.000Z',
+      },
+    });
+    expect((await call('GET', '/version')).body.version).toBe('1.0.0');
+  });
+
+  it('should filter catalog lists by subcategory', async () => {
+    const { call } = setup();
+    const { status, body } = await call(
+      'GET',
+      '/equipment?subcategory=glassware',
+    );
+    expect(status).toBe(200);
+    expect(decodeEquipmentListResponse(body).success).toBe(true);
+    expect(body.data.length).toBeGreaterThan(0);
+    expect(body.count).toBe(body.data.length);
+    expect(body.data.every((item) => item.subcategory === 'glassware')).toBe(
+      true,
+    );
+
+    const invalid = await call('GET', '/ingredients?subcategory=soda');
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.code).toBe('VALIDATION_FAILED');
+  });
+
+  it('should return not-found codes with their statuses', async () => {
+    const { call } = setup();
+    const missing = await call('GET', '/recipes/999');
+    expect(missing).toMatchObject({
+      status: 404,
+      body: { success: false, code: 'RECIPE_NOT_FOUND' },
+    });
+    expect((await call('GET', '/moods/999')).body.code).toBe('MOOD_NOT_FOUND');
+    expect(await call('GET', '/nowhere')).toMatchObject({
+      status: 404,
+      body: { success: false, code: 'NOT_FOUND', error: 'Cannot GET /nowhere' },
+    });
+    expect(await call('GET', '/recipes/%E0%A4%A')).toMatchObject({
+      status: 400,
+      body: { code: 'VALIDATION_FAILED' },
+    });
+  });
+
+  it('should accept Headers, header pairs and Request input', async () => {
+    const { api } = setup();
+    const { Headers, Request } = globalThis as unknown as {
+      Headers: new (init: [string, string][]) => MockHeadersInit;
+      Request: new (
+        url: string,
+        init: { method: string; headers: Record<string, string>; body: string },
+      ) => MockRequest;
+    };
+    const auth: [string, string][] = [['Authorization', `Bearer ${userId}`]];
+
+    expect((await api.fetch('/users/me', { headers: auth })).status).toBe(200);
+    expect(
+      (await api.fetch('/users/me', { headers: new Headers(auth) })).status,
+    ).toBe(200);
+
+    const request = new Request('https://api.mixr.test/users/me', {
+      method: 'PUT',
+      headers: { Authorization: `Bearer ${userId}` },
+      body: JSON.stringify({ display_name: 'Merged' }),
+    });
+    const response = await api.fetch(request, {
+      headers: { 'X-Trace': '1' },
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      data: { display_name: 'Merged' },
+    });
+  });
+
+  it('should require a bearer token on auth routes', async () => {
+    const { api } = setup();
+    const response = await api.fetch('/users/me');
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'UNAUTHENTICATED' });
+  });
+
+  it('should read and update the signed-in user', async () => {
+    const { call } = setup();
+    expect((await call('GET', '/users/me')).body.data.id).toBe(userId);
+
+    const updated = await call('PUT', '/users/me', { display_name: ' Sam ' });
+    expect(updated.body.data.display_name).toBe('Sam');
+
+    const prefs = await call('PUT', '/users/me/preferences', {
+      equipment_ids: [1, 1],
+      ingredient_ids: [2],
+    });
+    expect(decodeUserPreferencesResponse(prefs.body).success).toBe(true);
+    expect(prefs.body.data.equipment_ids).toEqual([1]);
+    expect((await call('GET', '/users/me/preferences')).body).toEqual(
+      prefs.body,
+    );
+  });
+
+  it('should add, list and remove favorites', async () => {
+    const { call } = setup();
+    await call('PUT', '/users/me', { display_name: 'Sam' });
+    const existing = corpus.favorites[userId] ?? [];
+    const recipeId = corpus.recipes.find(
+      (recipe) => !existing.includes(recipe.id),
+    )?.id;
+
+    const added = await call('POST', '/favorites', { recipe_id: recipeId });
+    expect(added.body).toEqual({
+      success: true,
+      message: 'Recipe added to favorites',
+    });
+    const again = await call('POST', '/favorites', { recipe_id: recipeId });
+    expect(again.status).toBe(409);
+    expect(again.body).toMatchObject({
+      code: 'ALREADY_FAVORITED',
+      message: again.body.error,
+    });
+
+    const list = await call('GET', '/favorites');
+    expect(decodeRecipeListResponse(list.body).success).toBe(true);
+    expect(list.body.data.map((r) => r.id)).toContain(recipeId);
+
+    expect((await call('DELETE', `/favorites/${recipeId}`)).status).toBe(200);
+    expect((await call('DELETE', `/favorites/${recipeId}`)).body.code).toBe(
+      'FAVORITE_NOT_FOUND',
+    );
+  });
+
+  it('should sort and paginate ratings', async () => {
+    const { call } = setup();
+    const recipeId = corpus.ratings[0].recipe_id;
+    const { body } = await call(
+      'GET',
+      `/recipes/${recipeId}/ratings?sort=highest&limit=2`,
+    );
+    expect(decodeRecipeRatingListResponse(body).success).toBe(true);
+    const stars = corpus.ratings
+      .filter((rating) => rating.recipe_id === recipeId)
+      .map((rating) => rating.stars)
+      .sort((a, b) => b - a);
+    expect(body.data.map((rating) => rating.stars)).toEqual(stars.slice(0, 2));
+    expect(body.pagination).toEqual({
+      total: stars.length,
+      limit: 2,
+      offset: 0,
+    });
+
+    const cursor = await call('GET', '/recipes?cursor=o0&limit=5');
+    expect(cursor.body.pagination).toEqual({
+      limit: 5,
+      next_cursor: 'o5',
+      total: 12,
+    });
+  });
+
+  it('should upsert ratings and keep the aggregate in sync', async () => {
+    const { api, call } = setup();
+    const recipeId = corpus.recipes[0].id;
+    const path = `/recipes/${recipeId}/ratings`;
+
+    const first = await call('POST', path, { stars: 2 });
+    const second = await call('POST', path, { stars: 5, review: 'Great' });
+    expect(second.body.data.id).toBe(first.body.data.id);
+    expect(second.body.data.stars).toBe(5);
+    const mine = api.state.ratings.filter(
+      (r) => r.recipe_id === recipeId && r.user_id === userId,
+    );
+    expect(mine).toHaveLength(1);
+
+    const aggregate = await call('GET', `${path}/aggregate`);
+    const all = api.state.ratings.filter((r) => r.recipe_id === recipeId);
+    expect(aggregate.body.data.total_ratings).toBe(all.length);
+
+    const outOfRange = await call('POST', path, { stars: 9 });
+    expect(outOfRange.body.code).toBe('RATING_OUT_OF_RANGE');
+
+    expect((await call('DELETE', path)).body.data).toEqual({
+      message: 'Rating deleted',
+    });
+    expect((await call('DELETE', path)).body.code).toBe('RATING_NOT_FOUND');
+  });
+
+  it('should save recipe edits as revisions', async () => {
+    const { api, call } = setup();
+    const parent = corpus.recipes[0];
+    const path = `/recipes/${parent.id}`;
+
+    const edited = await call('PUT', path, { name: 'House Special' });
+    expect(decodeUpdateRecipeResponse(edited.body).success).toBe(true);
+    const { recipe, revision } = edited.body.data as unknown as {
+      recipe: Entity;
+      revision: Entity;
+    };
+    expect(recipe).toMatchObject({ name: 'House Special', userId });
+    expect(recipe.id).not.toBe(parent.id);
+    expect(revision).toMatchObject({
+      recipe_id: recipe.id,
+      parent_recipe_id: parent.id,
+      user_id: userId,
+      summary: 'Renamed to "House Special"',
+    });
+    expect(api.state.revisions).toHaveLength(corpus.revisions.length + 1);
+
+    await call('PUT', path, { steps: ['Stir'], summary: '  One step  ' });
+    const list = await call('GET', `${path}/revisions`);
+    expect(decodeRecipeRevisionListResponse(list.body).success).toBe(true);
+    expect(list.body.data.map((item) => item.summary).slice(0, 2)).toEqual([
+      'One step',
+      'Renamed to "House Special"',
+    ]);
+
+    expect((await call('PUT', path, {})).status).toBe(400);
+    expect((await call('PUT', path, { mood_id: 999 })).body.code).toBe(
+      'MOOD_NOT_FOUND',
+    );
+    expect((await call('PUT', '/recipes/999', { name: 'X' })).status).toBe(404);
+    expect((await call('GET', '/recipes/999/revisions')).body.code).toBe(
+      'RECIPE_NOT_FOUND',
+    );
+  });
+
+  it('should create, edit and delete collections', async () => {
+    const { api, call } = setup();
+    const [a, b, c] = corpus.recipes.map((recipe) => recipe.id);
+
+    const created = await call('POST', '/collections', {
+      name: ' Summer party ',
+      recipe_ids: [a, b],
+    });
+    expect(decodeRecipeCollectionResponse(created.body).success).toBe(true);
+    expect(created.body.data).toMatchObject({
+      name: 'Summer party',
+      user_id: userId,
+      visibility: 'private',
+    });
+    const path = `/collections/${created.body.data.id}`;
+
+    await call('POST', `${path}/items`, { recipe_id: c, position: 0 });
+    await call('PUT', `${path}/items`, { recipe_id: a, note: 'Batch ahead' });
+    await call('DELETE', `${path}/items`, { recipe_id: b });
+    const reordered = await call('PUT', `${path}/order`, {
+      recipe_ids: [a, c],
+    });
+    expect(reordered.body.data.items).toMatchObject([
+      { recipe_id: a, note: 'Batch ahead' },
+      { recipe_id: c, note: null },
+    ]);
+
+    const again = await call('POST', `${path}/items`, { recipe_id: a });
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('ALREADY_IN_COLLECTION');
+    expect(
+      (await call('DELETE', `${path}/items`, { recipe_id: b })).body.code,
+    ).toBe('COLLECTION_ITEM_NOT_FOUND');
+    expect(
+      (await call('POST', `${path}/items`, { recipe_id: 999 })).body.code,
+    ).toBe('RECIPE_NOT_FOUND');
+    expect((await call('DELETE', `${path}/items`, {})).status).toBe(400);
+    expect((await call('PUT', path, { cover_mood_id: 999 })).body.code).toBe(
+      'MOOD_NOT_FOUND',
+    );
+
+    const list = await call('GET', '/collections');
+    expect(decodeRecipeCollectionListResponse(list.body).success).toBe(true);
+    const mine = corpus.collections.filter((item) => item.user_id === userId);
+    expect(list.body.data).toHaveLength(mine.length + 1);
+    expect(
+      api.state.collections.find((item) => item.id === created.body.data.id)
+        ?.items,
+    ).toHaveLength(2);
+
+    const deleted = await call('DELETE', path);
+    expect(decodeDeleteCollectionResponse(deleted.body).success).toBe(true);
+    expect((await call('GET', path)).status).toBe(404);
+  });
+
+  it("should hide other users' private collections", async () => {
+    const { call } = setup();
+    const other = {
+      headers: { Authorization: `Bearer ${corpus.users[1].id}` },
+    };
+    const created = await call('POST', '/collections', { name: 'Menu' });
+    const path = `/collections/${created.body.data.id}`;
+
+    expect((await call('GET', path, undefined, other)).body.code).toBe(
+      'COLLECTION_NOT_FOUND',
+    );
+    await call('PUT', path, { visibility: 'public' });
+    expect((await call('GET', path, undefined, other)).status).toBe(200);
+    expect((await call('PUT', path, { name: 'Mine' }, other)).status).toBe(404);
+    const theirs = await call('GET', '/collections', undefined, other);
+    expect(theirs.body.data.map((item) => item.user_id)).not.toContain(userId);
+  });
+
+  it('should generate deterministic recipes from the catalog', async () => {
+    const request = {
+      equipment_ids: [1, 2],
+      ingredient_ids: [3, 1, 7],
+      mood_id: 1,
+    };
+    const a = await setup().call('POST', '/recipes/generate', request);
+    const b = await setup().call('POST', '/recipes/generate', request);
+    expect(decodeGenerateRecipeResponse(a.body).success).toBe(true);
+    expect(a.body).toEqual(b.body);
+    expect(a.body.data.userId).toBe(userId);
+    expect(a.body.data.id).toBe(13);
+
+    const unknown = await setup().call('POST', '/recipes/generate', {
+      ...request,
+      mood_id: 999,
+    });
+    expect(unknown.body.code).toBe('MOOD_NOT_FOUND');
+  });
+
+  it('should reject malformed bodies', async () => {
+    const { api } = setup();
+    const response = await api.fetch('/favorites', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${userId}` },
+      body: '{"recipe_id":',
+    });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'VALIDATION_FAILED' });
+  });
+
+  it('should work as a NetworkClient', async () => {
+    const api = createMockMixrApi({ corpus, basePath: '/api/v1' });
+    const response = await api.client.get<{ success: boolean }>(
+      '/api/v1/moods',
+    );
+    expect(response.ok).toBe(true);
+    expect(response.status).toBe(200);
+    expect(response.data?.success).toBe(true);
+    expect(response.headers['content-type']).toBe('application/json');
+
+    const failed = await api.client.post('/api/v1/favorites', {
+      recipe_id: 1,
+    });
+    expect(failed.status).toBe(401);
+    expect(failed.success).toBe(false);
+  });
+
+  it('should not mutate the given corpus', async () => {
+    const { call } = setup();
+    await call('PUT', '/users/me', { display_name: 'Changed' });
+    expect(corpus.users[0].display_name).not.toBe('Changed');
+  });
+});
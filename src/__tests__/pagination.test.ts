@@ -0,0 +1,164 @@
+/**
+ * Tests for paginated list responses
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  createErrorResponse,
+  decodeRecipeRatingListResponse,
+  fetchAllPages,
+  getNextPageQuery,
+  getPageInfo,
+  iteratePages,
+  type MixrPaginatedResponse,
+  type PaginationInfo,
+  type RatingListParams,
+  type RecipeListResponse,
+} from '../index';
+
+function offsetPage(
+  offset: number,
+  limit: number,
+  total: number,
+): MixrPaginatedResponse<number> {
+  const data = Array.from(
+    { length: Math.max(0, Math.min(limit, total - offset)) },
+    (_, i) => offset + i,
+  );
+  return { success: true, data, pagination: { total, limit, offset } };
+}
+
+describe('getPageInfo', () => {
+  it('should describe an offset-based page', () => {
+    const info = getPageInfo(offsetPage(20, 20, 45));
+
+    expect(info).toEqual({
+      hasNextPage: true,
+      hasPreviousPage: true,
+      totalCount: 45,
+      pageSize: 20,
+      page: 2,
+      totalPages: 3,
+    });
+    expectTypeOf(info).toMatchTypeOf<PaginationInfo>();
+  });
+
+  it('should detect the last offset-based page', () => {
+    expect(getPageInfo(offsetPage(40, 20, 45)).hasNextPage).toBe(false);
+    expect(getPageInfo(offsetPage(0, 20, 0)).hasNextPage).toBe(false);
+  });
+
+  it('should describe a cursor-based page', () => {
+    const response: MixrPaginatedResponse<number> = {
+      success: true,
+      data: [1, 2],
+      pagination: { limit: 2, next_cursor: 'abc' },
+    };
+
+    expect(getPageInfo(response)).toEqual({
+      hasNextPage: true,
+      nextCursor: 'abc',
+      totalCount: null,
+      pageSize: 2,
+    });
+  });
+
+  it('should treat responses without pagination as a single page', () => {
+    const info = getPageInfo({ success: true, data: [1, 2, 3] });
+
+    expect(info.hasNextPage).toBe(false);
+    expect(info.totalCount).toBe(3);
+  });
+});
+
+describe('getNextPageQuery', () => {
+  it('should advance the offset and keep other params', () => {
+    const query: RatingListParams = { sort: 'highest', limit: 20 };
+
+    expect(getNextPageQuery(query, offsetPage(0, 20, 45))).toEqual({
+      sort: 'highest',
+      limit: 20,
+      offset: 20,
+    });
+    expect(getNextPageQuery(query, offsetPage(40, 20, 45))).toBeNull();
+  });
+
+  it('should switch to the cursor for cursor-based pages', () => {
+    const next = getNextPageQuery(
+      { limit: 2, offset: 0 },
+      {
+        success: true,
+        data: [1, 2],
+        pagination: { limit: 2, next_cursor: 'abc' },
+      },
+    );
+
+    expect(next).toEqual({ limit: 2, cursor: 'abc' });
+  });
+});
+
+describe('iteratePages / fetchAllPages', () => {
+  const fetchPage = async ({ offset = 0, limit = 20 }: RatingListParams) =>
+    offsetPage(offset, limit, 45);
+
+  it('should yield every page in order', async () => {
+    const pages: number[][] = [];
+    for await (const page of iteratePages(fetchPage, { limit: 20 })) {
+      pages.push(page);
+    }
+
+    expect(pages.map((page) => page.length)).toEqual([20, 20, 5]);
+  });
+
+  it('should collect all items and respect maxPages', async () => {
+    const all = await fetchAllPages(fetchPage, { limit: 10 });
+    const some = await fetchAllPages(fetchPage, { limit: 10 }, { maxPages: 2 });
+
+    expect(all).toHaveLength(45);
+    expect(all[44]).toBe(44);
+    expect(some).toHaveLength(20);
+  });
+
+  it('should throw on an error response', async () => {
+    const failing = async (): Promise<RecipeListResponse> =>
+      createErrorResponse('RATE_LIMITED', { details: { retry_after: 1 } });
+
+    await expect(fetchAllPages(failing, {})).rejects.toThrow('RATE_LIMITED');
+  });
+});
+
+describe('Paginated response decoding', () => {
+  it('should accept offset and cursor pagination', () => {
+    const base = { success: true, data: [] };
+
+    expect(
+      decodeRecipeRatingListResponse({
+        ...base,
+        pagination: { total: 0, limit: 20, offset: 0 },
+      }).success,
+    ).toBe(true);
+    expect(
+      decodeRecipeRatingListResponse({
+        ...base,
+        pagination: { limit: 20, next_cursor: null },
+      }).success,
+    ).toBe(true);
+    expect(decodeRecipeRatingListResponse(base).success).toBe(true);
+  });
+
+  it('should report incomplete pagination blocks', () => {
+    const result = decodeRecipeRatingListResponse({
+      success: true,
+      data: [],
+      pagination: { limit: 20 },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((error) => error.path)).toEqual([
+        'pagination.total',
+        'pagination.offset',
+      ]);
+    }
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for the versioned persistence format and migrations
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  PERSISTENCE_MIGRATIONS,
+  PERSISTENCE_SCHEMA_VERSIONS,
+  createPersistedEnvelope,
+  migrate,
+  type PersistedKind,
+  type RecipeWithUser,
+  type UserPreferences,
+} from '../index';
+import favoritesV1 from './fixtures/persistence/favorites.v1.json';
+import preferencesV1 from './fixtures/persistence/preferences.v1.json';
+import ratingsV1 from './fixtures/persistence/ratings.v1.json';
+import recipeV1 from './fixtures/persistence/recipe.v1.json';
+import recipeV2 from './fixtures/persistence/recipe.v2.json';
+
+describe('PERSISTENCE_MIGRATIONS', () => {
+  it('should have a step for every version below the current one', () => {
+    const kinds = Object.keys(PERSISTENCE_SCHEMA_VERSIONS) as PersistedKind[];
+    for (const kind of kinds) {
+      for (let v = 1; v < PERSISTENCE_SCHEMA_VERSIONS[kind]; v++) {
+        expect(PERSISTENCE_MIGRATIONS[kind][v]).toBeTypeOf('function');
+      }
+    }
+  });
+});
+
+describe('createPersistedEnvelope', () => {
+  it('should stamp the current schema version', () => {
+    const preferences: UserPreferences = {
+      equipment_ids: [],
+      ingredient_ids: [1],
+      updated_at: '2024-01-01T00:00:00Z',
+    };
+    expect(createPersistedEnvelope('preferences', preferences)).toEqual({
+      schemaVersion: PERSISTENCE_SCHEMA_VERSIONS.preferences,
+      kind: 'preferences',
+      payload: preferences,
+    });
+  });
+});
+
+describe('migrate', () => {
+  it('should upgrade a v1 recipe to RecipeWithUser', () => {
+    const result = migrate(recipeV1, { kind: 'recipe' });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.fromVersion).toBe(1);
+    expect(result.migrated).toBe(true);
+    expect(result.envelope.schemaVersion).toBe(2);
+    expect(result.envelope.payload).toEqual({
+      ...recipeV1.payload,
+      userId: null,
+    });
+    expectTypeOf(result.envelope.payload).toEqualTypeOf<RecipeWithUser>();
+  });
+
+  it('should pass current envelopes through unchanged', () => {
+    const result = migrate(recipeV2);
+    expect(result).toEqual({
+      success: true,
+      envelope: recipeV2,
+      fromVersion: 2,
+      migrated: false,
+    });
+  });
+
+  it('should accept every current fixture', () => {
+    for (const fixture of [preferencesV1, ratingsV1, favoritesV1]) {
+      const result = migrate(fixture);
+      expect(result.success).toBe(true);
+    }
+  });
+
+  it('should parse JSON text', () => {
+    const result = migrate(JSON.stringify(recipeV1));
+    expect(result.success && result.envelope.kind).toBe('recipe');
+    expect(migrate('{"schemaVersion":')).toMatchObject({
+      success: false,
+      reason: 'invalid_json',
+    });
+  });
+
+  it('should narrow the payload by kind', () => {
+    const result = migrate(preferencesV1);
+    if (result.success && result.envelope.kind === 'preferences') {
+      expectTypeOf(result.envelope.payload).toEqualTypeOf<UserPreferences>();
+      expect(result.envelope.payload.ingredient_ids).toEqual([1, 12, 30]);
+    }
+  });
+
+  it('should report unrecoverable envelopes', () => {
+    const cases: [unknown, string][] = [
+      [null, 'invalid_envelope'],
+      [{ kind: 'recipe', payload: {} }, 'invalid_envelope'],
+      [{ ...recipeV2, kind: 'cocktail' }, 'unknown_kind'],
+      [{ ...recipeV2, kind: 'toString' }, 'unknown_kind'],
+      [{ ...recipeV2, schemaVersion: 3 }, 'future_version'],
+      [{ ...recipeV1, schemaVersion: 0 }, 'missing_migration'],
+      [{ ...recipeV1, payload: 'Paloma' }, 'migration_failed'],
+    ];
+    for (const [input, reason] of cases) {
+      expect(migrate(input)).toMatchObject({ success: false, reason });
+    }
+  });
+
+  it('should reject a kind other than the expected one', () => {
+    expect(migrate(ratingsV1, { kind: 'favorites' })).toMatchObject({
+      success: false,
+      reason: 'kind_mismatch',
+    });
+  });
+
+  it('should report payload mismatches after migrating', () => {
+    const corrupt = {
+      ...recipeV1,
+      payload: {
+        ...recipeV1.payload,
+        ingredients: [{ id: 1, name: 'Tequila', icon: null }],
+      },
+    };
+    const result = migrate(corrupt);
+    expect(result).toMatchObject({ success: false, reason: 'invalid_payload' });
+    if (!result.success) {
+      expect(result.errors?.map((error) => error.path)).toEqual([
+        'ingredients[0].amount',
+      ]);
+    }
+
+    const ratings = { ...ratingsV1, payload: [{ ...ratingsV1.payload[0] }, 5] };
+    const ratingsResult = migrate(ratings);
+    if (!ratingsResult.success) {
+      expect(ratingsResult.errors?.map((error) => error.path)).toEqual(['[1]']);
+    }
+    expect(ratingsResult.success).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for query-string serialization and parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EQUIPMENT_SUBCATEGORIES,
+  INGREDIENT_SUBCATEGORIES,
+  MAX_PAGE_LIMIT,
+  RATING_SORT_ORDERS,
+  fromEquipmentQueryString,
+  fromIngredientQueryString,
+  fromPaginationQueryString,
+  fromRatingListQueryString,
+  toEquipmentQueryString,
+  toIngredientQueryString,
+  toPaginationQueryString,
+  toRatingListQueryString,
+  type RatingListParams,
+} from '../index';
+
+describe('toRatingListQueryString', () => {
+  it('should write keys in a fixed order and skip undefined', () => {
+    expect(
+      toRatingListQueryString({
+        limit: 20,
+        sort: 'highest',
+        offset: undefined,
+      }),
+    ).toBe('sort=highest&limit=20');
+    expect(toRatingListQueryString({})).toBe('');
+  });
+
+  it('should encode cursors', () => {
+    expect(toPaginationQueryString({ cursor: 'a b&c=d' })).toBe(
+      'cursor=a+b%26c%3Dd',
+    );
+  });
+});
+
+describe('fromRatingListQueryString', () => {
+  it('should parse and coerce values', () => {
+    expect(fromRatingListQueryString('?sort=highest&limit=20')).toEqual({
+      success: true,
+      value: { sort: 'highest', limit: 20 },
+    });
+  });
+
+  it('should clamp numbers', () => {
+    const result = fromRatingListQueryString('limit=500&offset=-5');
+    expect(result).toEqual({
+      success: true,
+      value: { limit: MAX_PAGE_LIMIT, offset: 0 },
+    });
+    expect(fromPaginationQueryString('limit=0')).toEqual({
+      success: true,
+      value: { limit: 1 },
+    });
+  });
+
+  it('should report invalid values, unknown and repeated keys', () => {
+    const result = fromRatingListQueryString(
+      'sort=best&limit=ten&offset=1.5&page=2&cursor=a&cursor=b&sort',
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((error) => [error.path, error.code])).toEqual([
+        ['sort', 'invalid_value'],
+        ['limit', 'invalid_type'],
+        ['offset', 'not_integer'],
+        ['page', 'unknown_key'],
+        ['cursor', 'invalid_value'],
+        ['sort', 'invalid_value'],
+      ]);
+    }
+  });
+
+  it('should reject empty values and bad encoding', () => {
+    const result = fromPaginationQueryString('limit=&cursor=%E0%A4%A');
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((error) => error.code)).toEqual([
+        'invalid_value',
+        'empty',
+      ]);
+    }
+  });
+
+  it('should accept key/value maps from server frameworks', () => {
+    expect(fromRatingListQueryString({ sort: 'newest', limit: '5' })).toEqual({
+      success: true,
+      value: { sort: 'newest', limit: 5 },
+    });
+    expect(
+      fromRatingListQueryString({ sort: ['newest', 'oldest'] }).success,
+    ).toBe(false);
+  });
+});
+
+describe('Subcategory query strings', () => {
+  it('should validate against the subcategory lists', () => {
+    expect(fromEquipmentQueryString('subcategory=essential')).toEqual({
+      success: true,
+      value: { subcategory: 'essential' },
+    });
+    expect(fromEquipmentQueryString('subcategory=spirit').success).toBe(false);
+    expect(fromIngredientQueryString('subcategory=spirit').success).toBe(true);
+  });
+});
+
+describe('Round trip', () => {
+  it('should return equal params for every valid combination', () => {
+    const limits = [undefined, 1, 20, MAX_PAGE_LIMIT];
+    const offsets = [undefined, 0, 40];
+    const cursors = [undefined, 'eyJpZCI6NDJ9', 'a+b c/?&=%'];
+    for (const sort of [undefined, ...RATING_SORT_ORDERS]) {
+      for (const limit of limits) {
+        for (const offset of offsets) {
+          for (const cursor of cursors) {
+            const params: RatingListParams = {};
+            if (sort !== undefined) params.sort = sort;
+            if (limit !== undefined) params.limit = limit;
+            if (offset !== undefined) params.offset = offset;
+            if (cursor !== undefined) params.cursor = cursor;
+            const query = toRatingListQueryString(params);
+
+            expect(fromRatingListQueryString(query)).toEqual({
+              success: true,
+              value: params,
+            });
+            const parsed = fromRatingListQueryString(query);
+            if (parsed.success) {
+              expect(toRatingListQueryString(parsed.value)).toBe(query);
+            }
+          }
+        }
+      }
+    }
+
+    for (const subcategory of EQUIPMENT_SUBCATEGORIES) {
+      const query = toEquipmentQueryString({ subcategory });
+      expect(fromEquipmentQueryString(query)).toEqual({
+        success: true,
+        value: { subcategory },
+      });
+    }
+    for (const subcategory of INGREDIENT_SUBCATEGORIES) {
+      const query = toIngredientQueryString({ subcategory });
+      expect(fromIngredientQueryString(query)).toEqual({
+        success: true,
+        value: { subcategory },
+      });
+    }
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Tests for confidence-aware recipe ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  bayesianAverage,
+  compareByBayesianAverage,
+  compareByTimeDecay,
+  compareByWilsonLowerBound,
+  joinRatingAggregates,
+  timeDecayedAverage,
+  wilsonLowerBound,
+  type RatingAggregate,
+  type Recipe,
+  type RecipeRating,
+} from '../index';
+
+function aggregate(
+  recipeId: number,
+  distribution: [number, number, number, number, number],
+): RatingAggregate {
+  const [one, two, three, four, five] = distribution;
+  const total = one + two + three + four + five;
+  const sum = one + 2 * two + 3 * three + 4 * four + 5 * five;
+  return {
+    recipe_id: recipeId,
+    average_rating: total > 0 ? sum / total : 0,
+    total_ratings: total,
+    rating_distribution: {
+      '1': one,
+      '2': two,
+      '3': three,
+      '4': four,
+      '5': five,
+    },
+  };
+}
+
+function recipe(id: number): Recipe {
+  return {
+    id,
+    name: `Recipe ${id}`,
+    description: null,
+    moodId: null,
+    createdAt: '2024-01-01T00:00:00Z',
+    mood: null,
+    ingredients: [],
+    steps: [],
+    equipment: [],
+  };
+}
+
+function rating(recipeId: number, stars: number, createdAt: string) {
+  return {
+    id: 0,
+    recipe_id: recipeId,
+    user_id: 'u',
+    user_name: 'U',
+    user_email: 'u@example.com',
+    stars,
+    review: null,
+    created_at: createdAt,
+    updated_at: createdAt,
+  } satisfies RecipeRating;
+}
+
+// One 5-star rating vs 400 ratings averaging 4.7
+const single = aggregate(1, [0, 0, 0, 0, 1]);
+const popular = aggregate(2, [0, 0, 20, 80, 300]);
+
+describe('bayesianAverage', () => {
+  it('should pull small samples towards the prior', () => {
+    expect(bayesianAverage(single)).toBeCloseTo(20 / 6, 5);
+    expect(bayesianAverage(popular)).toBeGreaterThan(4.6);
+    expect(bayesianAverage(aggregate(3, [0, 0, 0, 0, 0]))).toBe(3);
+  });
+
+  it('should use the configured prior', () => {
+    expect(
+      bayesianAverage(single, { priorMean: 4, priorWeight: 1 }),
+    ).toBeCloseTo(4.5, 5);
+  });
+});
+
+describe('wilsonLowerBound', () => {
+  it('should rank many good ratings above one perfect rating', () => {
+    expect(wilsonLowerBound(popular)).toBeGreaterThan(wilsonLowerBound(single));
+    expect(wilsonLowerBound(popular)).toBeLessThan(1);
+  });
+
+  it('should be 0 without ratings and grow with confidence', () => {
+    expect(wilsonLowerBound(aggregate(3, [0, 0, 0, 0, 0]))).toBe(0);
+    expect(wilsonLowerBound(aggregate(3, [0, 0, 0, 0, 10]))).toBeGreaterThan(
+      wilsonLowerBound(aggregate(3, [0, 0, 0, 0, 2])),
+    );
+  });
+});
+
+describe('timeDecayedAverage', () => {
+  const now = Date.parse('2024-06-30T00:00:00Z');
+
+  it('should weight recent ratings more', () => {
+    const recentGood = [
+      rating(1, 5, '2024-06-29T00:00:00Z'),
+      rating(1, 1, '2024-01-01T00:00:00Z'),
+    ];
+    const recentBad = [
+      rating(1, 1, '2024-06-29T00:00:00Z'),
+      rating(1, 5, '2024-01-01T00:00:00Z'),
+    ];
+
+    expect(
+      timeDecayedAverage(recentGood, { now, priorWeight: 0 }),
+    ).toBeGreaterThan(4.9);
+    expect(timeDecayedAverage(recentBad, { now, priorWeight: 0 })).toBeLessThan(
+      1.1,
+    );
+  });
+
+  it('should halve the weight every half-life', () => {
+    const ratings = [
+      rating(1, 5, '2024-06-30T00:00:00Z'),
+      rating(1, 1, '2024-05-31T00:00:00Z'),
+    ];
+    // Weights 1 and 0.5: (5 + 0.5) / 1.5
+    expect(
+      timeDecayedAverage(ratings, { now, priorWeight: 0, halfLifeDays: 30 }),
+    ).toBeCloseTo(5.5 / 1.5, 5);
+  });
+});
+
+describe('Comparators', () => {
+  const rated = joinRatingAggregates(
+    [recipe(1), recipe(2), recipe(3)],
+    [single, popular],
+  );
+
+  it('should fill in empty aggregates', () => {
+    expect(rated[2].aggregate.total_ratings).toBe(0);
+  });
+
+  it('should sort by Bayesian average and Wilson bound', () => {
+    const ids = (comparator: Parameters<typeof rated.sort>[0]) =>
+      [...rated].sort(comparator).map((item) => item.recipe.id);
+
+    expect(ids(compareByBayesianAverage())).toEqual([2, 1, 3]);
+    expect(ids(compareByWilsonLowerBound())).toEqual([2, 1, 3]);
+  });
+
+  it('should sort by time-decayed ratings', () => {
+    const ratings = [
+      rating(1, 5, '2024-06-29T00:00:00Z'),
+      rating(1, 5, '2024-06-28T00:00:00Z'),
+      rating(2, 5, '2023-01-01T00:00:00Z'),
+      rating(2, 2, '2024-06-29T00:00:00Z'),
+    ];
+    const sorted = [...rated].sort(
+      compareByTimeDecay(ratings, { now: Date.parse('2024-06-30T00:00:00Z') }),
+    );
+
+    expect(sorted.map((item) => item.recipe.id)).toEqual([1, 3, 2]);
+  });
+});
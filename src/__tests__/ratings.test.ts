@@ -0,0 +1,133 @@
+/**
+ * Tests for rating aggregate computation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyRatingAdd,
+  applyRatingDelete,
+  applyRatingUpdate,
+  applySubmittedRating,
+  computeRatingAggregate,
+  emptyRatingAggregate,
+  type RecipeRating,
+} from '../index';
+
+function rating(id: number, stars: number, recipeId = 1): RecipeRating {
+  return {
+    id,
+    recipe_id: recipeId,
+    user_id: `user-${id}`,
+    user_name: `User ${id}`,
+    user_email: `user${id}@example.com`,
+    stars,
+    review: null,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  };
+}
+
+describe('computeRatingAggregate', () => {
+  it('should count, average and distribute ratings', () => {
+    const aggregate = computeRatingAggregate(1, [
+      rating(1, 5),
+      rating(2, 4),
+      rating(3, 4),
+      rating(4, 1),
+      rating(5, 3, 2),
+    ]);
+
+    expect(aggregate).toEqual({
+      recipe_id: 1,
+      average_rating: 3.5,
+      total_ratings: 4,
+      rating_distribution: { '1': 1, '2': 0, '3': 0, '4': 2, '5': 1 },
+    });
+  });
+
+  it('should return a zero average without ratings', () => {
+    expect(computeRatingAggregate(7, [])).toEqual(emptyRatingAggregate(7));
+    expect(emptyRatingAggregate(7).average_rating).toBe(0);
+  });
+
+  it('should reject invalid stars', () => {
+    expect(() => computeRatingAggregate(1, [rating(1, 6)])).toThrow(RangeError);
+    expect(() => computeRatingAggregate(1, [rating(1, 2.5)])).toThrow(
+      RangeError,
+    );
+  });
+});
+
+describe('Incremental updates', () => {
+  it('should add, update and delete ratings', () => {
+    let aggregate = emptyRatingAggregate(1);
+    aggregate = applyRatingAdd(aggregate, 5);
+    aggregate = applyRatingAdd(aggregate, 3);
+    expect(aggregate.average_rating).toBe(4);
+
+    aggregate = applyRatingUpdate(aggregate, 3, 1);
+    expect(aggregate.rating_distribution).toEqual({
+      '1': 1,
+      '2': 0,
+      '3': 0,
+      '4': 0,
+      '5': 1,
+    });
+
+    aggregate = applyRatingDelete(aggregate, 5);
+    expect(aggregate.total_ratings).toBe(1);
+    expect(aggregate.average_rating).toBe(1);
+  });
+
+  it('should not mutate the input aggregate', () => {
+    const before = emptyRatingAggregate(1);
+    applyRatingAdd(before, 4);
+    expect(before.total_ratings).toBe(0);
+    expect(before.rating_distribution['4']).toBe(0);
+  });
+
+  it('should reject deleting a rating that is not counted', () => {
+    const aggregate = applyRatingAdd(emptyRatingAggregate(1), 4);
+    expect(() => applyRatingDelete(aggregate, 2)).toThrow(RangeError);
+    expect(() => applyRatingUpdate(aggregate, 5, 4)).toThrow(RangeError);
+  });
+
+  it('should treat a submission as an update when the user already rated', () => {
+    const aggregate = computeRatingAggregate(1, [rating(1, 2), rating(2, 4)]);
+
+    expect(applySubmittedRating(aggregate, { stars: 5 }).total_ratings).toBe(3);
+    expect(applySubmittedRating(aggregate, { stars: 5 }, 2)).toEqual(
+      computeRatingAggregate(1, [rating(1, 5), rating(2, 4)]),
+    );
+  });
+
+  it('should match a full recompute after many operations', () => {
+    let seed = 42;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+
+    const ratings: RecipeRating[] = [];
+    let aggregate = emptyRatingAggregate(1);
+    for (let i = 0; i < 500; i++) {
+      const op = ratings.length === 0 ? 0 : random(3);
+      const stars = random(5) + 1;
+      if (op === 0) {
+        ratings.push(rating(i, stars));
+        aggregate = applyRatingAdd(aggregate, stars);
+      } else {
+        const index = random(ratings.length);
+        const previous = ratings[index].stars;
+        if (op === 1) {
+          ratings[index] = { ...ratings[index], stars };
+          aggregate = applyRatingUpdate(aggregate, previous, stars);
+        } else {
+          ratings.splice(index, 1);
+          aggregate = applyRatingDelete(aggregate, previous);
+        }
+      }
+      expect(aggregate).toEqual(computeRatingAggregate(1, ratings));
+    }
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Tests for recipe diffs and revisions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyRecipeDiff,
+  applyRecipeUpdate,
+  createFixtureFactory,
+  diffRecipes,
+  invertRecipeDiff,
+  isEmptyRecipeDiff,
+  revertRecipeDiff,
+  summarizeRecipeDiff,
+  type Mood,
+  type Recipe,
+} from '../index';
+
+const margarita: Recipe = {
+  id: 1,
+  name: 'Margarita',
+  description: 'Tart and bright',
+  moodId: 1,
+  createdAt: '2024-01-01T00:00:00Z',
+  mood: null,
+  ingredients: [
+    { id: 1, name: 'Tequila', icon: null, amount: '2 oz' },
+    { id: 2, name: 'Lime juice', icon: null, amount: '3/4 oz' },
+    { id: 3, name: 'Triple sec', icon: null, amount: '1/2 oz' },
+  ],
+  steps: [
+    'Add all ingredients to a shaker with ice',
+    'Shake until well chilled',
+    'Strain into a salt-rimmed glass',
+  ],
+  equipment: [
+    { id: 1, name: 'Shaker', icon: null },
+    { id: 2, name: 'Strainer', icon: null },
+  ],
+};
+
+const edited: Recipe = {
+  ...margarita,
+  id: 2,
+  name: 'Tommy’s Margarita',
+  ingredients: [
+    { id: 1, name: 'Tequila', icon: null, amount: '2 oz' },
+    { id: 2, name: 'Lime juice', icon: null, amount: '1 oz' },
+    { id: 4, name: 'Agave syrup', icon: null, amount: '1/2 oz' },
+  ],
+  steps: [
+    'Add all ingredients to a shaker with ice',
+    'Shake hard until well chilled',
+    'Strain into a rocks glass over fresh ice',
+    'Garnish with a lime wheel',
+  ],
+};
+
+describe('diffRecipes', () => {
+  it('should describe field, ingredient and step changes', () => {
+    const diff = diffRecipes(margarita, edited);
+
+    expect(diff.fields).toEqual({
+      name: { from: 'Margarita', to: 'Tommy’s Margarita' },
+    });
+    expect(diff.ingredients).toEqual([
+      { type: 'remove', index: 2, value: margarita.ingredients[2] },
+      {
+        type: 'update',
+        index: 1,
+        newIndex: 1,
+        from: margarita.ingredients[1],
+        to: edited.ingredients[1],
+      },
+      { type: 'add', newIndex: 2, value: edited.ingredients[2] },
+    ]);
+    expect(diff.steps.map((change) => change.type)).toEqual([
+      'update',
+      'update',
+      'add',
+    ]);
+    expect(diff.equipment).toEqual([]);
+  });
+
+  it('should detect reordered steps and equipment', () => {
+    const reordered = {
+      ...margarita,
+      steps: [margarita.steps[1], margarita.steps[0], margarita.steps[2]],
+      equipment: [margarita.equipment[1], margarita.equipment[0]],
+    };
+    const diff = diffRecipes(margarita, reordered);
+
+    expect(diff.steps).toEqual([
+      {
+        type: 'move',
+        index: 0,
+        newIndex: 1,
+        value: 'Add all ingredients to a shaker with ice',
+      },
+    ]);
+    expect(diff.equipment).toHaveLength(1);
+    expect(diff.equipment[0].type).toBe('move');
+  });
+
+  it('should be empty for identical content', () => {
+    const copy = { ...margarita, id: 9, createdAt: '2025-01-01T00:00:00Z' };
+    expect(isEmptyRecipeDiff(diffRecipes(margarita, copy))).toBe(true);
+    expect(summarizeRecipeDiff(diffRecipes(margarita, copy))).toBe(
+      'No changes',
+    );
+  });
+});
+
+describe('applyRecipeDiff', () => {
+  it('should reproduce the edited recipe and revert to the parent', () => {
+    const diff = diffRecipes(margarita, edited);
+    const applied = applyRecipeDiff(margarita, diff);
+
+    expect(applied).toEqual({ ...edited, id: margarita.id });
+    expect(revertRecipeDiff(applied, diff)).toEqual(margarita);
+    expect(invertRecipeDiff(invertRecipeDiff(diff))).toEqual(diff);
+  });
+
+  it('should round-trip random edits', () => {
+    const fixtures = createFixtureFactory({ seed: 4 });
+    for (let i = 0; i < 50; i++) {
+      const before = fixtures.recipe();
+      const after = {
+        ...fixtures.recipe(),
+        id: before.id,
+        createdAt: before.createdAt,
+      };
+      const diff = diffRecipes(before, after);
+
+      expect(applyRecipeDiff(before, diff)).toEqual(after);
+      expect(revertRecipeDiff(after, diff)).toEqual(before);
+    }
+  });
+
+  it('should throw when the recipe no longer matches', () => {
+    const diff = diffRecipes(margarita, edited);
+    const changed = {
+      ...margarita,
+      ingredients: margarita.ingredients.map((item) =>
+        item.id === 2 ? { ...item, amount: '1/2 oz' } : item,
+      ),
+    };
+
+    expect(() => applyRecipeDiff(changed, diff)).toThrow(
+      'Cannot apply recipe diff: ingredients[1] does not match',
+    );
+    expect(() => applyRecipeDiff(edited, diff)).toThrow(/name/);
+  });
+});
+
+describe('applyRecipeUpdate', () => {
+  it('should replace only the given fields and resolve the mood', () => {
+    const moods: Mood[] = [
+      {
+        id: 3,
+        emoji: '🧣',
+        name: 'Cozy',
+        description: 'Warm and comforting',
+        exampleDrinks: 'Hot Toddy',
+        imageName: null,
+        createdAt: '2024-01-01T00:00:00Z',
+      },
+    ];
+    const updated = applyRecipeUpdate(
+      margarita,
+      { name: ' Cozy Margarita ', mood_id: 3 },
+      moods,
+    );
+
+    expect(updated.name).toBe('Cozy Margarita');
+    expect(updated.mood).toBe(moods[0]);
+    expect(updated.steps).toEqual(margarita.steps);
+    expect(summarizeRecipeDiff(diffRecipes(margarita, updated))).toBe(
+      'Renamed to "Cozy Margarita", changed the mood to Cozy',
+    );
+  });
+});
+
+describe('summarizeRecipeDiff', () => {
+  it('should list the changes in one line', () => {
+    expect(summarizeRecipeDiff(diffRecipes(margarita, edited))).toBe(
+      'Renamed to "Tommy’s Margarita", removed Triple sec, ' +
+        'changed Lime juice from 3/4 oz to 1 oz, added Agave syrup, ' +
+        'edited step 2, edited step 3, added step 4',
+    );
+  });
+});
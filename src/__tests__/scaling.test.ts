@@ -0,0 +1,172 @@
+/**
+ * Tests for recipe scaling and unit conversion
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convertAmount,
+  parseAmount,
+  scaleAmount,
+  scaleRecipe,
+  toMilliliters,
+  type Recipe,
+  type RecipeWithUser,
+} from '../index';
+
+function recipeWith(...amounts: string[]): Recipe {
+  return {
+    id: 1,
+    name: 'Test',
+    description: null,
+    moodId: null,
+    createdAt: '2024-01-01T00:00:00Z',
+    mood: null,
+    ingredients: amounts.map((amount, index) => ({
+      id: index + 1,
+      name: `Ingredient ${index + 1}`,
+      icon: null,
+      amount,
+    })),
+    steps: [],
+    equipment: [],
+  };
+}
+
+function amountsOf(recipe: Recipe): string[] {
+  return recipe.ingredients.map((ingredient) => ingredient.amount);
+}
+
+describe('scaleAmount', () => {
+  it('should scale and round to quarter ounces', () => {
+    expect(scaleAmount(parseAmount('0.75 oz'), 3).quantity).toEqual({
+      kind: 'single',
+      value: 2.25,
+    });
+    expect(scaleAmount(parseAmount('1 oz'), 1.1).quantity).toEqual({
+      kind: 'single',
+      value: 1,
+    });
+  });
+
+  it('should scale ranges', () => {
+    expect(scaleAmount(parseAmount('1-2 dashes'), 4).quantity).toEqual({
+      kind: 'range',
+      min: 4,
+      max: 8,
+    });
+  });
+});
+
+describe('convertAmount', () => {
+  it('should convert ounces to ml rounded to 5 ml', () => {
+    const amount = convertAmount(parseAmount('2 oz'), 'metric');
+
+    expect(amount).toMatchObject({
+      quantity: { kind: 'single', value: 60 },
+      unit: 'ml',
+    });
+  });
+
+  it('should convert ml and cl to quarter ounces', () => {
+    expect(convertAmount(parseAmount('45 ml'), 'imperial').quantity).toEqual({
+      kind: 'single',
+      value: 1.5,
+    });
+    expect(convertAmount(parseAmount('2 cl'), 'imperial').quantity).toEqual({
+      kind: 'single',
+      value: 0.75,
+    });
+  });
+
+  it('should leave shared measures unchanged', () => {
+    const amount = parseAmount('1 barspoon');
+
+    expect(convertAmount(amount, 'metric')).toBe(amount);
+  });
+});
+
+describe('toMilliliters', () => {
+  it('should convert volume units and ignore counts', () => {
+    expect(toMilliliters(2, 'cl')).toBe(20);
+    expect(toMilliliters(1, 'oz')).toBeCloseTo(29.57, 2);
+    expect(toMilliliters(2, 'piece')).toBeNull();
+    expect(toMilliliters(2, null)).toBeNull();
+  });
+});
+
+describe('scaleRecipe', () => {
+  it('should scale a recipe to more servings', () => {
+    const { recipe, issues } = scaleRecipe(
+      recipeWith('2 oz', '3/4 oz', '2 dashes', '1'),
+      { servings: 4 },
+    );
+
+    expect(amountsOf(recipe)).toEqual(['8 oz', '3 oz', '8 dashes', '4']);
+    expect(issues).toEqual([]);
+  });
+
+  it('should scale from a multi-serving recipe', () => {
+    const { recipe } = scaleRecipe(recipeWith('8 oz'), {
+      fromServings: 4,
+      servings: 1,
+    });
+
+    expect(amountsOf(recipe)).toEqual(['2 oz']);
+  });
+
+  it('should scale and convert in one step', () => {
+    const { recipe } = scaleRecipe(recipeWith('2 oz', '1½ oz'), {
+      servings: 8,
+      unitSystem: 'metric',
+    });
+
+    expect(amountsOf(recipe)).toEqual(['475 ml', '355 ml']);
+  });
+
+  it('should keep amounts that need no change as written', () => {
+    const { recipe } = scaleRecipe(recipeWith('1½ oz', '1 sprig'));
+
+    expect(amountsOf(recipe)).toEqual(['1½ oz', '1 sprig']);
+  });
+
+  it('should keep "to taste" without reporting it', () => {
+    const { recipe, issues } = scaleRecipe(recipeWith('to taste'), {
+      servings: 6,
+    });
+
+    expect(amountsOf(recipe)).toEqual(['to taste']);
+    expect(issues).toEqual([]);
+  });
+
+  it('should report amounts it cannot scale or convert', () => {
+    const { recipe, issues } = scaleRecipe(
+      recipeWith('top with soda', '1 sprig'),
+      { servings: 2, unitSystem: 'metric' },
+    );
+
+    expect(amountsOf(recipe)).toEqual(['top with soda', '2 sprig']);
+    expect(issues).toEqual([
+      {
+        index: 0,
+        ingredientId: 1,
+        amount: 'top with soda',
+        reason: 'unparsed',
+      },
+      { index: 1, ingredientId: 2, amount: '1 sprig', reason: 'unknown_unit' },
+    ]);
+  });
+
+  it('should preserve extra recipe fields and not mutate the input', () => {
+    const input: RecipeWithUser = { ...recipeWith('1 oz'), userId: 'u1' };
+    const { recipe } = scaleRecipe(input, { servings: 2 });
+
+    expect(recipe.userId).toBe('u1');
+    expect(amountsOf(input)).toEqual(['1 oz']);
+  });
+
+  it('should reject non-positive servings', () => {
+    expect(() => scaleRecipe(recipeWith('1 oz'), { servings: 0 })).toThrow(
+      RangeError,
+    );
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for the in-memory search index
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSearchIndex,
+  loadSearchIndex,
+  tokenize,
+  type Equipment,
+  type Ingredient,
+  type IngredientSubcategory,
+  type Mood,
+  type Recipe,
+} from '../index';
+
+const createdAt = '2024-01-01T00:00:00Z';
+
+const party: Mood = {
+  id: 1,
+  emoji: '🎉',
+  name: 'Party',
+  description: 'Fun and festive',
+  exampleDrinks: 'Margarita, Mojito',
+  imageName: null,
+  createdAt,
+};
+
+function recipe(
+  id: number,
+  name: string,
+  ingredients: string[],
+  description: string | null = null,
+  mood: Mood | null = null,
+): Recipe {
+  return {
+    id,
+    name,
+    description,
+    moodId: mood?.id ?? null,
+    createdAt,
+    mood,
+    ingredients: ingredients.map((ingredient, index) => ({
+      id: index + 1,
+      name: ingredient,
+      icon: null,
+      amount: '1 oz',
+    })),
+    steps: [],
+    equipment: [],
+  };
+}
+
+function ingredient(
+  id: number,
+  name: string,
+  subcategory: IngredientSubcategory,
+): Ingredient {
+  return { id, name, subcategory, icon: null, createdAt };
+}
+
+const recipes = [
+  recipe(1, 'Margarita', ['Tequila', 'Lime juice', 'Triple sec'], null, party),
+  recipe(2, 'Mojito', ['White rum', 'Mint', 'Lime juice', 'Soda'], 'Minty'),
+  recipe(3, 'Kir Royale', ['Crème de cassis', 'Champagne']),
+  recipe(4, 'Limeade', ['Lime juice', 'Sugar'], 'Lime soda without alcohol'),
+];
+
+const ingredients = [
+  ingredient(1, 'Tequila', 'spirit'),
+  ingredient(2, 'Lime', 'fruit'),
+  ingredient(3, 'Crème de cassis', 'other_alcohol'),
+];
+
+const shaker: Equipment = {
+  id: 1,
+  subcategory: 'essential',
+  name: 'Cocktail shaker',
+  icon: null,
+  createdAt,
+};
+
+function buildIndex() {
+  const index = createSearchIndex();
+  index.addAll('recipe', recipes);
+  index.addAll('ingredient', ingredients);
+  index.add('equipment', shaker);
+  index.add('mood', party);
+  return index;
+}
+
+const ids = (results: { kind: string; id: number }[]) =>
+  results.map((result) => `${result.kind}:${result.id}`);
+
+describe('tokenize', () => {
+  it('should lowercase, fold diacritics and split words', () => {
+    expect(tokenize('Crème de Cassis')).toEqual(['creme', 'de', 'cassis']);
+    expect(tokenize("Pimm's No. 1 Cup")).toEqual([
+      'pimm',
+      's',
+      'no',
+      '1',
+      'cup',
+    ]);
+    expect(tokenize('  ')).toEqual([]);
+  });
+});
+
+describe('createSearchIndex', () => {
+  it('should find entities by name with diacritic folding', () => {
+    const index = buildIndex();
+
+    expect(ids(index.search('creme'))).toEqual(['ingredient:3', 'recipe:3']);
+    expect(ids(index.search('Crème', { kinds: ['recipe'] }))).toEqual([
+      'recipe:3',
+    ]);
+  });
+
+  it('should match prefixes and typos', () => {
+    const index = buildIndex();
+
+    expect(ids(index.search('marg', { kinds: ['recipe'] }))).toEqual([
+      'recipe:1',
+    ]);
+    expect(ids(index.search('margarta', { kinds: ['recipe'] }))).toEqual([
+      'recipe:1',
+    ]);
+    expect(ids(index.search('mjoito', { kinds: ['recipe'] }))).toEqual([
+      'recipe:2',
+    ]);
+    expect(index.search('margarta', { fuzzy: false })).toEqual([]);
+    expect(index.search('marg', { prefix: false })).toEqual([]);
+  });
+
+  it('should weight names above ingredients and descriptions', () => {
+    const index = buildIndex();
+    const results = index.search('lime', { kinds: ['recipe', 'ingredient'] });
+
+    expect(results[0]).toMatchObject({
+      kind: 'ingredient',
+      id: 2,
+      matchedFields: ['name'],
+    });
+    expect(ids(results)).toContain('recipe:4');
+    const score = (id: number) =>
+      results.find((r) => r.kind === 'recipe' && r.id === id)?.score ?? 0;
+    expect(score(4)).toBeGreaterThan(score(1));
+  });
+
+  it('should index mood names and descriptions', () => {
+    const index = buildIndex();
+
+    expect(ids(index.search('party'))).toEqual(['mood:1', 'recipe:1']);
+    expect(ids(index.search('festive'))).toEqual(['mood:1']);
+  });
+
+  it('should require every word unless combine is "or"', () => {
+    const index = buildIndex();
+
+    expect(ids(index.search('lime mint', { kinds: ['recipe'] }))).toEqual([
+      'recipe:2',
+    ]);
+    expect(
+      index.search('lime mint', { kinds: ['recipe'], combine: 'or' }),
+    ).toHaveLength(3);
+  });
+
+  it('should filter by subcategory and mood', () => {
+    const index = buildIndex();
+
+    expect(
+      ids(
+        index.search('lime tequila', {
+          combine: 'or',
+          ingredientSubcategory: 'fruit',
+          kinds: ['ingredient'],
+        }),
+      ),
+    ).toEqual(['ingredient:2']);
+    expect(
+      index.search('shaker', { equipmentSubcategory: 'glassware' }),
+    ).toEqual([]);
+    expect(ids(index.search('lime', { moodId: 1, kinds: ['recipe'] }))).toEqual(
+      ['recipe:1'],
+    );
+  });
+
+  it('should add, replace and remove entities', () => {
+    const index = buildIndex();
+    const size = index.size;
+
+    index.add('recipe', { ...recipes[1], name: 'Virgin Mojito' });
+    expect(index.size).toBe(size);
+    expect(ids(index.search('virgin'))).toEqual(['recipe:2']);
+
+    expect(index.remove('recipe', 2)).toBe(true);
+    expect(index.remove('recipe', 2)).toBe(false);
+    expect(index.has('recipe', 2)).toBe(false);
+    expect(index.search('mojito', { kinds: ['recipe'] })).toEqual([]);
+    expect(index.search('mint')).toEqual([]);
+  });
+
+  it('should round-trip through JSON', () => {
+    const index = buildIndex();
+    const restored = loadSearchIndex(JSON.parse(JSON.stringify(index)));
+
+    expect(restored.size).toBe(index.size);
+    expect(restored.search('lime juice')).toEqual(index.search('lime juice'));
+    expect(() =>
+      loadSearchIndex({ ...index.toJSON(), version: 2 as 1 }),
+    ).toThrow('Unsupported search index version');
+  });
+
+  it('should return nothing for an empty query', () => {
+    expect(buildIndex().search(' - ')).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for shopping list aggregation and rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildShoppingList,
+  formatAmount,
+  renderShoppingList,
+  type Ingredient,
+  type IngredientSubcategory,
+  type Recipe,
+  type ShoppingList,
+} from '../index';
+
+function ingredient(
+  id: number,
+  name: string,
+  subcategory: IngredientSubcategory,
+): Ingredient {
+  return {
+    id,
+    subcategory,
+    name,
+    icon: null,
+    createdAt: '2024-01-01T00:00:00Z',
+  };
+}
+
+const catalog: Ingredient[] = [
+  ingredient(1, 'Gin', 'spirit'),
+  ingredient(2, 'Lime Juice', 'fruit'),
+  ingredient(3, 'Simple Syrup', 'other'),
+  ingredient(4, 'Mint', 'spice'),
+  ingredient(5, 'Sweet Vermouth', 'wine'),
+];
+
+function recipe(
+  id: number,
+  ingredients: [number, string][],
+  equipment: [number, string][] = [],
+): Recipe {
+  return {
+    id,
+    name: `Recipe ${id}`,
+    description: null,
+    moodId: null,
+    createdAt: '2024-01-01T00:00:00Z',
+    mood: null,
+    ingredients: ingredients.map(([ingredientId, amount]) => ({
+      id: ingredientId,
+      name: `Ingredient ${ingredientId}`,
+      icon: null,
+      amount,
+    })),
+    steps: [],
+    equipment: equipment.map(([equipmentId, name]) => ({
+      id: equipmentId,
+      name,
+      icon: null,
+    })),
+  };
+}
+
+const gimlet = recipe(
+  1,
+  [
+    [1, '2 oz'],
+    [2, '3/4 oz'],
+    [3, '3/4 oz'],
+  ],
+  [
+    [1, 'Shaker'],
+    [2, 'Coupe'],
+  ],
+);
+const southside = recipe(
+  2,
+  [
+    [1, '2 oz'],
+    [2, '1 oz'],
+    [3, '15 ml'],
+    [4, '6 leaves'],
+    [4, '1 sprig'],
+  ],
+  [[1, 'Shaker']],
+);
+
+function amountsOf(list: ShoppingList, ingredientId: number): string[] {
+  const item = [...list.groups.flatMap((g) => g.items), ...list.owned].find(
+    (i) => i.ingredientId === ingredientId,
+  );
+  return item
+    ? [...item.amounts.map((a) => formatAmount(a)), ...item.notes]
+    : [];
+}
+
+describe('buildShoppingList', () => {
+  it('should merge ingredients across recipes', () => {
+    const list = buildShoppingList([gimlet, southside], catalog);
+
+    expect(amountsOf(list, 1)).toEqual(['4 oz']);
+    expect(amountsOf(list, 2)).toEqual(['1 3/4 oz']);
+    expect(amountsOf(list, 4)).toEqual(['6 leaves', '1 sprig']);
+  });
+
+  it('should convert mixed volume units', () => {
+    expect(
+      amountsOf(buildShoppingList([gimlet, southside], catalog), 3),
+    ).toEqual(['1 1/2 oz']);
+    expect(
+      amountsOf(
+        buildShoppingList([gimlet, southside], catalog, {
+          unitSystem: 'metric',
+        }),
+        3,
+      ),
+    ).toEqual(['38 ml']);
+  });
+
+  it('should multiply by servings per recipe', () => {
+    const list = buildShoppingList([gimlet, southside], catalog, {
+      servings: { 1: 4 },
+    });
+
+    expect(amountsOf(list, 1)).toEqual(['10 oz']);
+  });
+
+  it('should group by subcategory in catalog order', () => {
+    const list = buildShoppingList([gimlet, southside], catalog);
+
+    expect(list.groups.map((g) => g.subcategory)).toEqual([
+      'spirit',
+      'fruit',
+      'spice',
+      'other',
+    ]);
+    expect(list.groups[0].items[0]).toMatchObject({
+      name: 'Gin',
+      recipeIds: [1, 2],
+    });
+  });
+
+  it('should set aside owned ingredients and equipment', () => {
+    const list = buildShoppingList([gimlet, southside], catalog, {
+      inventory: { equipment_ids: [1], ingredient_ids: [1, 3] },
+    });
+
+    expect(list.owned.map((i) => i.ingredientId)).toEqual([1, 3]);
+    expect(
+      list.groups.flatMap((g) => g.items).map((i) => i.ingredientId),
+    ).toEqual([2, 4]);
+    expect(list.missingEquipment.map((e) => e.name)).toEqual(['Coupe']);
+  });
+
+  it('should keep free-text amounts and unknown ingredients', () => {
+    const list = buildShoppingList(
+      [
+        recipe(3, [
+          [5, 'to taste'],
+          [5, 'to taste'],
+          [99, 'top up'],
+        ]),
+      ],
+      catalog,
+    );
+
+    expect(amountsOf(list, 5)).toEqual(['to taste']);
+    expect(list.groups[list.groups.length - 1].items[0]).toMatchObject({
+      name: 'Ingredient 99',
+      subcategory: 'other',
+      notes: ['top up'],
+    });
+  });
+});
+
+describe('renderShoppingList', () => {
+  const list = buildShoppingList([gimlet], catalog, {
+    inventory: { equipment_ids: [2], ingredient_ids: [] },
+  });
+
+  it('should render a Markdown checklist', () => {
+    expect(renderShoppingList(list, { format: 'markdown' })).toBe(
+      [
+        '# Shopping List',
+        '',
+        '## Spirits',
+        '- [ ] Gin: 2 oz',
+        '',
+        '## Fruit',
+        '- [ ] Lime Juice: 3/4 oz',
+        '',
+        '## Other',
+        '- [ ] Simple Syrup: 3/4 oz',
+        '',
+        '## Equipment',
+        '- [ ] Shaker',
+      ].join('\n'),
+    );
+  });
+
+  it('should render plain text', () => {
+    const text = renderShoppingList(list, {
+      title: 'Party',
+      amounts: { fractions: 'unicode' },
+    });
+
+    expect(text.split('\n').slice(0, 4)).toEqual([
+      'PARTY',
+      '',
+      'Spirits',
+      '  - Gin: 2 oz',
+    ]);
+    expect(text).toContain('  - Lime Juice: ¾ oz');
+  });
+
+  it('should say when there is nothing to buy', () => {
+    const empty = buildShoppingList([], catalog);
+
+    expect(renderShoppingList(empty)).toBe('SHOPPING LIST\n\nNothing to buy.');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for similar-recipe recommendations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSimilarityIndex,
+  type Ingredient,
+  type IngredientSubcategory,
+  type Recipe,
+} from '../index';
+
+const createdAt = '2024-01-01T00:00:00Z';
+
+const catalog: [number, string, IngredientSubcategory][] = [
+  [1, 'Gin', 'spirit'],
+  [2, 'Campari', 'other_alcohol'],
+  [3, 'Sweet vermouth', 'wine'],
+  [4, 'Bourbon', 'spirit'],
+  [5, 'Lime juice', 'fruit'],
+  [6, 'Sugar', 'other'],
+  [7, 'White rum', 'spirit'],
+  [8, 'Mint', 'spice'],
+];
+
+const ingredients: Ingredient[] = catalog.map(([id, name, subcategory]) => ({
+  id,
+  name,
+  subcategory,
+  icon: null,
+  createdAt,
+}));
+
+function recipe(
+  id: number,
+  name: string,
+  ingredientIds: number[],
+  moodId: number | null = null,
+  equipmentIds: number[] = [],
+): Recipe {
+  return {
+    id,
+    name,
+    description: null,
+    moodId,
+    createdAt,
+    mood: null,
+    ingredients: ingredientIds.map((ingredientId) => ({
+      id: ingredientId,
+      name: catalog[ingredientId - 1][1],
+      icon: null,
+      amount: '1 oz',
+    })),
+    steps: [],
+    equipment: equipmentIds.map((equipmentId) => ({
+      id: equipmentId,
+      name: `Tool ${equipmentId}`,
+      icon: null,
+    })),
+  };
+}
+
+const recipes = [
+  recipe(1, 'Negroni', [1, 2, 3], 1, [1]),
+  recipe(2, 'Boulevardier', [4, 2, 3], 1, [1]),
+  recipe(3, 'Americano', [2, 3], 2),
+  recipe(4, 'Daiquiri', [7, 5, 6], 2, [2]),
+  recipe(5, 'Mojito', [7, 5, 6, 8], 2, [2]),
+  recipe(6, 'Gimlet', [1, 5, 6], null, [2]),
+  recipe(7, 'Water', []),
+];
+
+describe('createSimilarityIndex', () => {
+  const index = createSimilarityIndex(recipes, { ingredients });
+
+  it('should index every recipe', () => {
+    expect(index.size).toBe(7);
+  });
+
+  it('should rank recipes sharing rare ingredients first', () => {
+    const names = index.similarTo(1).map((result) => result.recipe.name);
+    expect(names.slice(0, 2).sort()).toEqual(['Americano', 'Boulevardier']);
+    expect(names.indexOf('Gimlet')).toBeGreaterThan(1);
+    expect(names).not.toContain('Negroni');
+  });
+
+  it('should explain shared features', () => {
+    const [best] = index.similarTo(4);
+    expect(best.recipe.name).toBe('Mojito');
+    expect(best.shared.ingredients.map((item) => item.name)).toEqual([
+      'White rum',
+      'Lime juice',
+      'Sugar',
+    ]);
+    expect(best.shared.subcategories).toContain('spirit');
+    expect(best.shared.equipment.map((item) => item.id)).toEqual([2]);
+    expect(best.shared.moodId).toBe(2);
+    expect(best.score).toBeGreaterThan(0.7);
+    expect(best.score).toBeLessThanOrEqual(1 + 1e-9);
+  });
+
+  it('should order shared ingredients rarest first', () => {
+    const boulevardier = index
+      .similarTo(1)
+      .find((result) => result.recipe.id === 2);
+    expect(boulevardier?.shared.ingredients.map((item) => item.id)).toEqual([
+      2, 3,
+    ]);
+  });
+
+  it('should exclude recipes and honor limit and minScore', () => {
+    const results = index.similarTo(1, { exclude: new Set([2]), limit: 1 });
+    expect(results.map((result) => result.recipe.name)).toEqual(['Americano']);
+    expect(index.similarTo(1, { minScore: 0.99 })).toEqual([]);
+  });
+
+  it('should accept recipes outside the corpus', () => {
+    const draft = recipe(100, 'Rum Gimlet', [7, 5, 6]);
+    const [best] = index.similarTo(draft);
+    expect(best.recipe.name).toBe('Daiquiri');
+  });
+
+  it('should return nothing for unknown IDs or featureless recipes', () => {
+    expect(index.similarTo(999)).toEqual([]);
+    expect(index.similarTo(7)).toEqual([]);
+  });
+
+  it('should ignore subcategories without an ingredient catalog', () => {
+    const plain = createSimilarityIndex(recipes);
+    const [best] = plain.similarTo(4);
+    expect(best.shared.subcategories).toEqual([]);
+  });
+
+  it('should apply custom weights', () => {
+    const moodOnly = createSimilarityIndex(recipes, {
+      weights: { ingredient: 0, subcategory: 0, equipment: 0, mood: 1 },
+    });
+    const names = moodOnly.similarTo(3).map((result) => result.recipe.name);
+    expect(names.sort()).toEqual(['Daiquiri', 'Mojito']);
+  });
+});
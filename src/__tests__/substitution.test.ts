@@ -0,0 +1,231 @@
+/**
+ * Tests for ingredient substitutions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSubstitutionGraph,
+  proposeSubstitutedRecipes,
+  type Ingredient,
+  type Recipe,
+  type UserInventory,
+} from '../index';
+
+const createdAt = '2024-01-01T00:00:00Z';
+
+const LIME = 1;
+const LEMON = 2;
+const SYRUP = 3;
+const AGAVE = 4;
+const HONEY = 5;
+const TEQUILA = 6;
+const SALT = 7;
+
+const names: Record<number, string> = {
+  [LIME]: 'Lime juice',
+  [LEMON]: 'Lemon juice',
+  [SYRUP]: 'Simple syrup',
+  [AGAVE]: 'Agave syrup',
+  [HONEY]: 'Honey syrup',
+  [TEQUILA]: 'Tequila',
+  [SALT]: 'Salt',
+};
+
+const ingredients: Ingredient[] = Object.keys(names).map((key) => ({
+  id: Number(key),
+  name: names[Number(key)],
+  subcategory: 'other',
+  icon: null,
+  createdAt,
+}));
+
+const margarita: Recipe = {
+  id: 1,
+  name: 'Tommy’s Margarita',
+  description: null,
+  moodId: null,
+  createdAt,
+  mood: null,
+  ingredients: [
+    { id: TEQUILA, name: 'Tequila', icon: null, amount: '2 oz' },
+    { id: LIME, name: 'Lime juice', icon: null, amount: '1 oz' },
+    { id: SYRUP, name: 'Simple syrup', icon: null, amount: '1 oz' },
+    { id: SALT, name: 'Salt', icon: null, amount: 'to taste' },
+  ],
+  steps: ['Shake with ice'],
+  equipment: [{ id: 1, name: 'Shaker', icon: null }],
+};
+
+const graph = createSubstitutionGraph([
+  { from: LIME, to: LEMON, ratio: 1, quality: 0.8, bidirectional: true },
+  {
+    from: SYRUP,
+    to: AGAVE,
+    ratio: 0.75,
+    quality: 0.9,
+    notes: 'Agave is sweeter',
+  },
+  { from: SYRUP, to: HONEY, ratio: 1, quality: 0.7 },
+]);
+
+function inventory(ingredientIds: number[]): UserInventory {
+  return { equipment_ids: [1], ingredient_ids: ingredientIds };
+}
+
+describe('createSubstitutionGraph', () => {
+  it('should expand bidirectional edges with the inverse ratio', () => {
+    expect(graph.size).toBe(4);
+    expect(graph.substitutesFor(LEMON)).toEqual([
+      { from: LEMON, to: LIME, ratio: 1, quality: 0.8 },
+    ]);
+  });
+
+  it('should list substitutes best first', () => {
+    expect(graph.substitutesFor(SYRUP).map((edge) => edge.to)).toEqual([
+      AGAVE,
+      HONEY,
+    ]);
+    expect(graph.substitutesFor(TEQUILA)).toEqual([]);
+  });
+
+  it('should replace an existing edge', () => {
+    const copy = createSubstitutionGraph(graph.toJSON());
+    copy.add({ from: SYRUP, to: HONEY, ratio: 0.5, quality: 0.95 });
+    expect(copy.size).toBe(4);
+    expect(copy.substitutesFor(SYRUP)[0]).toMatchObject({
+      to: HONEY,
+      ratio: 0.5,
+    });
+  });
+
+  it('should reject invalid edges', () => {
+    expect(() =>
+      createSubstitutionGraph([{ from: 1, to: 1, ratio: 1, quality: 1 }]),
+    ).toThrow(RangeError);
+    expect(() =>
+      createSubstitutionGraph([{ from: 1, to: 2, ratio: 0, quality: 1 }]),
+    ).toThrow(RangeError);
+    expect(() =>
+      createSubstitutionGraph([{ from: 1, to: 2, ratio: 1, quality: 1.5 }]),
+    ).toThrow(RangeError);
+  });
+});
+
+describe('proposeSubstitutedRecipes', () => {
+  it('should substitute missing ingredients with adjusted amounts', () => {
+    const [best] = proposeSubstitutedRecipes(
+      margarita,
+      inventory([TEQUILA, LIME, AGAVE, SALT]),
+      graph,
+      ingredients,
+    );
+    expect(best.quality).toBe(0.9);
+    expect(best.recipe.ingredients[2]).toEqual({
+      id: AGAVE,
+      name: 'Agave syrup',
+      icon: null,
+      amount: '3/4 oz',
+    });
+    expect(best.substitutions).toHaveLength(1);
+    expect(best.substitutions[0].original.id).toBe(SYRUP);
+    expect(best.substitutions[0].substitution.notes).toBe('Agave is sweeter');
+    expect(margarita.ingredients[2].id).toBe(SYRUP);
+  });
+
+  it('should rank combinations by quality', () => {
+    const variants = proposeSubstitutedRecipes(
+      margarita,
+      inventory([TEQUILA, LEMON, AGAVE, HONEY, SALT]),
+      graph,
+      ingredients,
+    );
+    expect(variants.map((variant) => variant.quality)).toEqual([
+      0.8 * 0.9,
+      0.8 * 0.7,
+    ]);
+    expect(variants[0].recipe.ingredients.map((item) => item.id)).toEqual([
+      TEQUILA,
+      LEMON,
+      AGAVE,
+      SALT,
+    ]);
+  });
+
+  it('should respect limit, minQuality and maxSubstitutions', () => {
+    const owned = inventory([TEQUILA, LEMON, AGAVE, HONEY, SALT]);
+    expect(
+      proposeSubstitutedRecipes(margarita, owned, graph, ingredients, {
+        limit: 1,
+      }),
+    ).toHaveLength(1);
+    expect(
+      proposeSubstitutedRecipes(margarita, owned, graph, ingredients, {
+        minQuality: 0.85,
+      }),
+    ).toEqual([]);
+    expect(
+      proposeSubstitutedRecipes(margarita, owned, graph, ingredients, {
+        maxSubstitutions: 1,
+      }),
+    ).toEqual([]);
+  });
+
+  it('should return nothing when a substitute or equipment is missing', () => {
+    expect(
+      proposeSubstitutedRecipes(
+        margarita,
+        inventory([LIME, SYRUP, SALT]),
+        graph,
+        ingredients,
+      ),
+    ).toEqual([]);
+    expect(
+      proposeSubstitutedRecipes(
+        margarita,
+        { equipment_ids: [], ingredient_ids: [TEQUILA, LIME, AGAVE, SALT] },
+        graph,
+        ingredients,
+      ),
+    ).toEqual([]);
+  });
+
+  it('should not repeat an ingredient in a variant', () => {
+    const overlapping = createSubstitutionGraph([
+      { from: LIME, to: TEQUILA, ratio: 1, quality: 1 },
+      { from: LIME, to: HONEY, ratio: 1, quality: 0.9 },
+      { from: SYRUP, to: HONEY, ratio: 1, quality: 0.9 },
+      { from: SYRUP, to: AGAVE, ratio: 1, quality: 0.5 },
+    ]);
+    const variants = proposeSubstitutedRecipes(
+      margarita,
+      inventory([TEQUILA, HONEY, AGAVE, SALT]),
+      overlapping,
+      ingredients,
+    );
+
+    expect(
+      variants.map((variant) =>
+        variant.recipe.ingredients.map((item) => item.id),
+      ),
+    ).toEqual([[TEQUILA, HONEY, AGAVE, SALT]]);
+    expect(
+      proposeSubstitutedRecipes(
+        margarita,
+        inventory([TEQUILA, HONEY, SALT]),
+        overlapping,
+        ingredients,
+      ),
+    ).toEqual([]);
+  });
+
+  it('should return nothing for a makeable recipe', () => {
+    expect(
+      proposeSubstitutedRecipes(
+        margarita,
+        inventory([TEQUILA, LIME, SYRUP, SALT]),
+        graph,
+        ingredients,
+      ),
+    ).toEqual([]);
+  });
+});
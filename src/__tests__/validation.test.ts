@@ -0,0 +1,252 @@
+/**
+ * Tests for request body validators
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateAddCollectionItemRequest,
+  validateAddFavoriteRequest,
+  validateCreateCollectionRequest,
+  validateGenerateRecipeRequest,
+  validateReorderCollectionRequest,
+  validateSubmitRatingRequest,
+  validateUpdateCollectionRequest,
+  validateUpdateRecipeRequest,
+  validateUpdateUserPreferencesRequest,
+  validateUpdateUserRequest,
+  type ValidationResult,
+} from '../index';
+
+function errorsOf<T>(result: ValidationResult<T>) {
+  return result.success ? [] : result.errors;
+}
+
+describe('validateGenerateRecipeRequest', () => {
+  it('should accept a valid request', () => {
+    const input = { equipment_ids: [1, 2], ingredient_ids: [3], mood_id: 4 };
+    const result = validateGenerateRecipeRequest(input);
+
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.value).toEqual(input);
+  });
+
+  it('should reject a non-object payload', () => {
+    expect(errorsOf(validateGenerateRecipeRequest(null))).toEqual([
+      {
+        path: '',
+        code: 'invalid_type',
+        message: 'expected object, received null',
+      },
+    ]);
+  });
+
+  it('should reject empty id arrays', () => {
+    const result = validateGenerateRecipeRequest({
+      equipment_ids: [],
+      ingredient_ids: [],
+      mood_id: 1,
+    });
+
+    expect(errorsOf(result).map((e) => [e.path, e.code])).toEqual([
+      ['equipment_ids', 'empty'],
+      ['ingredient_ids', 'empty'],
+    ]);
+  });
+
+  it('should report the index of invalid array items', () => {
+    const result = validateGenerateRecipeRequest({
+      equipment_ids: [1, '2', 0.5],
+      ingredient_ids: [1],
+      mood_id: 1,
+    });
+
+    expect(errorsOf(result).map((e) => [e.path, e.code])).toEqual([
+      ['equipment_ids[1]', 'invalid_type'],
+      ['equipment_ids[2]', 'not_integer'],
+    ]);
+  });
+
+  it('should report missing and unknown fields', () => {
+    const result = validateGenerateRecipeRequest({
+      equipment_ids: [1],
+      ingredient_ids: [1],
+      moodId: 1,
+    });
+
+    expect(errorsOf(result).map((e) => [e.path, e.code])).toEqual([
+      ['moodId', 'unknown_key'],
+      ['mood_id', 'required'],
+    ]);
+  });
+});
+
+describe('validateSubmitRatingRequest', () => {
+  it('should accept stars with and without a review', () => {
+    expect(validateSubmitRatingRequest({ stars: 5 }).success).toBe(true);
+    expect(
+      validateSubmitRatingRequest({ stars: 1, review: 'Too sweet' }).success,
+    ).toBe(true);
+  });
+
+  it('should enforce the 1-5 star range', () => {
+    expect(errorsOf(validateSubmitRatingRequest({ stars: 0 }))[0].code).toBe(
+      'too_small',
+    );
+    expect(errorsOf(validateSubmitRatingRequest({ stars: 6 }))[0].code).toBe(
+      'too_large',
+    );
+    expect(errorsOf(validateSubmitRatingRequest({ stars: 4.5 }))[0].code).toBe(
+      'not_integer',
+    );
+  });
+
+  it('should reject a non-string review', () => {
+    const result = validateSubmitRatingRequest({ stars: 3, review: null });
+
+    expect(errorsOf(result)).toEqual([
+      {
+        path: 'review',
+        code: 'invalid_type',
+        message: 'expected string, received null',
+      },
+    ]);
+  });
+});
+
+describe('validateUpdateUserRequest', () => {
+  it('should accept a non-empty display name', () => {
+    expect(validateUpdateUserRequest({ display_name: 'Ada' }).success).toBe(
+      true,
+    );
+  });
+
+  it('should reject a blank display name', () => {
+    expect(
+      errorsOf(validateUpdateUserRequest({ display_name: '   ' }))[0],
+    ).toMatchObject({ path: 'display_name', code: 'empty' });
+  });
+});
+
+describe('validateUpdateUserPreferencesRequest', () => {
+  it('should allow empty id arrays', () => {
+    const result = validateUpdateUserPreferencesRequest({
+      equipment_ids: [],
+      ingredient_ids: [],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should require both arrays', () => {
+    const result = validateUpdateUserPreferencesRequest({ equipment_ids: [] });
+
+    expect(errorsOf(result)).toEqual([
+      { path: 'ingredient_ids', code: 'required', message: 'is required' },
+    ]);
+  });
+});
+
+describe('validateAddFavoriteRequest', () => {
+  it('should accept a positive integer recipe id', () => {
+    expect(validateAddFavoriteRequest({ recipe_id: 7 }).success).toBe(true);
+  });
+
+  it('should reject a non-positive recipe id', () => {
+    expect(
+      errorsOf(validateAddFavoriteRequest({ recipe_id: 0 }))[0],
+    ).toMatchObject({ path: 'recipe_id', code: 'too_small' });
+  });
+});
+
+describe('validateUpdateRecipeRequest', () => {
+  it('should accept a partial edit', () => {
+    const result = validateUpdateRecipeRequest({
+      mood_id: null,
+      ingredients: [{ id: 3, name: 'Lime juice', icon: null, amount: '1 oz' }],
+      summary: 'More lime',
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should require at least one recipe field', () => {
+    expect(errorsOf(validateUpdateRecipeRequest({ summary: 'x' }))).toEqual([
+      { path: '', code: 'empty', message: 'must change at least one field' },
+    ]);
+  });
+
+  it('should report nested item errors by path', () => {
+    const result = validateUpdateRecipeRequest({
+      steps: ['Shake', ' '],
+      equipment: [{ id: 2, name: 'Shaker', icon: 4, amount: '1' }],
+    });
+
+    expect(errorsOf(result).map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: 'steps[1]', code: 'empty' },
+      { path: 'equipment[0].amount', code: 'unknown_key' },
+      { path: 'equipment[0].icon', code: 'invalid_type' },
+    ]);
+  });
+});
+
+describe('validateCreateCollectionRequest', () => {
+  it('should accept a named collection', () => {
+    const result = validateCreateCollectionRequest({
+      name: 'Date night',
+      visibility: 'private',
+      recipe_ids: [3, 8],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should require a name and a known visibility', () => {
+    const result = validateCreateCollectionRequest({ visibility: 'friends' });
+
+    expect(errorsOf(result).map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: 'name', code: 'required' },
+      { path: 'visibility', code: 'invalid_value' },
+    ]);
+  });
+});
+
+describe('validateUpdateCollectionRequest', () => {
+  it('should require at least one field', () => {
+    expect(errorsOf(validateUpdateCollectionRequest({}))[0]).toMatchObject({
+      path: '',
+      code: 'empty',
+    });
+    expect(
+      validateUpdateCollectionRequest({ cover_mood_id: null }).success,
+    ).toBe(true);
+  });
+});
+
+describe('validateReorderCollectionRequest', () => {
+  it('should reject repeated ids', () => {
+    expect(
+      errorsOf(validateReorderCollectionRequest({ recipe_ids: [1, 2, 1] })),
+    ).toEqual([
+      {
+        path: 'recipe_ids[2]',
+        code: 'invalid_value',
+        message: 'duplicate id 1',
+      },
+    ]);
+  });
+});
+
+describe('validateAddCollectionItemRequest', () => {
+  it('should check note and position', () => {
+    const result = validateAddCollectionItemRequest({
+      recipe_id: 4,
+      note: 7,
+      position: -1,
+    });
+
+    expect(errorsOf(result).map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: 'note', code: 'invalid_type' },
+      { path: 'position', code: 'too_small' },
+    ]);
+  });
+});
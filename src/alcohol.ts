@@ -0,0 +1,213 @@
+/**
+ * Alcohol content and standard-drink estimation for recipes.
+ *
+ * Ingredient strength comes from {@link Ingredient.abv}, falling back to a
+ * default per {@link IngredientSubcategory}. Volumes come from the parsed
+ * ingredient amounts, and dilution from ice depends on how the drink is mixed.
+ */
+
+import type { Ingredient, IngredientSubcategory, Recipe } from './index';
+import { parseAmount, type AmountQuantity } from './amount';
+import { toMilliliters } from './scaling';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How a drink is mixed, which determines how much melted ice it picks up
+ */
+export type MixingMethod = 'shaken' | 'stirred' | 'built';
+
+/**
+ * Countries with a predefined standard drink size
+ */
+export type StandardDrinkRegion = 'US' | 'UK' | 'AU';
+
+/**
+ * Options for {@link estimateRecipeAlcohol}
+ */
+export interface AlcoholEstimateOptions {
+  /** Mixing method; inferred from the recipe steps when omitted */
+  method?: MixingMethod;
+  /** Standard drink definition: a region or grams of ethanol; defaults to `US` */
+  standardDrink?: StandardDrinkRegion | number;
+}
+
+/**
+ * Why an ingredient was left out of an {@link AlcoholEstimate}
+ */
+export type AlcoholSkipReason =
+  /** The ingredient id is not in the provided catalog */
+  | 'unknown_ingredient'
+  /** The ingredient is alcoholic but its amount is not a volume */
+  | 'unmeasurable';
+
+/**
+ * Alcohol content estimate for a single serving of a recipe
+ */
+export interface AlcoholEstimate {
+  /** Mixing method used for the dilution estimate */
+  method: MixingMethod;
+  /** Liquid volume before dilution, in ml */
+  volumeMl: number;
+  /** Liquid volume after dilution, in ml */
+  dilutedVolumeMl: number;
+  /** Volume of pure ethanol, in ml */
+  alcoholMl: number;
+  /** Mass of pure ethanol, in grams */
+  alcoholGrams: number;
+  /** Alcohol by volume before dilution, as a percentage */
+  undilutedAbv: number;
+  /** Alcohol by volume of the finished drink, as a percentage */
+  abv: number;
+  /** Number of standard drinks under the selected definition */
+  standardDrinks: number;
+  /** Ingredients that could not be included in the estimate */
+  skipped: { index: number; ingredientId: number; reason: AlcoholSkipReason }[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Typical ABV (percent) per ingredient subcategory, used when an ingredient
+ * has no `abv` of its own
+ */
+export const DEFAULT_ABV_BY_SUBCATEGORY: Readonly<
+  Record<IngredientSubcategory, number>
+> = {
+  spirit: 40,
+  wine: 12,
+  other_alcohol: 20,
+  fruit: 0,
+  spice: 0,
+  other: 0,
+};
+
+/**
+ * Grams of ethanol in one standard drink, per region
+ */
+export const STANDARD_DRINK_GRAMS: Readonly<
+  Record<StandardDrinkRegion, number>
+> = {
+  US: 14,
+  UK: 8,
+  AU: 10,
+};
+
+/**
+ * Melted ice added by each mixing method, as a fraction of the undiluted
+ * volume
+ */
+export const DILUTION_BY_METHOD: Readonly<Record<MixingMethod, number>> = {
+  shaken: 0.25,
+  stirred: 0.2,
+  built: 0.1,
+};
+
+/** Density of ethanol in g/ml. */
+const ETHANOL_DENSITY = 0.789;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * ABV (percent) of an ingredient, using the subcategory default when the
+ * ingredient has none
+ */
+export function getIngredientAbv(ingredient: Ingredient): number {
+  return ingredient.abv ?? DEFAULT_ABV_BY_SUBCATEGORY[ingredient.subcategory];
+}
+
+/**
+ * Guess the mixing method from the recipe steps: "shake" means shaken,
+ * "stir" means stirred, anything else is built in the glass.
+ */
+export function inferMixingMethod(recipe: Recipe): MixingMethod {
+  const steps = recipe.steps.join(' ').toLowerCase();
+  if (/\bshak(e|en|ing)\b/.test(steps)) return 'shaken';
+  if (/\bstir(red|ring)?\b/.test(steps)) return 'stirred';
+  return 'built';
+}
+
+function midpoint(quantity: AmountQuantity): number {
+  return quantity.kind === 'single'
+    ? quantity.value
+    : (quantity.min + quantity.max) / 2;
+}
+
+// =============================================================================
+// Estimation
+// =============================================================================
+
+/**
+ * Estimate the alcohol content of one serving of a recipe. Ingredient ABVs
+ * are looked up in `catalog`; ranges use their midpoint.
+ *
+ * @example
+ * ```ts
+ * const estimate = estimateRecipeAlcohol(recipe, ingredients, {
+ *   standardDrink: 'UK',
+ * });
+ * console.log(`${estimate.abv.toFixed(1)}% ABV, ${estimate.standardDrinks.toFixed(1)} units`);
+ * ```
+ */
+export function estimateRecipeAlcohol(
+  recipe: Recipe,
+  catalog: readonly Ingredient[],
+  options: AlcoholEstimateOptions = {},
+): AlcoholEstimate {
+  const byId = new Map(
+    catalog.map((ingredient) => [ingredient.id, ingredient]),
+  );
+  const method = options.method ?? inferMixingMethod(recipe);
+  const standardDrink = options.standardDrink ?? 'US';
+  const gramsPerDrink =
+    typeof standardDrink === 'number'
+      ? standardDrink
+      : STANDARD_DRINK_GRAMS[standardDrink];
+
+  let volumeMl = 0;
+  let alcoholMl = 0;
+  const skipped: AlcoholEstimate['skipped'] = [];
+  recipe.ingredients.forEach((item, index) => {
+    const ingredient = byId.get(item.id);
+    if (!ingredient) {
+      skipped.push({
+        index,
+        ingredientId: item.id,
+        reason: 'unknown_ingredient',
+      });
+      return;
+    }
+    const abv = getIngredientAbv(ingredient);
+    const { quantity, unit } = parseAmount(item.amount);
+    const ml =
+      quantity === null ? null : toMilliliters(midpoint(quantity), unit);
+    if (ml === null) {
+      if (abv > 0) {
+        skipped.push({ index, ingredientId: item.id, reason: 'unmeasurable' });
+      }
+      return;
+    }
+    volumeMl += ml;
+    alcoholMl += (ml * abv) / 100;
+  });
+
+  const dilutedVolumeMl = volumeMl * (1 + DILUTION_BY_METHOD[method]);
+  const alcoholGrams = alcoholMl * ETHANOL_DENSITY;
+  return {
+    method,
+    volumeMl,
+    dilutedVolumeMl,
+    alcoholMl,
+    alcoholGrams,
+    undilutedAbv: volumeMl > 0 ? (alcoholMl / volumeMl) * 100 : 0,
+    abv: dilutedVolumeMl > 0 ? (alcoholMl / dilutedVolumeMl) * 100 : 0,
+    standardDrinks: alcoholGrams / gramsPerDrink,
+    skipped,
+  };
+}
@@ -0,0 +1,318 @@
+/**
+ * Parser and formatter for {@link RecipeIngredient.amount} strings.
+ *
+ * Turns free-form amounts such as "2 oz", "1/2 cup", "1½ oz", "1-2 dashes"
+ * or "to taste" into a structured {@link ParsedAmount}, and prints structured
+ * amounts back out.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Normalized amount units
+ */
+export type AmountUnit =
+  | 'oz'
+  | 'ml'
+  | 'cl'
+  | 'cup'
+  | 'tsp'
+  | 'tbsp'
+  | 'dash'
+  | 'barspoon'
+  | 'splash'
+  | 'piece'
+  | 'to_taste';
+
+/**
+ * List of normalized amount units
+ */
+export const AMOUNT_UNITS: AmountUnit[] = [
+  'oz',
+  'ml',
+  'cl',
+  'cup',
+  'tsp',
+  'tbsp',
+  'dash',
+  'barspoon',
+  'splash',
+  'piece',
+  'to_taste',
+];
+
+/**
+ * Numeric part of an amount: a single value or an inclusive range
+ */
+export type AmountQuantity =
+  | { kind: 'single'; value: number }
+  | { kind: 'range'; min: number; max: number };
+
+/**
+ * Structured form of an amount string
+ */
+export interface ParsedAmount {
+  /** The original, unmodified amount text */
+  original: string;
+  /** Parsed number or range; null when the text has no leading quantity */
+  quantity: AmountQuantity | null;
+  /** Normalized unit; null when the unit text is not recognized */
+  unit: AmountUnit | null;
+  /** Unit text as written (e.g., "ounces", "sprig"); null when absent */
+  unitText: string | null;
+}
+
+/**
+ * Options for {@link formatAmount}
+ */
+export interface FormatAmountOptions {
+  /**
+   * How fractional values are printed:
+   * - `ascii` (default): "1 1/2"
+   * - `unicode`: "1½"
+   * - `decimal`: "1.5"
+   */
+  fractions?: 'ascii' | 'unicode' | 'decimal';
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 1 / 4,
+  '¾': 3 / 4,
+  '⅕': 1 / 5,
+  '⅖': 2 / 5,
+  '⅗': 3 / 5,
+  '⅘': 4 / 5,
+  '⅙': 1 / 6,
+  '⅚': 5 / 6,
+  '⅛': 1 / 8,
+  '⅜': 3 / 8,
+  '⅝': 5 / 8,
+  '⅞': 7 / 8,
+};
+
+const FRAC = `[${Object.keys(UNICODE_FRACTIONS).join('')}]`;
+const SLASH = '\\s*[/⁄]\\s*';
+
+/** One quantity token, most specific alternative first. */
+const NUMBER = [
+  `\\d+\\s*${FRAC}`,
+  `\\d+\\s+\\d+${SLASH}\\d+`,
+  `\\d+${SLASH}\\d+`,
+  `\\d*\\.\\d+`,
+  `\\d+`,
+  FRAC,
+  `an?\\b`,
+].join('|');
+
+const AMOUNT_PATTERN = new RegExp(
+  `^(${NUMBER})(?:\\s*(?:-|–|—|to)\\s*(${NUMBER}))?\\s*(.*)$`,
+  'i',
+);
+
+const UNIT_ALIASES: Record<string, AmountUnit> = {
+  oz: 'oz',
+  ounce: 'oz',
+  'fl oz': 'oz',
+  'fluid ounce': 'oz',
+  ml: 'ml',
+  milliliter: 'ml',
+  millilitre: 'ml',
+  cl: 'cl',
+  centiliter: 'cl',
+  centilitre: 'cl',
+  cup: 'cup',
+  c: 'cup',
+  tsp: 'tsp',
+  teaspoon: 'tsp',
+  tbsp: 'tbsp',
+  tbs: 'tbsp',
+  tablespoon: 'tbsp',
+  dash: 'dash',
+  barspoon: 'barspoon',
+  'bar spoon': 'barspoon',
+  bsp: 'barspoon',
+  splash: 'splash',
+  piece: 'piece',
+  pc: 'piece',
+  whole: 'piece',
+};
+
+function parseNumber(token: string): number {
+  const text = token.trim().toLowerCase();
+  if (text === 'a' || text === 'an') return 1;
+  const unicode = text.match(new RegExp(`^(\\d*)\\s*(${FRAC})$`));
+  if (unicode) {
+    return Number(unicode[1] || 0) + UNICODE_FRACTIONS[unicode[2]];
+  }
+  const fraction = text.match(/^(?:(\d+)\s+)?(\d+)\s*[/⁄]\s*(\d+)$/);
+  if (fraction) {
+    // A zero denominator gives NaN, which parseAmount rejects
+    const denominator = Number(fraction[3]) || NaN;
+    return Number(fraction[1] ?? 0) + Number(fraction[2]) / denominator;
+  }
+  return Number(text);
+}
+
+/**
+ * Map unit text to a normalized unit, ignoring case, periods and plural
+ * endings (e.g., "Ounces", "fl. oz" and "oz" all map to `oz`).
+ */
+export function normalizeUnit(text: string): AmountUnit | null {
+  const key = text.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+  if (key === 'to taste') return 'to_taste';
+  const candidates = [key];
+  if (key.endsWith('es')) candidates.push(key.slice(0, -2));
+  if (key.endsWith('s')) candidates.push(key.slice(0, -1));
+  for (const candidate of candidates) {
+    if (Object.prototype.hasOwnProperty.call(UNIT_ALIASES, candidate)) {
+      return UNIT_ALIASES[candidate];
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse an amount string into a structured {@link ParsedAmount}.
+ *
+ * Text without a leading quantity (e.g., "to taste", "top with soda") is kept
+ * in `unitText` with a null `quantity`; a bare number is treated as a count
+ * of pieces.
+ *
+ * @example
+ * ```ts
+ * parseAmount('1½ oz');
+ * // { original: '1½ oz', quantity: { kind: 'single', value: 1.5 }, unit: 'oz', unitText: 'oz' }
+ * parseAmount('2-3 dashes');
+ * // { ..., quantity: { kind: 'range', min: 2, max: 3 }, unit: 'dash', unitText: 'dashes' }
+ * ```
+ */
+export function parseAmount(original: string): ParsedAmount {
+  const text = original.trim().replace(/\s+/g, ' ');
+  const unquantified: ParsedAmount = {
+    original,
+    quantity: null,
+    unit: normalizeUnit(text),
+    unitText: text || null,
+  };
+  const match = text.match(AMOUNT_PATTERN);
+  if (!match) return unquantified;
+
+  // "a"/"an" only counts as 1 before a unit ("a dash", not "a few leaves")
+  const article = (token: string | undefined) =>
+    token !== undefined && /^an?$/i.test(token);
+  if (
+    (article(match[1]) || article(match[2])) &&
+    normalizeUnit(match[3]) === null
+  ) {
+    return unquantified;
+  }
+  const first = parseNumber(match[1]);
+  const second = match[2] === undefined ? undefined : parseNumber(match[2]);
+  if (
+    !Number.isFinite(first) ||
+    (second !== undefined && !Number.isFinite(second))
+  ) {
+    return unquantified;
+  }
+  const quantity: AmountQuantity =
+    second === undefined || second === first
+      ? { kind: 'single', value: first }
+      : {
+          kind: 'range',
+          min: Math.min(first, second),
+          max: Math.max(first, second),
+        };
+  const unitText = match[3].trim() || null;
+
+  return {
+    original,
+    quantity,
+    unit: unitText === null ? 'piece' : normalizeUnit(unitText),
+    unitText,
+  };
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+const FRACTION_DENOMINATORS = [2, 3, 4, 8];
+
+function formatNumber(
+  value: number,
+  fractions: NonNullable<FormatAmountOptions['fractions']>,
+): string {
+  const decimal = String(Math.round(value * 100) / 100);
+  if (fractions === 'decimal') return decimal;
+
+  const whole = Math.floor(value + 1e-9);
+  const rest = value - whole;
+  if (rest < 0.01) return String(whole);
+  for (const denominator of FRACTION_DENOMINATORS) {
+    const numerator = Math.round(rest * denominator);
+    if (numerator === 0 || numerator === denominator) continue;
+    if (Math.abs(rest - numerator / denominator) > 0.01) continue;
+    if (fractions === 'unicode') {
+      const glyph = Object.keys(UNICODE_FRACTIONS).find(
+        (key) =>
+          Math.abs(UNICODE_FRACTIONS[key] - numerator / denominator) < 1e-9,
+      );
+      if (glyph) return whole ? `${whole}${glyph}` : glyph;
+    }
+    const fraction = `${numerator}/${denominator}`;
+    return whole ? `${whole} ${fraction}` : fraction;
+  }
+  return decimal;
+}
+
+const UNIT_LABELS: Record<Exclude<AmountUnit, 'to_taste'>, [string, string]> = {
+  oz: ['oz', 'oz'],
+  ml: ['ml', 'ml'],
+  cl: ['cl', 'cl'],
+  cup: ['cup', 'cups'],
+  tsp: ['tsp', 'tsp'],
+  tbsp: ['tbsp', 'tbsp'],
+  dash: ['dash', 'dashes'],
+  barspoon: ['barspoon', 'barspoons'],
+  splash: ['splash', 'splashes'],
+  piece: ['piece', 'pieces'],
+};
+
+/**
+ * Print a structured amount. Recognized units use their canonical label;
+ * unrecognized units are printed as written.
+ *
+ * @example
+ * ```ts
+ * formatAmount(parseAmount('1½ ounces')); // "1 1/2 oz"
+ * formatAmount(parseAmount('.5 oz'), { fractions: 'unicode' }); // "½ oz"
+ * ```
+ */
+export function formatAmount(
+  amount: Omit<ParsedAmount, 'original'>,
+  options: FormatAmountOptions = {},
+): string {
+  const fractions = options.fractions ?? 'ascii';
+  const { quantity, unit, unitText } = amount;
+  if (unit === 'to_taste') return 'to taste';
+  if (quantity === null) return unitText ?? '';
+
+  const number =
+    quantity.kind === 'single'
+      ? formatNumber(quantity.value, fractions)
+      : `${formatNumber(quantity.min, fractions)}-${formatNumber(quantity.max, fractions)}`;
+  if (unit === null) return unitText ? `${number} ${unitText}` : number;
+  if (unit === 'piece' && unitText === null) return number;
+
+  const plural = quantity.kind === 'range' || quantity.value > 1;
+  return `${number} ${UNIT_LABELS[unit][plural ? 1 : 0]}`;
+}
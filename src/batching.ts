@@ -0,0 +1,507 @@
+/**
+ * Party batching planner.
+ *
+ * {@link planBatches} splits a party's drinks across recipes and turns each
+ * recipe into a pre-mixed batch. Shaken and stirred batches get the water
+ * that ice would have added, so drinks can be poured straight from the
+ * fridge. Ingredients that do not keep or would go flat (fresh citrus made
+ * too far ahead, carbonated mixers, egg white) are held back and added per
+ * glass. The plan also estimates glassware and ice.
+ */
+
+import type { Equipment, Recipe, RecipeEquipment } from './index';
+import {
+  DILUTION_BY_METHOD,
+  inferMixingMethod,
+  type MixingMethod,
+} from './alcohol';
+import {
+  formatAmount,
+  parseAmount,
+  type AmountQuantity,
+  type FormatAmountOptions,
+  type ParsedAmount,
+} from './amount';
+import {
+  ML_PER_UNIT,
+  convertAmount,
+  scaleAmount,
+  toMilliliters,
+  type UnitSystem,
+} from './scaling';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Why an ingredient is added per glass instead of going into the batch
+ * - `citrus`: fresh citrus juice fades when made more than
+ *   {@link CITRUS_HOLD_HOURS} ahead
+ * - `carbonated`: sparkling mixers go flat
+ * - `egg`: egg white must be shaken per drink
+ * - `unmeasured`: the amount is not a volume (e.g., "1 sprig", "to taste")
+ */
+export type BatchHoldReason = 'citrus' | 'carbonated' | 'egg' | 'unmeasured';
+
+/**
+ * How a glass is served, which determines the ice it needs
+ * - `up`: chilled, no ice (coupe, martini glass, flute)
+ * - `rocks`: over ice in a short glass
+ * - `tall`: over ice in a tall glass (highball, collins)
+ */
+export type GlassStyle = 'up' | 'rocks' | 'tall';
+
+/**
+ * Options for {@link planBatches}
+ */
+export interface BatchPlanOptions {
+  /** Number of guests; must be positive */
+  guests: number;
+  /** Drinks each guest has; defaults to 2 */
+  drinksPerGuest?: number;
+  /** Relative share of the drinks per recipe id; recipes not listed get 1 */
+  shares?: Record<number, number>;
+  /** Hours between mixing the batch and serving it; defaults to 0 */
+  hoursAhead?: number;
+  /** Units for batch volumes; defaults to `imperial` */
+  unitSystem?: UnitSystem;
+  /** How amounts are printed */
+  format?: FormatAmountOptions;
+  /** Equipment catalog, used to tell glassware from tools */
+  equipment?: readonly Equipment[];
+  /** Extra ice for chilling bottles and melt, as a fraction; defaults to 0.25 */
+  iceBuffer?: number;
+  /** Kilograms of ice per bag; defaults to 2 */
+  iceBagKg?: number;
+}
+
+/**
+ * An ingredient mixed into the batch
+ */
+export interface BatchedIngredient {
+  /** Index in `recipe.ingredients` */
+  index: number;
+  ingredientId: number;
+  name: string;
+  /** Amount per drink in the unit system; as written without a quantity */
+  perDrink: string;
+  /** Total volume in the batch, in ml */
+  totalMl: number;
+  /** Total amount in the batch (e.g., "30 oz") */
+  total: string;
+}
+
+/**
+ * An ingredient added per glass at service
+ */
+export interface HeldIngredient {
+  /** Index in `recipe.ingredients` */
+  index: number;
+  ingredientId: number;
+  name: string;
+  reason: BatchHoldReason;
+  /** Amount per drink in the unit system; as written without a quantity */
+  perDrink: string;
+  /** Total to have on hand; as written when the amount has no quantity */
+  total: string;
+}
+
+/**
+ * Batch for one recipe
+ */
+export interface RecipeBatch<T extends Recipe = Recipe> {
+  recipe: T;
+  /** Drinks this batch serves; a batch with none is empty */
+  drinks: number;
+  method: MixingMethod;
+  /** Ingredients that go into the batch */
+  batched: BatchedIngredient[];
+  /** Ingredients added per glass */
+  held: HeldIngredient[];
+  /** Water replacing ice melt, in ml; 0 when drinks are built or shaken to order */
+  waterMl: number;
+  /** Water to add, formatted; empty when none */
+  water: string;
+  /** Total batch volume including water, in ml */
+  volumeMl: number;
+  /** Total batch volume, formatted */
+  volume: string;
+  /** Batch poured per drink, formatted */
+  pour: string;
+  /** Hours left to serve a batch with fresh citrus; null without citrus */
+  serveWithinHours: number | null;
+  /** Glass the recipe is served in; null when it lists none */
+  glass: RecipeEquipment | null;
+  glassStyle: GlassStyle;
+  /** Ice for serving this batch, in grams, before the buffer */
+  iceGrams: number;
+  /** Steps to make and serve the batch */
+  instructions: string[];
+}
+
+/**
+ * Glasses needed of one kind
+ */
+export interface GlasswareCount {
+  glass: RecipeEquipment;
+  /** One per drink served in this glass */
+  count: number;
+}
+
+/**
+ * Result of {@link planBatches}
+ */
+export interface BatchPlan<T extends Recipe = Recipe> {
+  guests: number;
+  totalDrinks: number;
+  batches: RecipeBatch<T>[];
+  glassware: GlasswareCount[];
+  /** Drinks from recipes that list no glass */
+  drinksWithoutGlass: number;
+  /** Ice including the buffer */
+  ice: { kilograms: number; bags: number };
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Hours freshly squeezed citrus juice keeps its brightness in a batch
+ */
+export const CITRUS_HOLD_HOURS = 4;
+
+/**
+ * Ingredient names that cannot go into a batch, by reason
+ */
+export const BATCH_HOLD_PATTERNS: Readonly<
+  Record<Exclude<BatchHoldReason, 'unmeasured'>, RegExp>
+> = {
+  citrus: /\b(lime|lemon|grapefruit|orange|yuzu|citrus)\b.*\bjuice\b/i,
+  carbonated:
+    /\b(soda|tonic|seltzer|sparkling|prosecco|champagne|cava|cola|ginger (beer|ale)|club)\b/i,
+  egg: /\b(egg|aquafaba)\b/i,
+};
+
+/**
+ * Grams of ice in each glass at service, per glass style
+ */
+export const ICE_GRAMS_BY_GLASS_STYLE: Readonly<Record<GlassStyle, number>> = {
+  up: 0,
+  rocks: 150,
+  tall: 200,
+};
+
+/** Ice to shake one drink to order, in grams. */
+const SHAKING_ICE_GRAMS = 150;
+
+const GLASS_NAME = /\b(glass|coupe|flute|tumbler|mug|snifter|goblet)\b/i;
+const UP_GLASS = /\b(coupe|martini|nick|flute|champagne|cocktail|wine)\b/i;
+const TALL_GLASS = /\b(highball|collins|tall|hurricane|pint|mug)\b/i;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function midpoint(quantity: AmountQuantity): number {
+  return quantity.kind === 'single'
+    ? quantity.value
+    : (quantity.min + quantity.max) / 2;
+}
+
+/** Split `total` drinks by weight, giving leftovers to the largest remainders. */
+function apportion(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  const exact = weights.map((weight) => (total * weight) / sum);
+  const counts = exact.map(Math.floor);
+  const order = exact
+    .map((value, index) => ({ index, rest: value - counts[index] }))
+    .sort((a, b) => b.rest - a.rest || a.index - b.index);
+  let left = total - counts.reduce((acc, count) => acc + count, 0);
+  for (const { index } of order) {
+    if (left-- <= 0) break;
+    counts[index] += 1;
+  }
+  return counts;
+}
+
+function findGlass(
+  recipe: Recipe,
+  catalog: readonly Equipment[] | undefined,
+): RecipeEquipment | null {
+  const byId = new Map((catalog ?? []).map((item) => [item.id, item]));
+  return (
+    recipe.equipment.find((item) => {
+      const entry = byId.get(item.id);
+      return entry
+        ? entry.subcategory === 'glassware'
+        : GLASS_NAME.test(item.name) && !/\bmixing\b/i.test(item.name);
+    }) ?? null
+  );
+}
+
+function glassStyleOf(
+  glass: RecipeEquipment | null,
+  method: MixingMethod,
+): GlassStyle {
+  if (!glass) return method === 'built' ? 'rocks' : 'up';
+  if (UP_GLASS.test(glass.name)) return 'up';
+  if (TALL_GLASS.test(glass.name)) return 'tall';
+  return 'rocks';
+}
+
+function holdReason(
+  name: string,
+  ml: number | null,
+  hoursAhead: number,
+): BatchHoldReason | null {
+  if (BATCH_HOLD_PATTERNS.egg.test(name)) return 'egg';
+  if (BATCH_HOLD_PATTERNS.carbonated.test(name)) return 'carbonated';
+  if (ml === null) return 'unmeasured';
+  if (BATCH_HOLD_PATTERNS.citrus.test(name) && hoursAhead > CITRUS_HOLD_HOURS) {
+    return 'citrus';
+  }
+  return null;
+}
+
+/** Print a volume in ml in the unit system, rounded to a friendly step. */
+function formatVolume(
+  ml: number,
+  unitSystem: UnitSystem,
+  format: FormatAmountOptions | undefined,
+): string {
+  const unit = unitSystem === 'metric' ? 'ml' : 'oz';
+  const one: ParsedAmount = {
+    original: '',
+    quantity: { kind: 'single', value: 1 },
+    unit,
+    unitText: null,
+  };
+  return formatAmount(scaleAmount(one, ml / ML_PER_UNIT[unit]), format);
+}
+
+function listOf(items: string[]): string {
+  return items.length < 2
+    ? items.join('')
+    : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function instructionsFor(batch: RecipeBatch): string[] {
+  const { batched, held, glass, glassStyle, method } = batch;
+  const glassName = glass ? glass.name.toLowerCase() : 'glass';
+  const perGlass = held.filter(
+    (item) => item.reason !== 'egg' && item.reason !== 'carbonated',
+  );
+  const eggs = held.filter((item) => item.reason === 'egg');
+  const toppers = held.filter((item) => item.reason === 'carbonated');
+  const steps: string[] = [];
+
+  if (batched.length === 0) {
+    steps.push(`Make each of the ${batch.drinks} drinks to order`);
+  } else {
+    const parts = batched.map((item) => `${item.total} ${item.name}`);
+    if (batch.waterMl > 0) parts.push(`${batch.water} water`);
+    steps.push(
+      `Combine ${listOf(parts)} (${batch.volume}) and refrigerate until service`,
+    );
+    if (batch.serveWithinHours !== null) {
+      steps.push(
+        `Serve within ${batch.serveWithinHours} hours; fresh citrus fades`,
+      );
+    }
+  }
+
+  const extras = [...eggs, ...perGlass].map(
+    (item) => `${item.perDrink} ${item.name}`,
+  );
+  if (eggs.length > 0 || (batched.length === 0 && method !== 'built')) {
+    const base = batched.length > 0 ? [`${batch.pour} of the batch`] : [];
+    steps.push(
+      `For each drink, ${method === 'stirred' ? 'stir' : 'shake'} ${listOf([...base, ...extras])} with ice and strain into a ${glassName}`,
+    );
+  } else {
+    if (batched.length > 0) {
+      steps.push(
+        glassStyle === 'up'
+          ? `Pour ${batch.pour} into each chilled ${glassName}`
+          : `Pour ${batch.pour} into each ${glassName} over ice`,
+      );
+    }
+    if (extras.length > 0) steps.push(`Add ${listOf(extras)} to each glass`);
+  }
+  for (const item of toppers) {
+    steps.push(`Top each glass with ${item.name}`);
+  }
+  return steps;
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+/**
+ * Plan batches for a party. Drinks are split across `recipes` by `shares`
+ * (evenly by default) and each recipe becomes a batch with per-glass
+ * additions and serving instructions; a recipe that gets no drinks keeps an
+ * empty batch and needs no glasses. Throws a `RangeError` when there are
+ * no recipes, the guest and drink counts are not positive or the shares do
+ * not add up to a positive number.
+ *
+ * @example
+ * ```ts
+ * const plan = planBatches([margarita, negroni], {
+ *   guests: 12,
+ *   hoursAhead: 6,
+ *   equipment,
+ * });
+ * plan.batches[0].instructions;
+ * // ["Combine 24 oz Tequila and 12 oz Triple sec ... and refrigerate until service",
+ * //  "Pour 4 1/2 oz into each chilled coupe glass",
+ * //  "Add 3/4 oz Lime juice to each glass"]
+ * plan.ice; // { kilograms: 3.8, bags: 2 }
+ * ```
+ */
+export function planBatches<T extends Recipe>(
+  recipes: readonly T[],
+  options: BatchPlanOptions,
+): BatchPlan<T> {
+  const { guests } = options;
+  const drinksPerGuest = options.drinksPerGuest ?? 2;
+  if (recipes.length === 0) {
+    throw new RangeError('At least one recipe is required');
+  }
+  if (
+    !(guests > 0) ||
+    !(drinksPerGuest > 0) ||
+    !Number.isFinite(guests * drinksPerGuest)
+  ) {
+    throw new RangeError('Guests and drinks per guest must be positive');
+  }
+  const unitSystem = options.unitSystem ?? 'imperial';
+  const hoursAhead = options.hoursAhead ?? 0;
+  const weights = recipes.map((recipe) =>
+    Math.max(0, options.shares?.[recipe.id] ?? 1),
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!(totalWeight > 0) || !Number.isFinite(totalWeight)) {
+    throw new RangeError('Shares must add up to a positive number');
+  }
+  const totalDrinks = Math.ceil(guests * drinksPerGuest);
+  const drinks = apportion(totalDrinks, weights);
+  const volume = (ml: number) => formatVolume(ml, unitSystem, options.format);
+
+  const batches = recipes.map((recipe, position): RecipeBatch<T> => {
+    const count = drinks[position];
+    const method = inferMixingMethod(recipe);
+    const batched: BatchedIngredient[] = [];
+    const held: HeldIngredient[] = [];
+    let dilutedMl = 0;
+    let hasCitrus = false;
+
+    (count > 0 ? recipe.ingredients : []).forEach((item, index) => {
+      const parsed = parseAmount(item.amount);
+      const inUnits = (factor: number) =>
+        formatAmount(
+          convertAmount(scaleAmount(parsed, factor), unitSystem),
+          options.format,
+        );
+      const perDrink = parsed.quantity === null ? item.amount : inUnits(1);
+      const ml =
+        parsed.quantity === null
+          ? null
+          : toMilliliters(midpoint(parsed.quantity), parsed.unit);
+      const reason = holdReason(item.name, ml, hoursAhead);
+      const base = { index, ingredientId: item.id, name: item.name };
+
+      if (reason !== 'carbonated' && ml !== null) dilutedMl += ml;
+      if (reason === null && ml !== null) {
+        if (BATCH_HOLD_PATTERNS.citrus.test(item.name)) hasCitrus = true;
+        batched.push({
+          ...base,
+          perDrink,
+          totalMl: ml * count,
+          total: inUnits(count),
+        });
+      } else if (reason !== null) {
+        held.push({
+          ...base,
+          reason,
+          perDrink,
+          total: parsed.quantity === null ? item.amount : inUnits(count),
+        });
+      }
+    });
+
+    const shakenToOrder = held.some((item) => item.reason === 'egg');
+    const waterMl =
+      method === 'built' || shakenToOrder || batched.length === 0
+        ? 0
+        : dilutedMl * DILUTION_BY_METHOD[method] * count;
+    const volumeMl =
+      batched.reduce((acc, item) => acc + item.totalMl, 0) + waterMl;
+    const glass = findGlass(recipe, options.equipment);
+    const glassStyle = glassStyleOf(glass, method);
+    const iceGrams =
+      count *
+      (ICE_GRAMS_BY_GLASS_STYLE[glassStyle] +
+        (shakenToOrder || (batched.length === 0 && method !== 'built')
+          ? SHAKING_ICE_GRAMS
+          : 0));
+
+    const batch: RecipeBatch<T> = {
+      recipe,
+      drinks: count,
+      method,
+      batched,
+      held,
+      waterMl,
+      water: waterMl > 0 ? volume(waterMl) : '',
+      volumeMl,
+      volume: volume(volumeMl),
+      pour: count > 0 ? volume(volumeMl / count) : volume(0),
+      serveWithinHours: hasCitrus
+        ? Math.max(0, CITRUS_HOLD_HOURS - hoursAhead)
+        : null,
+      glass,
+      glassStyle,
+      iceGrams,
+      instructions: [],
+    };
+    if (count > 0) batch.instructions = instructionsFor(batch);
+    return batch;
+  });
+
+  const glassware = new Map<number, GlasswareCount>();
+  let drinksWithoutGlass = 0;
+  for (const batch of batches) {
+    if (batch.drinks === 0) continue;
+    if (!batch.glass) {
+      drinksWithoutGlass += batch.drinks;
+      continue;
+    }
+    const entry = glassware.get(batch.glass.id);
+    if (entry) entry.count += batch.drinks;
+    else
+      glassware.set(batch.glass.id, {
+        glass: batch.glass,
+        count: batch.drinks,
+      });
+  }
+
+  const iceGrams =
+    batches.reduce((acc, batch) => acc + batch.iceGrams, 0) *
+    (1 + (options.iceBuffer ?? 0.25));
+  const kilograms = Math.ceil(iceGrams / 100) / 10;
+  return {
+    guests,
+    totalDrinks,
+    batches,
+    glassware: [...glassware.values()],
+    drinksWithoutGlass,
+    ice: {
+      kilograms,
+      bags: Math.ceil(kilograms / (options.iceBagKg ?? 2)),
+    },
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * snake_case / camelCase conversion for API entities.
+ *
+ * `Recipe`, `Equipment` and `Mood` use camelCase while `User`,
+ * `UserPreferences`, `RecipeRating`, `RatingAggregate`, `RecipeRevision`,
+ * `RecipeCollection` and `RecipeCollectionItem` use snake_case.
+ * {@link CamelCased} and {@link SnakeCased} map a type's keys (deeply), and
+ * {@link camelCaseKeys} / {@link snakeCaseKeys} do the same at runtime.
+ */
+
+import type {
+  RatingAggregate,
+  RecipeCollection,
+  RecipeCollectionItem,
+  RecipeRating,
+  RecipeRevision,
+  User,
+  UserPreferences,
+} from './index';
+
+// =============================================================================
+// Type-level Conversion
+// =============================================================================
+
+/**
+ * Convert a snake_case string literal to camelCase
+ *
+ * @example
+ * ```ts
+ * type K = SnakeToCamel<'rating_distribution'>; // 'ratingDistribution'
+ * ```
+ */
+export type SnakeToCamel<S extends string> =
+  S extends `${infer Head}_${infer Tail}`
+    ? `${Head}${Capitalize<SnakeToCamel<Tail>>}`
+    : S;
+
+/**
+ * Convert a camelCase string literal to snake_case
+ *
+ * @example
+ * ```ts
+ * type K = CamelToSnake<'exampleDrinks'>; // 'example_drinks'
+ * ```
+ */
+export type CamelToSnake<S extends string> =
+  S extends `${infer Char}${infer Rest}`
+    ? `${Char extends Lowercase<Char> ? Char : `_${Lowercase<Char>}`}${CamelToSnake<Rest>}`
+    : S;
+
+/**
+ * Deeply convert the keys of an object type to camelCase
+ */
+export type CamelCased<T> = T extends readonly (infer U)[]
+  ? CamelCased<U>[]
+  : T extends object
+    ? {
+        [K in keyof T as K extends string ? SnakeToCamel<K> : K]: CamelCased<
+          T[K]
+        >;
+      }
+    : T;
+
+/**
+ * Deeply convert the keys of an object type to snake_case
+ */
+export type SnakeCased<T> = T extends readonly (infer U)[]
+  ? SnakeCased<U>[]
+  : T extends object
+    ? {
+        [K in keyof T as K extends string ? CamelToSnake<K> : K]: SnakeCased<
+          T[K]
+        >;
+      }
+    : T;
+
+// =============================================================================
+// camelCase Entity Views
+// =============================================================================
+
+/** {@link User} with camelCase keys */
+export type CamelUser = CamelCased<User>;
+
+/** {@link UserPreferences} with camelCase keys */
+export type CamelUserPreferences = CamelCased<UserPreferences>;
+
+/** {@link RecipeRating} with camelCase keys */
+export type CamelRecipeRating = CamelCased<RecipeRating>;
+
+/** {@link RatingAggregate} with camelCase keys */
+export type CamelRatingAggregate = CamelCased<RatingAggregate>;
+
+/** {@link RecipeRevision} with camelCase keys */
+export type CamelRecipeRevision = CamelCased<RecipeRevision>;
+
+/** {@link RecipeCollection} with camelCase keys */
+export type CamelRecipeCollection = CamelCased<RecipeCollection>;
+
+/** {@link RecipeCollectionItem} with camelCase keys */
+export type CamelRecipeCollectionItem = CamelCased<RecipeCollectionItem>;
+
+// =============================================================================
+// Runtime Conversion
+// =============================================================================
+
+/**
+ * Convert a snake_case key to camelCase (e.g., "display_name" → "displayName")
+ */
+export function snakeToCamel<S extends string>(key: S): SnakeToCamel<S> {
+  return key.replace(/_([a-z0-9])/g, (_match, char: string) =>
+    char.toUpperCase(),
+  ) as SnakeToCamel<S>;
+}
+
+/**
+ * Convert a camelCase key to snake_case (e.g., "createdAt" → "created_at")
+ */
+export function camelToSnake<S extends string>(key: S): CamelToSnake<S> {
+  return key.replace(
+    /[A-Z]/g,
+    (char) => `_${char.toLowerCase()}`,
+  ) as CamelToSnake<S>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function convertKeys(
+  value: unknown,
+  convert: (key: string) => string,
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => convertKeys(item, convert));
+  }
+  if (!isPlainObject(value)) return value;
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[convert(key)] = convertKeys(item, convert);
+  }
+  return result;
+}
+
+/**
+ * Deeply convert the keys of plain objects (and objects in arrays) to
+ * camelCase. Non-plain objects such as `Date` are left untouched.
+ *
+ * @example
+ * ```ts
+ * const rating = camelCaseKeys(apiRating); // CamelRecipeRating
+ * rating.userName;
+ * ```
+ */
+export function camelCaseKeys<T>(value: T): CamelCased<T> {
+  return convertKeys(value, snakeToCamel) as CamelCased<T>;
+}
+
+/**
+ * Deeply convert the keys of plain objects (and objects in arrays) to
+ * snake_case. Non-plain objects such as `Date` are left untouched.
+ */
+export function snakeCaseKeys<T>(value: T): SnakeCased<T> {
+  return convertKeys(value, camelToSnake) as SnakeCased<T>;
+}
@@ -0,0 +1,161 @@
+/**
+ * Local updates to recipe collections.
+ *
+ * {@link applyCollectionOperation} applies the same change a collection
+ * request makes on the server, so clients can update the UI optimistically
+ * and roll back if the request fails. It returns the error response the
+ * server would send for an operation that cannot apply (e.g., adding a
+ * recipe twice) instead of throwing.
+ */
+
+import type {
+  AddCollectionItemRequest,
+  RecipeCollection,
+  RecipeCollectionItem,
+  RemoveCollectionItemRequest,
+  ReorderCollectionRequest,
+  UpdateCollectionItemRequest,
+  UpdateCollectionRequest,
+} from './index';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  type MixrResult,
+} from './errors';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A collection change, tagged with the request it mirrors
+ */
+export type CollectionOperation =
+  | ({ type: 'update' } & UpdateCollectionRequest)
+  | ({ type: 'reorder' } & ReorderCollectionRequest)
+  | ({ type: 'add_item' } & AddCollectionItemRequest)
+  | ({ type: 'update_item' } & UpdateCollectionItemRequest)
+  | ({ type: 'remove_item' } & RemoveCollectionItemRequest);
+
+/**
+ * Error codes {@link applyCollectionOperation} can return
+ */
+export type CollectionOperationErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'ALREADY_IN_COLLECTION'
+  | 'COLLECTION_ITEM_NOT_FOUND';
+
+// =============================================================================
+// Operations
+// =============================================================================
+
+function findItem(
+  collection: RecipeCollection,
+  recipeId: number,
+): RecipeCollectionItem | undefined {
+  return collection.items.find((item) => item.recipe_id === recipeId);
+}
+
+/**
+ * Apply a {@link CollectionOperation} to a collection without mutating it.
+ * `now` is the ISO 8601 timestamp used for `updated_at` and `added_at`.
+ * Requests are assumed to have passed their validator; only checks that
+ * need the collection are made here.
+ *
+ * @example
+ * ```ts
+ * const result = applyCollectionOperation(
+ *   collection,
+ *   { type: 'add_item', recipe_id: 42, note: 'Make a pitcher' },
+ *   new Date().toISOString(),
+ * );
+ * if (result.success) setCollection(result.data); // then send the request
+ * else showError(result.error);
+ * ```
+ */
+export function applyCollectionOperation(
+  collection: RecipeCollection,
+  operation: CollectionOperation,
+  now: string,
+): MixrResult<RecipeCollection, CollectionOperationErrorCode> {
+  const next: RecipeCollection = {
+    ...collection,
+    items: collection.items.slice(),
+    updated_at: now,
+  };
+
+  switch (operation.type) {
+    case 'update': {
+      const { name, description, cover_mood_id, visibility } = operation;
+      if (name !== undefined) next.name = name.trim();
+      if (description !== undefined) next.description = description;
+      if (cover_mood_id !== undefined) next.cover_mood_id = cover_mood_id;
+      if (visibility !== undefined) next.visibility = visibility;
+      break;
+    }
+
+    case 'reorder': {
+      const ids = operation.recipe_ids;
+      const complete =
+        ids.length === collection.items.length &&
+        ids.every(
+          (id, index) =>
+            ids.indexOf(id) === index && findItem(collection, id) !== undefined,
+        );
+      if (!complete) {
+        return createErrorResponse('VALIDATION_FAILED', {
+          details: {
+            fields: [
+              {
+                path: 'recipe_ids',
+                code: 'invalid_value',
+                message: 'must list every recipe in the collection once',
+              },
+            ],
+          },
+        });
+      }
+      next.items = ids.map(
+        (id) => findItem(collection, id) as RecipeCollectionItem,
+      );
+      break;
+    }
+
+    case 'add_item': {
+      if (findItem(collection, operation.recipe_id)) {
+        return createErrorResponse('ALREADY_IN_COLLECTION');
+      }
+      const position = Math.min(
+        operation.position ?? next.items.length,
+        next.items.length,
+      );
+      next.items.splice(position, 0, {
+        recipe_id: operation.recipe_id,
+        note: operation.note ?? null,
+        added_at: now,
+      });
+      break;
+    }
+
+    case 'update_item': {
+      const index = next.items.findIndex(
+        (item) => item.recipe_id === operation.recipe_id,
+      );
+      if (index === -1) return createErrorResponse('COLLECTION_ITEM_NOT_FOUND');
+      next.items[index] = { ...next.items[index], note: operation.note };
+      break;
+    }
+
+    case 'remove_item': {
+      if (!findItem(collection, operation.recipe_id)) {
+        return createErrorResponse('COLLECTION_ITEM_NOT_FOUND');
+      }
+      next.items = next.items.filter(
+        (item) => item.recipe_id !== operation.recipe_id,
+      );
+      break;
+    }
+  }
+
+  return createSuccessResponse(next);
+}
@@ -0,0 +1,658 @@
+/**
+ * Decoders that check API response JSON against the MIXR entity types.
+ *
+ * Every response alias has a decoder that walks the payload and returns the
+ * typed response, or the exact path of each mismatch
+ * (e.g. `data[3].ingredients[1].icon: expected string|null, received number`).
+ * Unknown fields are ignored so additive backend changes do not break clients.
+ */
+
+import {
+  COLLECTION_VISIBILITIES,
+  EQUIPMENT_SUBCATEGORIES,
+  INGREDIENT_SUBCATEGORIES,
+} from './enums';
+import type {
+  AddFavoriteResponse,
+  DeleteCollectionResponse,
+  DeleteRatingResponse,
+  Equipment,
+  EquipmentListResponse,
+  EquipmentResponse,
+  EquipmentSubcategoriesResponse,
+  GenerateRecipeResponse,
+  HealthResponse,
+  Ingredient,
+  IngredientListResponse,
+  IngredientResponse,
+  IngredientSubcategoriesResponse,
+  MixrApiResponse,
+  Mood,
+  MoodListResponse,
+  MoodResponse,
+  RatingAggregate,
+  RatingAggregateResponse,
+  Recipe,
+  RecipeCollection,
+  RecipeCollectionItem,
+  RecipeCollectionListResponse,
+  RecipeCollectionResponse,
+  RecipeDiff,
+  RecipeEquipment,
+  RecipeFieldChange,
+  RecipeIngredient,
+  RecipeListChange,
+  RecipeListResponse,
+  RecipeRating,
+  RecipeRatingListResponse,
+  RecipeRatingResponse,
+  RecipeResponse,
+  RecipeRevision,
+  RecipeRevisionListResponse,
+  RecipeWithUser,
+  RemoveFavoriteResponse,
+  UpdateRecipeResponse,
+  User,
+  UserPreferences,
+  UserPreferencesResponse,
+  UserResponse,
+  VersionResponse,
+} from './index';
+import {
+  MIXR_ERROR_CODES,
+  type MixrErrorCode,
+  type MixrErrorDetails,
+} from './errors';
+import type { MixrPaginatedResponse, MixrPagination } from './pagination';
+import {
+  describeType,
+  isRecord,
+  joinPath,
+  toResult,
+  type ValidationError,
+  type ValidationResult,
+} from './validation';
+
+/**
+ * Function that checks an `unknown` value and returns it typed as `T`
+ */
+export type Decoder<T> = (input: unknown) => ValidationResult<T>;
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+/** Internal building block: a shallow type test plus a deep walker. */
+interface Check<T> {
+  /** Type label used in error messages (e.g., "string|null") */
+  readonly expected: string;
+  /** Shallow test of the value's outer type */
+  test(value: unknown): boolean;
+  /** Deep check that records any mismatches under `path` */
+  run(value: unknown, path: string, errors: ValidationError[]): void;
+  /** Rewrite a value that passed, when the check is the decoder's root */
+  normalize?(value: unknown): unknown;
+  /** Phantom marker carrying the checked type */
+  readonly _type?: T;
+}
+
+type Shape<T> = { [K in keyof T]-?: Check<T[K]> };
+
+function mismatch(
+  path: string,
+  expected: string,
+  value: unknown,
+): ValidationError {
+  return {
+    path,
+    code: value === undefined ? 'required' : 'invalid_type',
+    message: `expected ${expected}, received ${describeType(value)}`,
+  };
+}
+
+function leaf<T>(
+  expected: string,
+  test: (value: unknown) => boolean,
+): Check<T> {
+  return {
+    expected,
+    test,
+    run(value, path, errors) {
+      if (!test(value)) errors.push(mismatch(path, expected, value));
+    },
+  };
+}
+
+const string = leaf<string>('string', (v) => typeof v === 'string');
+const number = leaf<number>(
+  'number',
+  (v) => typeof v === 'number' && Number.isFinite(v),
+);
+const integer = leaf<number>('integer', (v) => Number.isInteger(v));
+const boolean = leaf<boolean>('boolean', (v) => typeof v === 'boolean');
+
+/** Check a string against a list of allowed values. */
+function oneOf<T extends string>(values: readonly T[]): Check<T> {
+  const test = (v: unknown) =>
+    typeof v === 'string' && (values as readonly string[]).includes(v);
+  return {
+    expected: values.join('|'),
+    test,
+    run(value, path, errors) {
+      if (!test(value)) errors.push(mismatch(path, this.expected, value));
+    },
+  };
+}
+
+function orEmpty<T, E extends null | undefined>(
+  inner: Check<T>,
+  extra: E,
+): Check<T | E> {
+  const expected = `${inner.expected}|${extra === null ? 'null' : 'undefined'}`;
+  return {
+    expected,
+    test: (v) => v === extra || inner.test(v),
+    run(value, path, errors) {
+      if (value === extra) return;
+      if (!inner.test(value)) {
+        errors.push(mismatch(path, expected, value));
+        return;
+      }
+      inner.run(value, path, errors);
+    },
+  };
+}
+
+const nullable = <T>(inner: Check<T>) => orEmpty(inner, null);
+const optional = <T>(inner: Check<T>) => orEmpty(inner, undefined);
+
+function arrayOf<T>(item: Check<T>): Check<T[]> {
+  return {
+    expected: 'array',
+    test: Array.isArray,
+    run(value, path, errors) {
+      if (!Array.isArray(value)) {
+        errors.push(mismatch(path, 'array', value));
+        return;
+      }
+      value.forEach((v, index) => item.run(v, joinPath(path, index), errors));
+    },
+  };
+}
+
+function object<T>(shape: Shape<T>): Check<T> {
+  return {
+    expected: 'object',
+    test: isRecord,
+    run(value, path, errors) {
+      if (!isRecord(value)) {
+        errors.push(mismatch(path, 'object', value));
+        return;
+      }
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        shape[key].run(value[key], joinPath(path, key), errors);
+      }
+    },
+  };
+}
+
+function decoder<T>(check: Check<T>): Decoder<T> {
+  return (input) => {
+    const errors: ValidationError[] = [];
+    check.run(input, '', errors);
+    const value = check.normalize ? check.normalize(input) : input;
+    return toResult(value as T, errors);
+  };
+}
+
+// =============================================================================
+// Entity Checks
+// =============================================================================
+
+const equipment = object<Equipment>({
+  id: integer,
+  subcategory: oneOf(EQUIPMENT_SUBCATEGORIES),
+  name: string,
+  icon: nullable(string),
+  createdAt: string,
+});
+
+const ingredient = object<Ingredient>({
+  id: integer,
+  subcategory: oneOf(INGREDIENT_SUBCATEGORIES),
+  name: string,
+  icon: nullable(string),
+  abv: optional(nullable(number)),
+  createdAt: string,
+});
+
+const mood = object<Mood>({
+  id: integer,
+  emoji: string,
+  name: string,
+  description: string,
+  exampleDrinks: string,
+  imageName: nullable(string),
+  createdAt: string,
+});
+
+const user = object<User>({
+  id: string,
+  email: string,
+  display_name: string,
+  created_at: string,
+  updated_at: string,
+});
+
+const userPreferences = object<UserPreferences>({
+  equipment_ids: arrayOf(integer),
+  ingredient_ids: arrayOf(integer),
+  updated_at: string,
+});
+
+const recipeIngredient = object<RecipeIngredient>({
+  id: integer,
+  name: string,
+  icon: nullable(string),
+  amount: string,
+});
+
+const recipeEquipment = object<RecipeEquipment>({
+  id: integer,
+  name: string,
+  icon: nullable(string),
+});
+
+const recipeShape: Shape<Recipe> = {
+  id: integer,
+  name: string,
+  description: nullable(string),
+  moodId: nullable(integer),
+  createdAt: string,
+  mood: nullable(mood),
+  ingredients: arrayOf(recipeIngredient),
+  steps: arrayOf(string),
+  equipment: arrayOf(recipeEquipment),
+};
+
+const recipe = object<Recipe>(recipeShape);
+
+const recipeWithUser = object<RecipeWithUser>({
+  ...recipeShape,
+  userId: nullable(string),
+});
+
+const recipeRating = object<RecipeRating>({
+  id: integer,
+  recipe_id: integer,
+  user_id: string,
+  user_name: string,
+  user_email: string,
+  stars: integer,
+  review: nullable(string),
+  created_at: string,
+  updated_at: string,
+});
+
+const ratingAggregate = object<RatingAggregate>({
+  recipe_id: integer,
+  average_rating: number,
+  total_ratings: integer,
+  rating_distribution: object<RatingAggregate['rating_distribution']>({
+    '1': integer,
+    '2': integer,
+    '3': integer,
+    '4': integer,
+    '5': integer,
+  }),
+});
+
+function fieldChange<T>(value: Check<T>): Check<RecipeFieldChange<T>> {
+  return object<RecipeFieldChange<T>>({ from: value, to: value });
+}
+
+/** Check a {@link RecipeListChange}, picking the fields by `type`. */
+function listChange<T>(value: Check<T>): Check<RecipeListChange<T>> {
+  type ChangeType = RecipeListChange<T>['type'];
+  const shapes: Record<ChangeType, Check<unknown>> = {
+    add: object<{ newIndex: number; value: T }>({ newIndex: integer, value }),
+    remove: object<{ index: number; value: T }>({ index: integer, value }),
+    update: object<{ index: number; newIndex: number; from: T; to: T }>({
+      index: integer,
+      newIndex: integer,
+      from: value,
+      to: value,
+    }),
+    move: object<{ index: number; newIndex: number; value: T }>({
+      index: integer,
+      newIndex: integer,
+      value,
+    }),
+  };
+  const type = oneOf(Object.keys(shapes) as ChangeType[]);
+  return {
+    expected: 'object',
+    test: isRecord,
+    run(change, path, errors) {
+      if (!isRecord(change)) {
+        errors.push(mismatch(path, 'object', change));
+      } else if (!type.test(change.type)) {
+        type.run(change.type, joinPath(path, 'type'), errors);
+      } else {
+        shapes[change.type as ChangeType].run(change, path, errors);
+      }
+    },
+  };
+}
+
+const recipeDiff = object<RecipeDiff>({
+  fields: object<RecipeDiff['fields']>({
+    name: optional(fieldChange(string)),
+    description: optional(fieldChange(nullable(string))),
+    moodId: optional(fieldChange(nullable(integer))),
+    mood: optional(fieldChange(nullable(mood))),
+  }),
+  ingredients: arrayOf(listChange(recipeIngredient)),
+  steps: arrayOf(listChange(string)),
+  equipment: arrayOf(listChange(recipeEquipment)),
+});
+
+const recipeRevision = object<RecipeRevision>({
+  id: integer,
+  recipe_id: integer,
+  parent_recipe_id: integer,
+  user_id: string,
+  summary: string,
+  diff: recipeDiff,
+  created_at: string,
+});
+
+const recipeCollectionItem = object<RecipeCollectionItem>({
+  recipe_id: integer,
+  note: nullable(string),
+  added_at: string,
+});
+
+const recipeCollection = object<RecipeCollection>({
+  id: integer,
+  user_id: string,
+  name: string,
+  description: nullable(string),
+  cover_mood_id: nullable(integer),
+  visibility: oneOf(COLLECTION_VISIBILITIES),
+  items: arrayOf(recipeCollectionItem),
+  created_at: string,
+  updated_at: string,
+});
+
+/**
+ * Any string is accepted in `code`, not only the codes the response alias
+ * declares, so a code the backend adds later still decodes. See
+ * {@link withKnownCode}.
+ */
+const errorCode = string as Check<MixrErrorCode>;
+const errorDetails = leaf<MixrErrorDetails>('object', isRecord);
+
+/**
+ * Map a `code` outside {@link MIXR_ERROR_CODES} to `INTERNAL_ERROR`, so
+ * decoded responses only carry codes `getErrorStatus` knows.
+ */
+function withKnownCode(value: unknown): unknown {
+  if (
+    isRecord(value) &&
+    typeof value.code === 'string' &&
+    !(MIXR_ERROR_CODES as string[]).includes(value.code)
+  ) {
+    return { ...value, code: 'INTERNAL_ERROR' };
+  }
+  return value;
+}
+
+/**
+ * Check a {@link MixrApiResponse} envelope. `data` is required when
+ * `success` is `true` and checked whenever it is present.
+ */
+function response<T, E extends MixrErrorCode = MixrErrorCode>(
+  data: Check<T>,
+): Check<MixrApiResponse<T, E>> {
+  const envelope = object<Omit<MixrApiResponse<T>, 'data'>>({
+    success: boolean,
+    error: optional(string),
+    code: optional(errorCode),
+    details: optional(errorDetails),
+    count: optional(number),
+  });
+  return {
+    expected: 'object',
+    test: isRecord,
+    normalize: withKnownCode,
+    run(value, path, errors) {
+      envelope.run(value, path, errors);
+      if (!isRecord(value)) return;
+      const dataPath = joinPath(path, 'data');
+      if (value.data !== undefined) {
+        data.run(value.data, dataPath, errors);
+      } else if (value.success === true) {
+        errors.push(mismatch(dataPath, data.expected, undefined));
+      }
+    },
+  };
+}
+
+const paginationFields = object<{
+  limit: number;
+  offset?: number;
+  total?: number;
+  next_cursor?: string | null;
+}>({
+  limit: integer,
+  offset: optional(integer),
+  total: optional(integer),
+  next_cursor: optional(nullable(string)),
+});
+
+/** Check a pagination block: `total` and `offset`, or `next_cursor`. */
+const pagination: Check<MixrPagination> = {
+  expected: 'object',
+  test: isRecord,
+  run(value, path, errors) {
+    paginationFields.run(value, path, errors);
+    if (!isRecord(value) || value.next_cursor !== undefined) return;
+    for (const key of ['total', 'offset']) {
+      if (value[key] === undefined) {
+        errors.push(mismatch(joinPath(path, key), 'integer', undefined));
+      }
+    }
+  },
+};
+
+/**
+ * Check a {@link MixrPaginatedResponse}: a list envelope plus an optional
+ * `pagination` block.
+ */
+function paginatedResponse<T, E extends MixrErrorCode = MixrErrorCode>(
+  item: Check<T>,
+): Check<MixrPaginatedResponse<T, E>> {
+  const envelope = response<T[], E>(arrayOf(item));
+  const page = optional(pagination);
+  return {
+    expected: 'object',
+    test: isRecord,
+    normalize: withKnownCode,
+    run(value, path, errors) {
+      envelope.run(value, path, errors);
+      if (!isRecord(value)) return;
+      page.run(value.pagination, joinPath(path, 'pagination'), errors);
+    },
+  };
+}
+
+const messageEnvelope = object<
+  Omit<AddFavoriteResponse, 'code'> & { code?: MixrErrorCode }
+>({
+  success: boolean,
+  message: string,
+  error: optional(string),
+  code: optional(errorCode),
+  details: optional(errorDetails),
+});
+
+/** Check a favorites `{ success, message }` response. */
+function messageResponse<
+  R extends AddFavoriteResponse | RemoveFavoriteResponse,
+>(): Check<R> {
+  return { ...messageEnvelope, normalize: withKnownCode } as Check<R>;
+}
+
+/** Run a {@link Decoder} as a check, re-rooting its error paths at `path`. */
+function fromDecoder<T>(decode: Decoder<T>): Check<T> {
+  return {
+    expected: 'value',
+    test: (value) => decode(value).success,
+    run(value, path, errors) {
+      const result = decode(value);
+      if (result.success) return;
+      for (const error of result.errors) {
+        const nested =
+          !error.path || error.path.startsWith('[')
+            ? `${path}${error.path}`
+            : joinPath(path, error.path);
+        errors.push({ ...error, path: nested });
+      }
+    },
+  };
+}
+
+/**
+ * Decoder for an array whose items `item` decodes. Errors carry the item
+ * index (e.g. `[2].ingredients[0].name`).
+ *
+ * @example
+ * ```ts
+ * const decodeRecipes = arrayDecoder(decodeRecipe);
+ * ```
+ */
+export function arrayDecoder<T>(item: Decoder<T>): Decoder<T[]> {
+  return decoder(arrayOf(fromDecoder(item)));
+}
+
+// =============================================================================
+// Entity Decoders
+// =============================================================================
+
+export const decodeEquipment: Decoder<Equipment> = decoder(equipment);
+export const decodeIngredient: Decoder<Ingredient> = decoder(ingredient);
+export const decodeMood: Decoder<Mood> = decoder(mood);
+export const decodeUser: Decoder<User> = decoder(user);
+export const decodeUserPreferences: Decoder<UserPreferences> =
+  decoder(userPreferences);
+export const decodeRecipe: Decoder<Recipe> = decoder(recipe);
+export const decodeRecipeWithUser: Decoder<RecipeWithUser> =
+  decoder(recipeWithUser);
+export const decodeRecipeRating: Decoder<RecipeRating> = decoder(recipeRating);
+export const decodeRatingAggregate: Decoder<RatingAggregate> =
+  decoder(ratingAggregate);
+export const decodeRecipeRevision: Decoder<RecipeRevision> =
+  decoder(recipeRevision);
+export const decodeRecipeCollection: Decoder<RecipeCollection> =
+  decoder(recipeCollection);
+
+// =============================================================================
+// Response Decoders
+// =============================================================================
+
+// Equipment responses
+export const decodeEquipmentListResponse: Decoder<EquipmentListResponse> =
+  decoder(response(arrayOf(equipment)));
+export const decodeEquipmentResponse: Decoder<EquipmentResponse> = decoder(
+  response(equipment),
+);
+export const decodeEquipmentSubcategoriesResponse: Decoder<EquipmentSubcategoriesResponse> =
+  decoder(response(arrayOf(string)));
+
+// Ingredient responses
+export const decodeIngredientListResponse: Decoder<IngredientListResponse> =
+  decoder(response(arrayOf(ingredient)));
+export const decodeIngredientResponse: Decoder<IngredientResponse> = decoder(
+  response(ingredient),
+);
+export const decodeIngredientSubcategoriesResponse: Decoder<IngredientSubcategoriesResponse> =
+  decoder(response(arrayOf(string)));
+
+// Mood responses
+export const decodeMoodListResponse: Decoder<MoodListResponse> = decoder(
+  response(arrayOf(mood)),
+);
+export const decodeMoodResponse: Decoder<MoodResponse> = decoder(
+  response(mood),
+);
+
+// Recipe responses
+export const decodeRecipeListResponse: Decoder<RecipeListResponse> = decoder(
+  paginatedResponse(recipe),
+);
+export const decodeRecipeResponse: Decoder<RecipeResponse> = decoder(
+  response(recipe),
+);
+export const decodeGenerateRecipeResponse: Decoder<GenerateRecipeResponse> =
+  decoder(response(recipe));
+
+// User responses
+export const decodeUserResponse: Decoder<UserResponse> = decoder(
+  response(user),
+);
+export const decodeUserPreferencesResponse: Decoder<UserPreferencesResponse> =
+  decoder(response(userPreferences));
+
+// Favorites responses
+export const decodeAddFavoriteResponse: Decoder<AddFavoriteResponse> =
+  decoder(messageResponse());
+export const decodeRemoveFavoriteResponse: Decoder<RemoveFavoriteResponse> =
+  decoder(messageResponse());
+
+// Rating responses
+export const decodeRecipeRatingResponse: Decoder<RecipeRatingResponse> =
+  decoder(response(recipeRating));
+export const decodeRecipeRatingListResponse: Decoder<RecipeRatingListResponse> =
+  decoder(paginatedResponse(recipeRating));
+export const decodeRatingAggregateResponse: Decoder<RatingAggregateResponse> =
+  decoder(response(ratingAggregate));
+export const decodeDeleteRatingResponse: Decoder<DeleteRatingResponse> =
+  decoder(response(object<{ message: string }>({ message: string })));
+
+// Revision responses
+export const decodeUpdateRecipeResponse: Decoder<UpdateRecipeResponse> =
+  decoder(
+    response(
+      object<{ recipe: Recipe; revision: RecipeRevision }>({
+        recipe,
+        revision: recipeRevision,
+      }),
+    ),
+  );
+export const decodeRecipeRevisionListResponse: Decoder<RecipeRevisionListResponse> =
+  decoder(paginatedResponse(recipeRevision));
+
+// Collection responses
+export const decodeRecipeCollectionListResponse: Decoder<RecipeCollectionListResponse> =
+  decoder(paginatedResponse(recipeCollection));
+export const decodeRecipeCollectionResponse: Decoder<RecipeCollectionResponse> =
+  decoder(response(recipeCollection));
+export const decodeDeleteCollectionResponse: Decoder<DeleteCollectionResponse> =
+  decoder(response(object<{ message: string }>({ message: string })));
+
+// Health check responses
+export const decodeHealthResponse: Decoder<HealthResponse> = decoder(
+  object<HealthResponse>({
+    success: boolean,
+    status: string,
+    timestamp: string,
+  }),
+);
+export const decodeVersionResponse: Decoder<VersionResponse> = decoder(
+  object<VersionResponse>({
+    success: boolean,
+    message: string,
+    version: string,
+  }),
+);
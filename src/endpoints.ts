@@ -0,0 +1,482 @@
+/**
+ * Endpoint contract registry for the MIXR API.
+ *
+ * {@link MixrEndpoints} ties every route (`"METHOD /path"`) to its query
+ * params, request body and response type; {@link MIXR_ENDPOINTS} is the
+ * matching runtime table. Paths are relative to the API base URL.
+ */
+
+import type {
+  AddCollectionItemRequest,
+  AddFavoriteRequest,
+  AddFavoriteResponse,
+  CreateCollectionRequest,
+  DeleteCollectionResponse,
+  DeleteRatingResponse,
+  EquipmentListResponse,
+  EquipmentQueryParams,
+  EquipmentResponse,
+  EquipmentSubcategoriesResponse,
+  GenerateRecipeRequest,
+  GenerateRecipeResponse,
+  HealthResponse,
+  IngredientListResponse,
+  IngredientQueryParams,
+  IngredientResponse,
+  IngredientSubcategoriesResponse,
+  MoodListResponse,
+  MoodResponse,
+  PaginationQueryParams,
+  RatingAggregateResponse,
+  RatingListParams,
+  RecipeCollectionListResponse,
+  RecipeCollectionResponse,
+  RecipeListResponse,
+  RecipeRatingListResponse,
+  RecipeRatingResponse,
+  RecipeResponse,
+  RecipeRevisionListResponse,
+  RemoveCollectionItemRequest,
+  RemoveFavoriteResponse,
+  ReorderCollectionRequest,
+  SubmitRatingRequest,
+  UpdateCollectionItemRequest,
+  UpdateCollectionRequest,
+  UpdateRecipeRequest,
+  UpdateRecipeResponse,
+  UpdateUserPreferencesRequest,
+  UpdateUserRequest,
+  UserPreferencesResponse,
+  UserResponse,
+  VersionResponse,
+} from './index';
+import type { ResponseErrorCode } from './errors';
+
+// =============================================================================
+// Contract Types
+// =============================================================================
+
+/**
+ * HTTP methods used by the MIXR API
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * Contract table mapping `"METHOD /path"` keys to their payload types
+ */
+export interface MixrEndpoints {
+  // Health
+  'GET /health': {
+    query: undefined;
+    body: undefined;
+    response: HealthResponse;
+  };
+  'GET /version': {
+    query: undefined;
+    body: undefined;
+    response: VersionResponse;
+  };
+
+  // Equipment
+  'GET /equipment': {
+    query: EquipmentQueryParams;
+    body: undefined;
+    response: EquipmentListResponse;
+  };
+  'GET /equipment/subcategories': {
+    query: undefined;
+    body: undefined;
+    response: EquipmentSubcategoriesResponse;
+  };
+  'GET /equipment/:id': {
+    query: undefined;
+    body: undefined;
+    response: EquipmentResponse;
+  };
+
+  // Ingredients
+  'GET /ingredients': {
+    query: IngredientQueryParams;
+    body: undefined;
+    response: IngredientListResponse;
+  };
+  'GET /ingredients/subcategories': {
+    query: undefined;
+    body: undefined;
+    response: IngredientSubcategoriesResponse;
+  };
+  'GET /ingredients/:id': {
+    query: undefined;
+    body: undefined;
+    response: IngredientResponse;
+  };
+
+  // Moods
+  'GET /moods': {
+    query: undefined;
+    body: undefined;
+    response: MoodListResponse;
+  };
+  'GET /moods/:id': {
+    query: undefined;
+    body: undefined;
+    response: MoodResponse;
+  };
+
+  // Recipes
+  'POST /recipes/generate': {
+    query: undefined;
+    body: GenerateRecipeRequest;
+    response: GenerateRecipeResponse;
+  };
+  'GET /recipes': {
+    query: PaginationQueryParams;
+    body: undefined;
+    response: RecipeListResponse;
+  };
+  'GET /recipes/:id': {
+    query: undefined;
+    body: undefined;
+    response: RecipeResponse;
+  };
+  'PUT /recipes/:id': {
+    query: undefined;
+    body: UpdateRecipeRequest;
+    response: UpdateRecipeResponse;
+  };
+  'GET /recipes/:id/revisions': {
+    query: PaginationQueryParams;
+    body: undefined;
+    response: RecipeRevisionListResponse;
+  };
+
+  // User
+  'GET /users/me': {
+    query: undefined;
+    body: undefined;
+    response: UserResponse;
+  };
+  'PUT /users/me': {
+    query: undefined;
+    body: UpdateUserRequest;
+    response: UserResponse;
+  };
+  'GET /users/me/preferences': {
+    query: undefined;
+    body: undefined;
+    response: UserPreferencesResponse;
+  };
+  'PUT /users/me/preferences': {
+    query: undefined;
+    body: UpdateUserPreferencesRequest;
+    response: UserPreferencesResponse;
+  };
+  'GET /users/me/recipes': {
+    query: PaginationQueryParams;
+    body: undefined;
+    response: RecipeListResponse;
+  };
+
+  // Favorites
+  'GET /favorites': {
+    query: PaginationQueryParams;
+    body: undefined;
+    response: RecipeListResponse;
+  };
+  'POST /favorites': {
+    query: undefined;
+    body: AddFavoriteRequest;
+    response: AddFavoriteResponse;
+  };
+  'DELETE /favorites/:recipeId': {
+    query: undefined;
+    body: undefined;
+    response: RemoveFavoriteResponse;
+  };
+
+  // Collections
+  'GET /collections': {
+    query: PaginationQueryParams;
+    body: undefined;
+    response: RecipeCollectionListResponse;
+  };
+  'POST /collections': {
+    query: undefined;
+    body: CreateCollectionRequest;
+    response: RecipeCollectionResponse;
+  };
+  'GET /collections/:id': {
+    query: undefined;
+    body: undefined;
+    response: RecipeCollectionResponse;
+  };
+  'PUT /collections/:id': {
+    query: undefined;
+    body: UpdateCollectionRequest;
+    response: RecipeCollectionResponse;
+  };
+  'DELETE /collections/:id': {
+    query: undefined;
+    body: undefined;
+    response: DeleteCollectionResponse;
+  };
+  'PUT /collections/:id/order': {
+    query: undefined;
+    body: ReorderCollectionRequest;
+    response: RecipeCollectionResponse;
+  };
+  'POST /collections/:id/items': {
+    query: undefined;
+    body: AddCollectionItemRequest;
+    response: RecipeCollectionResponse;
+  };
+  'PUT /collections/:id/items': {
+    query: undefined;
+    body: UpdateCollectionItemRequest;
+    response: RecipeCollectionResponse;
+  };
+  'DELETE /collections/:id/items': {
+    query: undefined;
+    body: RemoveCollectionItemRequest;
+    response: RecipeCollectionResponse;
+  };
+
+  // Ratings
+  'GET /recipes/:id/ratings': {
+    query: RatingListParams;
+    body: undefined;
+    response: RecipeRatingListResponse;
+  };
+  'GET /recipes/:id/ratings/aggregate': {
+    query: undefined;
+    body: undefined;
+    response: RatingAggregateResponse;
+  };
+  'POST /recipes/:id/ratings': {
+    query: undefined;
+    body: SubmitRatingRequest;
+    response: RecipeRatingResponse;
+  };
+  'DELETE /recipes/:id/ratings': {
+    query: undefined;
+    body: undefined;
+    response: DeleteRatingResponse;
+  };
+}
+
+/**
+ * Union of all endpoint keys (e.g., `"GET /recipes/:id/ratings"`)
+ */
+export type EndpointKey = keyof MixrEndpoints;
+
+/** HTTP method of an endpoint key */
+export type EndpointMethod<K extends EndpointKey> =
+  K extends `${infer M extends HttpMethod} ${string}` ? M : never;
+
+/** Path template of an endpoint key (e.g., `"/recipes/:id/ratings"`) */
+export type EndpointPath<K extends EndpointKey> =
+  K extends `${HttpMethod} ${infer P}` ? P : never;
+
+/** Query params accepted by an endpoint */
+export type EndpointQuery<K extends EndpointKey> = MixrEndpoints[K]['query'];
+
+/** Request body accepted by an endpoint */
+export type EndpointBody<K extends EndpointKey> = MixrEndpoints[K]['body'];
+
+/** Response returned by an endpoint */
+export type EndpointResponse<K extends EndpointKey> =
+  MixrEndpoints[K]['response'];
+
+/** Error codes an endpoint can return */
+export type EndpointErrorCode<K extends EndpointKey> = ResponseErrorCode<
+  EndpointResponse<K>
+>;
+
+/**
+ * Named `:param` segments of a path template
+ *
+ * @example
+ * ```ts
+ * type P = PathParams<'/recipes/:id/ratings'>; // { id: string | number }
+ * ```
+ */
+export type PathParams<P extends string> =
+  P extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: string | number } & PathParams<`/${Rest}`>
+    : P extends `${string}:${infer Param}`
+      ? { [K in Param]: string | number }
+      : Record<never, never>;
+
+/** Path params required by an endpoint */
+export type EndpointParams<K extends EndpointKey> = PathParams<EndpointPath<K>>;
+
+// =============================================================================
+// Runtime Table
+// =============================================================================
+
+/**
+ * Runtime description of an endpoint
+ */
+export interface EndpointInfo<K extends EndpointKey = EndpointKey> {
+  /** HTTP method */
+  method: EndpointMethod<K>;
+  /** Path template with `:param` placeholders */
+  path: EndpointPath<K>;
+  /** Whether the route requires a Firebase ID token */
+  auth: boolean;
+}
+
+/**
+ * Every MIXR endpoint with its method, path template and auth requirement
+ */
+export const MIXR_ENDPOINTS: { [K in EndpointKey]: EndpointInfo<K> } = {
+  'GET /health': { method: 'GET', path: '/health', auth: false },
+  'GET /version': { method: 'GET', path: '/version', auth: false },
+  'GET /equipment': { method: 'GET', path: '/equipment', auth: false },
+  'GET /equipment/subcategories': {
+    method: 'GET',
+    path: '/equipment/subcategories',
+    auth: false,
+  },
+  'GET /equipment/:id': { method: 'GET', path: '/equipment/:id', auth: false },
+  'GET /ingredients': { method: 'GET', path: '/ingredients', auth: false },
+  'GET /ingredients/subcategories': {
+    method: 'GET',
+    path: '/ingredients/subcategories',
+    auth: false,
+  },
+  'GET /ingredients/:id': {
+    method: 'GET',
+    path: '/ingredients/:id',
+    auth: false,
+  },
+  'GET /moods': { method: 'GET', path: '/moods', auth: false },
+  'GET /moods/:id': { method: 'GET', path: '/moods/:id', auth: false },
+  'POST /recipes/generate': {
+    method: 'POST',
+    path: '/recipes/generate',
+    auth: true,
+  },
+  'GET /recipes': { method: 'GET', path: '/recipes', auth: false },
+  'GET /recipes/:id': { method: 'GET', path: '/recipes/:id', auth: false },
+  'PUT /recipes/:id': { method: 'PUT', path: '/recipes/:id', auth: true },
+  'GET /recipes/:id/revisions': {
+    method: 'GET',
+    path: '/recipes/:id/revisions',
+    auth: false,
+  },
+  'GET /users/me': { method: 'GET', path: '/users/me', auth: true },
+  'PUT /users/me': { method: 'PUT', path: '/users/me', auth: true },
+  'GET /users/me/preferences': {
+    method: 'GET',
+    path: '/users/me/preferences',
+    auth: true,
+  },
+  'PUT /users/me/preferences': {
+    method: 'PUT',
+    path: '/users/me/preferences',
+    auth: true,
+  },
+  'GET /users/me/recipes': {
+    method: 'GET',
+    path: '/users/me/recipes',
+    auth: true,
+  },
+  'GET /favorites': { method: 'GET', path: '/favorites', auth: true },
+  'POST /favorites': { method: 'POST', path: '/favorites', auth: true },
+  'DELETE /favorites/:recipeId': {
+    method: 'DELETE',
+    path: '/favorites/:recipeId',
+    auth: true,
+  },
+  'GET /collections': { method: 'GET', path: '/collections', auth: true },
+  'POST /collections': { method: 'POST', path: '/collections', auth: true },
+  'GET /collections/:id': {
+    method: 'GET',
+    path: '/collections/:id',
+    auth: true,
+  },
+  'PUT /collections/:id': {
+    method: 'PUT',
+    path: '/collections/:id',
+    auth: true,
+  },
+  'DELETE /collections/:id': {
+    method: 'DELETE',
+    path: '/collections/:id',
+    auth: true,
+  },
+  'PUT /collections/:id/order': {
+    method: 'PUT',
+    path: '/collections/:id/order',
+    auth: true,
+  },
+  'POST /collections/:id/items': {
+    method: 'POST',
+    path: '/collections/:id/items',
+    auth: true,
+  },
+  'PUT /collections/:id/items': {
+    method: 'PUT',
+    path: '/collections/:id/items',
+    auth: true,
+  },
+  'DELETE /collections/:id/items': {
+    method: 'DELETE',
+    path: '/collections/:id/items',
+    auth: true,
+  },
+  'GET /recipes/:id/ratings': {
+    method: 'GET',
+    path: '/recipes/:id/ratings',
+    auth: false,
+  },
+  'GET /recipes/:id/ratings/aggregate': {
+    method: 'GET',
+    path: '/recipes/:id/ratings/aggregate',
+    auth: false,
+  },
+  'POST /recipes/:id/ratings': {
+    method: 'POST',
+    path: '/recipes/:id/ratings',
+    auth: true,
+  },
+  'DELETE /recipes/:id/ratings': {
+    method: 'DELETE',
+    path: '/recipes/:id/ratings',
+    auth: true,
+  },
+};
+
+// =============================================================================
+// Path Builder
+// =============================================================================
+
+/**
+ * Fill the `:param` segments of an endpoint's path template. Params are
+ * required (and type-checked) exactly when the path declares them.
+ *
+ * @example
+ * ```ts
+ * buildEndpointPath('GET /recipes/:id/ratings', { id: 42 }); // "/recipes/42/ratings"
+ * buildEndpointPath('GET /moods'); // "/moods"
+ * ```
+ */
+export function buildEndpointPath<K extends EndpointKey>(
+  key: K,
+  ...args: keyof EndpointParams<K> extends never
+    ? []
+    : [params: EndpointParams<K>]
+): string {
+  const params = (args[0] ?? {}) as Record<string, string | number>;
+  return MIXR_ENDPOINTS[key].path.replace(
+    /:([A-Za-z_][A-Za-z0-9_]*)/g,
+    (_match, name: string) => {
+      const value = params[name];
+      if (value === undefined) {
+        throw new Error(`Missing path param "${name}" for ${key}`);
+      }
+      return encodeURIComponent(String(value));
+    },
+  );
+}
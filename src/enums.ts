@@ -0,0 +1,69 @@
+/**
+ * Enum types of the MIXR API and the runtime lists of their values.
+ *
+ * This module imports nothing, so any module can read the value lists at
+ * load time; `./index` re-exports everything here.
+ */
+
+// =============================================================================
+// Enum Types
+// =============================================================================
+
+/**
+ * Equipment subcategory types
+ */
+export type EquipmentSubcategory =
+  | 'essential'
+  | 'glassware'
+  | 'garnish'
+  | 'advanced';
+
+/**
+ * Ingredient subcategory types
+ */
+export type IngredientSubcategory =
+  | 'spirit'
+  | 'wine'
+  | 'other_alcohol'
+  | 'fruit'
+  | 'spice'
+  | 'other';
+
+/**
+ * Who can see a recipe collection
+ */
+export type CollectionVisibility = 'public' | 'private';
+
+// =============================================================================
+// Enum Values
+// =============================================================================
+
+/**
+ * List of equipment subcategories
+ */
+export const EQUIPMENT_SUBCATEGORIES: EquipmentSubcategory[] = [
+  'essential',
+  'glassware',
+  'garnish',
+  'advanced',
+];
+
+/**
+ * List of ingredient subcategories
+ */
+export const INGREDIENT_SUBCATEGORIES: IngredientSubcategory[] = [
+  'spirit',
+  'wine',
+  'other_alcohol',
+  'fruit',
+  'spice',
+  'other',
+];
+
+/**
+ * List of collection visibilities
+ */
+export const COLLECTION_VISIBILITIES: CollectionVisibility[] = [
+  'public',
+  'private',
+];
@@ -0,0 +1,316 @@
+/**
+ * Machine-readable error codes for MIXR API responses.
+ *
+ * Failed responses carry a {@link MixrErrorCode} in `code` next to the
+ * human-readable `error` message, so clients can branch on the code instead
+ * of the message text. Each response alias in `./index` declares which codes
+ * its endpoint can return, and {@link MixrResult} is the strict
+ * success/failure union of the {@link MixrApiResponse} envelope.
+ */
+
+import type { MixrApiResponse } from './index';
+import type { ValidationError } from './validation';
+
+// =============================================================================
+// Error Codes
+// =============================================================================
+
+/**
+ * Error codes returned by the MIXR API
+ */
+export type MixrErrorCode =
+  /** The request body, query or path params failed validation */
+  | 'VALIDATION_FAILED'
+  /** A rating was submitted with stars outside 1-5 */
+  | 'RATING_OUT_OF_RANGE'
+  /** The route requires a Firebase ID token that was missing or invalid */
+  | 'UNAUTHENTICATED'
+  | 'EQUIPMENT_NOT_FOUND'
+  | 'INGREDIENT_NOT_FOUND'
+  | 'MOOD_NOT_FOUND'
+  | 'RECIPE_NOT_FOUND'
+  /** The user has not rated the recipe */
+  | 'RATING_NOT_FOUND'
+  /** The recipe is not in the user's favorites */
+  | 'FAVORITE_NOT_FOUND'
+  | 'ALREADY_FAVORITED'
+  /** The collection does not exist or is private to another user */
+  | 'COLLECTION_NOT_FOUND'
+  /** The recipe is not in the collection */
+  | 'COLLECTION_ITEM_NOT_FOUND'
+  | 'ALREADY_IN_COLLECTION'
+  /** No route matches the method and path */
+  | 'NOT_FOUND'
+  /** Too many requests; retry after the given delay */
+  | 'RATE_LIMITED'
+  /** The recipe generator failed or returned an unusable recipe */
+  | 'GENERATION_FAILED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Codes every endpoint can return
+ */
+export type MixrCommonErrorCode = 'RATE_LIMITED' | 'INTERNAL_ERROR';
+
+/**
+ * Extra payload carried by error codes that have one
+ */
+export interface MixrErrorDetailsMap {
+  /** One entry per invalid field */
+  VALIDATION_FAILED: { fields: ValidationError[] };
+  /** Seconds to wait before retrying */
+  RATE_LIMITED: { retry_after: number };
+}
+
+/**
+ * `details` payload of an error code; `never` for codes without details
+ */
+export type MixrErrorDetails<C extends MixrErrorCode = MixrErrorCode> =
+  C extends keyof MixrErrorDetailsMap ? MixrErrorDetailsMap[C] : never;
+
+/**
+ * Catalog entry describing an error code
+ */
+export interface MixrErrorInfo {
+  /** HTTP status the API responds with */
+  status: number;
+  /** Default human-readable message */
+  message: string;
+}
+
+/**
+ * All error codes
+ */
+export const MIXR_ERROR_CODES: MixrErrorCode[] = [
+  'VALIDATION_FAILED',
+  'RATING_OUT_OF_RANGE',
+  'UNAUTHENTICATED',
+  'EQUIPMENT_NOT_FOUND',
+  'INGREDIENT_NOT_FOUND',
+  'MOOD_NOT_FOUND',
+  'RECIPE_NOT_FOUND',
+  'RATING_NOT_FOUND',
+  'FAVORITE_NOT_FOUND',
+  'ALREADY_FAVORITED',
+  'COLLECTION_NOT_FOUND',
+  'COLLECTION_ITEM_NOT_FOUND',
+  'ALREADY_IN_COLLECTION',
+  'NOT_FOUND',
+  'RATE_LIMITED',
+  'GENERATION_FAILED',
+  'INTERNAL_ERROR',
+];
+
+/**
+ * HTTP status and default message of every error code
+ */
+export const MIXR_ERRORS: Readonly<Record<MixrErrorCode, MixrErrorInfo>> = {
+  VALIDATION_FAILED: { status: 400, message: 'The request is invalid' },
+  RATING_OUT_OF_RANGE: {
+    status: 400,
+    message: 'Ratings must be between 1 and 5 stars',
+  },
+  UNAUTHENTICATED: { status: 401, message: 'Sign in to continue' },
+  EQUIPMENT_NOT_FOUND: { status: 404, message: 'Equipment not found' },
+  INGREDIENT_NOT_FOUND: { status: 404, message: 'Ingredient not found' },
+  MOOD_NOT_FOUND: { status: 404, message: 'Mood not found' },
+  RECIPE_NOT_FOUND: { status: 404, message: 'Recipe not found' },
+  RATING_NOT_FOUND: { status: 404, message: 'Rating not found' },
+  FAVORITE_NOT_FOUND: { status: 404, message: 'Recipe is not a favorite' },
+  ALREADY_FAVORITED: { status: 409, message: 'Recipe is already a favorite' },
+  COLLECTION_NOT_FOUND: { status: 404, message: 'Collection not found' },
+  COLLECTION_ITEM_NOT_FOUND: {
+    status: 404,
+    message: 'Recipe is not in the collection',
+  },
+  ALREADY_IN_COLLECTION: {
+    status: 409,
+    message: 'Recipe is already in the collection',
+  },
+  NOT_FOUND: { status: 404, message: 'Route not found' },
+  RATE_LIMITED: { status: 429, message: 'Too many requests' },
+  GENERATION_FAILED: { status: 502, message: 'Recipe generation failed' },
+  INTERNAL_ERROR: { status: 500, message: 'Something went wrong' },
+};
+
+// =============================================================================
+// Response Types
+// =============================================================================
+
+/**
+ * Successful {@link MixrApiResponse}
+ */
+export interface MixrSuccessResponse<T> {
+  success: true;
+  data: T;
+  count?: number;
+  error?: undefined;
+  code?: undefined;
+  details?: undefined;
+}
+
+/**
+ * Failed {@link MixrApiResponse}. Distributes over `C`, so checking `code`
+ * narrows `details`.
+ *
+ * @example
+ * ```ts
+ * if (res.code === 'VALIDATION_FAILED') {
+ *   res.details.fields.forEach(showFieldError);
+ * }
+ * ```
+ */
+export type MixrErrorResponse<C extends MixrErrorCode = MixrErrorCode> =
+  C extends MixrErrorCode
+    ? {
+        success: false;
+        /** Human-readable message */
+        error: string;
+        /** Machine-readable code */
+        code: C;
+        data?: undefined;
+        count?: undefined;
+      } & ([MixrErrorDetails<C>] extends [never]
+        ? { details?: undefined }
+        : { details: MixrErrorDetails<C> })
+    : never;
+
+/**
+ * Strict success/failure union of the {@link MixrApiResponse} envelope
+ */
+export type MixrResult<T, C extends MixrErrorCode = MixrErrorCode> =
+  | MixrSuccessResponse<T>
+  | MixrErrorResponse<C>;
+
+/**
+ * Error codes declared on a response type
+ *
+ * @example
+ * ```ts
+ * type E = ResponseErrorCode<RecipeRatingResponse>; // 'RATING_OUT_OF_RANGE' | ...
+ * ```
+ */
+export type ResponseErrorCode<R> = R extends { code?: infer C }
+  ? Extract<C, MixrErrorCode>
+  : never;
+
+/**
+ * {@link MixrResult} form of a response alias
+ */
+export type ResponseResult<R> =
+  R extends MixrApiResponse<infer T, infer C> ? MixrResult<T, C> : never;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Options for {@link createErrorResponse}; `details` is required for codes
+ * that carry them
+ */
+export type ErrorResponseInit<C extends MixrErrorCode> = {
+  /** Message; defaults to the catalog message */
+  message?: string;
+} & ([MixrErrorDetails<C>] extends [never]
+  ? { details?: undefined }
+  : { details: MixrErrorDetails<C> });
+
+/**
+ * Build a successful response envelope
+ */
+export function createSuccessResponse<T>(
+  data: T,
+  count?: number,
+): MixrSuccessResponse<T> {
+  return count === undefined
+    ? { success: true, data }
+    : { success: true, data, count };
+}
+
+/**
+ * Build an error response envelope
+ *
+ * @example
+ * ```ts
+ * createErrorResponse('RECIPE_NOT_FOUND');
+ * // { success: false, code: 'RECIPE_NOT_FOUND', error: 'Recipe not found' }
+ *
+ * createErrorResponse('VALIDATION_FAILED', { details: { fields: result.errors } });
+ * ```
+ */
+export function createErrorResponse<C extends MixrErrorCode>(
+  code: C,
+  ...[init]: [MixrErrorDetails<C>] extends [never]
+    ? [init?: ErrorResponseInit<C>]
+    : [init: ErrorResponseInit<C>]
+): MixrErrorResponse<C> {
+  const response: Record<string, unknown> = {
+    success: false,
+    code,
+    error: init?.message ?? MIXR_ERRORS[code].message,
+  };
+  if (init?.details !== undefined) response.details = init.details;
+  return response as MixrErrorResponse<C>;
+}
+
+/** Shape checks for codes whose `details` are required. */
+const DETAILS_CHECKS: {
+  [C in keyof MixrErrorDetailsMap]: (
+    details: Record<string, unknown>,
+  ) => boolean;
+} = {
+  VALIDATION_FAILED: (details) => Array.isArray(details.fields),
+  RATE_LIMITED: (details) =>
+    typeof details.retry_after === 'number' &&
+    Number.isFinite(details.retry_after),
+};
+
+function hasDetailsFor(code: MixrErrorCode, details: unknown): boolean {
+  if (!Object.prototype.hasOwnProperty.call(DETAILS_CHECKS, code)) return true;
+  return (
+    typeof details === 'object' &&
+    details !== null &&
+    DETAILS_CHECKS[code as keyof MixrErrorDetailsMap](
+      details as Record<string, unknown>,
+    )
+  );
+}
+
+/**
+ * Type guard for a failed response that carries an error code, a message
+ * and the `details` its code requires
+ */
+export function isErrorResponse<T, C extends MixrErrorCode>(
+  res: MixrApiResponse<T, C>,
+): res is MixrErrorResponse<C> {
+  return (
+    res.success === false &&
+    typeof res.error === 'string' &&
+    typeof res.code === 'string' &&
+    Object.prototype.hasOwnProperty.call(MIXR_ERRORS, res.code) &&
+    hasDetailsFor(res.code, res.details)
+  );
+}
+
+/**
+ * Type guard for a failed response with one of the given codes
+ *
+ * @example
+ * ```ts
+ * if (hasErrorCode(res, 'UNAUTHENTICATED')) showSignIn();
+ * else if (hasErrorCode(res, 'RATE_LIMITED')) retryIn(res.details.retry_after);
+ * ```
+ */
+export function hasErrorCode<T, C extends MixrErrorCode, K extends C>(
+  res: MixrApiResponse<T, C>,
+  ...codes: K[]
+): res is MixrErrorResponse<K> {
+  return isErrorResponse(res) && (codes as MixrErrorCode[]).includes(res.code);
+}
+
+/**
+ * HTTP status for an error code
+ */
+export function getErrorStatus(code: MixrErrorCode): number {
+  return MIXR_ERRORS[code].status;
+}
@@ -0,0 +1,273 @@
+/**
+ * Recipe export to schema.org JSON-LD, Markdown and plain text.
+ *
+ * {@link toRecipeJsonLd} produces a schema.org `Recipe` for public recipe
+ * pages, {@link toRecipeMarkdown} a shareable document and
+ * {@link toRecipeText} a printable card. Each accepts an optional
+ * {@link RatingAggregate} to include the rating.
+ */
+
+import type { RatingAggregate, Recipe, RecipeIngredient } from './index';
+import { parseAmount } from './amount';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options shared by the recipe exporters
+ */
+export interface RecipeExportOptions {
+  /** Rating aggregate to include; omitted when there are no ratings */
+  aggregate?: RatingAggregate | null;
+  /** Canonical URL of the recipe page */
+  url?: string;
+  /** Image URL */
+  image?: string;
+  /** Display name of the author */
+  authorName?: string;
+}
+
+/**
+ * schema.org `HowToStep`
+ */
+export interface SchemaOrgHowToStep {
+  '@type': 'HowToStep';
+  position: number;
+  text: string;
+}
+
+/**
+ * schema.org `HowToTool`
+ */
+export interface SchemaOrgHowToTool {
+  '@type': 'HowToTool';
+  name: string;
+}
+
+/**
+ * schema.org `AggregateRating`
+ */
+export interface SchemaOrgAggregateRating {
+  '@type': 'AggregateRating';
+  ratingValue: number;
+  ratingCount: number;
+  bestRating: 5;
+  worstRating: 1;
+}
+
+/**
+ * schema.org `Recipe` as produced by {@link toRecipeJsonLd}
+ */
+export interface SchemaOrgRecipe {
+  '@context': 'https://schema.org';
+  '@type': 'Recipe';
+  name: string;
+  description?: string;
+  url?: string;
+  image?: string;
+  author?: { '@type': 'Person'; name: string };
+  datePublished: string;
+  recipeCategory: 'Cocktail';
+  recipeYield: string;
+  keywords?: string;
+  recipeIngredient: string[];
+  recipeInstructions: SchemaOrgHowToStep[];
+  tool: SchemaOrgHowToTool[];
+  aggregateRating?: SchemaOrgAggregateRating;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** "2 oz Tequila", "Salt, to taste" or just the name when there is no amount. */
+function ingredientLine(item: RecipeIngredient): string {
+  const amount = item.amount.trim();
+  if (amount === '') return item.name;
+  if (parseAmount(amount).unit === 'to_taste') return `${item.name}, to taste`;
+  return `${amount} ${item.name}`;
+}
+
+/** Drop numbering the step text already carries ("1. Shake" → "Shake"). */
+function stepText(step: string): string {
+  return step.trim().replace(/^(?:step\s*\d+\s*[.:)]?|\d+[.)])\s+/i, '');
+}
+
+function ratingSummary(aggregate: RatingAggregate): string {
+  const count = aggregate.total_ratings;
+  return `${aggregate.average_rating.toFixed(1)}/5 (${count} ${count === 1 ? 'rating' : 'ratings'})`;
+}
+
+function hasRatings(
+  aggregate: RatingAggregate | null | undefined,
+): aggregate is RatingAggregate {
+  return !!aggregate && aggregate.total_ratings > 0;
+}
+
+/** Escape characters with a meaning in inline Markdown. */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>|#])/g, '\\$1');
+}
+
+/** Percent-encode characters that would end a Markdown link destination. */
+function escapeLinkUrl(url: string): string {
+  return url.replace(
+    /[\s()<>]/g,
+    (char) =>
+      `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`,
+  );
+}
+
+// =============================================================================
+// JSON-LD
+// =============================================================================
+
+/**
+ * Convert a recipe to schema.org `Recipe` JSON-LD
+ *
+ * @example
+ * ```ts
+ * const jsonLd = toRecipeJsonLd(recipe, {
+ *   aggregate,
+ *   url: `https://mixr.example/recipes/${recipe.id}`,
+ * });
+ * head.append(toJsonLdScript(jsonLd));
+ * ```
+ */
+export function toRecipeJsonLd(
+  recipe: Recipe,
+  options: RecipeExportOptions = {},
+): SchemaOrgRecipe {
+  const jsonLd: SchemaOrgRecipe = {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.name,
+    datePublished: recipe.createdAt,
+    recipeCategory: 'Cocktail',
+    recipeYield: '1 serving',
+    recipeIngredient: recipe.ingredients.map(ingredientLine),
+    recipeInstructions: recipe.steps.map((step, index) => ({
+      '@type': 'HowToStep',
+      position: index + 1,
+      text: stepText(step),
+    })),
+    tool: recipe.equipment.map((item) => ({
+      '@type': 'HowToTool',
+      name: item.name,
+    })),
+  };
+  if (recipe.description) jsonLd.description = recipe.description;
+  if (options.url) jsonLd.url = options.url;
+  if (options.image) jsonLd.image = options.image;
+  if (options.authorName) {
+    jsonLd.author = { '@type': 'Person', name: options.authorName };
+  }
+  if (recipe.mood) jsonLd.keywords = recipe.mood.name;
+  if (hasRatings(options.aggregate)) {
+    jsonLd.aggregateRating = {
+      '@type': 'AggregateRating',
+      ratingValue: Math.round(options.aggregate.average_rating * 100) / 100,
+      ratingCount: options.aggregate.total_ratings,
+      bestRating: 5,
+      worstRating: 1,
+    };
+  }
+  return jsonLd;
+}
+
+/**
+ * Wrap JSON-LD in a `<script type="application/ld+json">` tag, escaping
+ * `<` so the content cannot close the tag early
+ */
+export function toJsonLdScript(jsonLd: SchemaOrgRecipe): string {
+  const json = JSON.stringify(jsonLd).replace(/</g, '\\u003c');
+  return `<script type="application/ld+json">${json}</script>`;
+}
+
+// =============================================================================
+// Markdown and Plain Text
+// =============================================================================
+
+/**
+ * Render a recipe as a Markdown document
+ */
+export function toRecipeMarkdown(
+  recipe: Recipe,
+  options: RecipeExportOptions = {},
+): string {
+  const lines = [`# ${escapeMarkdown(recipe.name)}`];
+  const meta: string[] = [];
+  if (recipe.mood) {
+    meta.push(
+      `**Mood:** ${recipe.mood.emoji} ${escapeMarkdown(recipe.mood.name)}`,
+    );
+  }
+  if (hasRatings(options.aggregate)) {
+    meta.push(`**Rating:** ${ratingSummary(options.aggregate)}`);
+  }
+  if (options.authorName) {
+    meta.push(`**By:** ${escapeMarkdown(options.authorName)}`);
+  }
+  if (meta.length > 0) lines.push('', meta.join(' · '));
+  if (recipe.description) lines.push('', escapeMarkdown(recipe.description));
+
+  lines.push('', '## Ingredients', '');
+  for (const item of recipe.ingredients) {
+    lines.push(`- ${escapeMarkdown(ingredientLine(item))}`);
+  }
+  if (recipe.equipment.length > 0) {
+    lines.push('', '## Equipment', '');
+    for (const item of recipe.equipment) {
+      lines.push(`- ${escapeMarkdown(item.name)}`);
+    }
+  }
+  lines.push('', '## Steps', '');
+  recipe.steps.forEach((step, index) => {
+    lines.push(`${index + 1}. ${escapeMarkdown(stepText(step))}`);
+  });
+  if (options.url)
+    lines.push('', `[View recipe](${escapeLinkUrl(options.url)})`);
+  return lines.join('\n');
+}
+
+/**
+ * Render a recipe as a plain-text card
+ *
+ * @example
+ * ```ts
+ * toRecipeText(margarita);
+ * // MARGARITA
+ * //
+ * // INGREDIENTS
+ * //   - 2 oz Tequila
+ * //   ...
+ * ```
+ */
+export function toRecipeText(
+  recipe: Recipe,
+  options: RecipeExportOptions = {},
+): string {
+  const lines = [recipe.name.toUpperCase()];
+  if (recipe.mood) lines.push(`Mood: ${recipe.mood.emoji} ${recipe.mood.name}`);
+  if (hasRatings(options.aggregate)) {
+    lines.push(`Rating: ${ratingSummary(options.aggregate)}`);
+  }
+  if (options.authorName) lines.push(`By: ${options.authorName}`);
+  if (recipe.description) lines.push('', recipe.description);
+
+  lines.push('', 'INGREDIENTS');
+  for (const item of recipe.ingredients) {
+    lines.push(`  - ${ingredientLine(item)}`);
+  }
+  if (recipe.equipment.length > 0) {
+    lines.push('', 'EQUIPMENT');
+    for (const item of recipe.equipment) lines.push(`  - ${item.name}`);
+  }
+  lines.push('', 'STEPS');
+  recipe.steps.forEach((step, index) => {
+    lines.push(`  ${index + 1}. ${stepText(step)}`);
+  });
+  if (options.url) lines.push('', options.url);
+  return lines.join('\n');
+}
@@ -0,0 +1,1011 @@
+/**
+ * Deterministic fixture factories for tests.
+ *
+ * {@link createFixtureFactory} returns factories for every entity and
+ * response alias. Output is realistic and internally consistent: recipes
+ * use ingredients, equipment and moods from the factory's catalog, ratings
+ * come from generated users and aggregates are computed from ratings. A
+ * factory is driven by a seeded generator, so the same seed and the same
+ * sequence of calls always produce the same data.
+ * {@link generateFixtureCorpus} builds a whole catalog, user base and
+ * recipe corpus, with revisions and collections, in one go.
+ */
+
+import type {
+  AddFavoriteResponse,
+  DeleteCollectionResponse,
+  DeleteRatingResponse,
+  Equipment,
+  EquipmentListResponse,
+  EquipmentResponse,
+  EquipmentSubcategoriesResponse,
+  EquipmentSubcategory,
+  GenerateRecipeResponse,
+  HealthResponse,
+  Ingredient,
+  IngredientListResponse,
+  IngredientResponse,
+  IngredientSubcategoriesResponse,
+  IngredientSubcategory,
+  Mood,
+  MoodListResponse,
+  MoodResponse,
+  RatingAggregate,
+  RatingAggregateResponse,
+  Recipe,
+  RecipeCollection,
+  RecipeCollectionListResponse,
+  RecipeCollectionResponse,
+  RecipeListResponse,
+  RecipeRating,
+  RecipeRatingListResponse,
+  RecipeRatingResponse,
+  RecipeResponse,
+  RecipeRevision,
+  RecipeRevisionListResponse,
+  RecipeWithUser,
+  RemoveFavoriteResponse,
+  UpdateRecipeRequest,
+  UpdateRecipeResponse,
+  User,
+  UserPreferences,
+  UserPreferencesResponse,
+  UserResponse,
+  VersionResponse,
+} from './index';
+import {
+  COLLECTION_VISIBILITIES,
+  EQUIPMENT_SUBCATEGORIES,
+  INGREDIENT_SUBCATEGORIES,
+} from './enums';
+import { createSuccessResponse } from './errors';
+import { DEFAULT_PAGE_LIMIT } from './pagination';
+import { computeRatingAggregate } from './ratings';
+import {
+  applyRecipeDiff,
+  applyRecipeUpdate,
+  diffRecipes,
+  summarizeRecipeDiff,
+} from './revisions';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Catalog entities recipes are built from
+ */
+export interface FixtureCatalog {
+  equipment: Equipment[];
+  ingredients: Ingredient[];
+  moods: Mood[];
+}
+
+/**
+ * Options for {@link createFixtureFactory}
+ */
+export interface FixtureFactoryOptions {
+  /** Seed of the random generator; defaults to 1 */
+  seed?: number;
+}
+
+/**
+ * Seeded factories for entities and responses. Every factory accepts
+ * partial overrides that replace generated fields.
+ */
+export interface FixtureFactory {
+  /** Catalog used by the recipe factories */
+  readonly catalog: FixtureCatalog;
+
+  /** A catalog equipment item */
+  equipment(overrides?: Partial<Equipment>): Equipment;
+  /** A catalog ingredient */
+  ingredient(overrides?: Partial<Ingredient>): Ingredient;
+  /** A catalog mood */
+  mood(overrides?: Partial<Mood>): Mood;
+  /** A new user with a unique id and matching email */
+  user(overrides?: Partial<User>): User;
+  /** Preferences with a random subset of catalog ids */
+  userPreferences(overrides?: Partial<UserPreferences>): UserPreferences;
+  /** A new recipe with a unique id built from catalog items */
+  recipe(overrides?: Partial<Recipe>): Recipe;
+  /** A new recipe with an owner (`userId` is `null` for system recipes) */
+  recipeWithUser(overrides?: Partial<RecipeWithUser>): RecipeWithUser;
+  /**
+   * A new rating, dated after its recipe and author; by a new user unless
+   * `user_id` is given
+   */
+  recipeRating(overrides?: Partial<RecipeRating>): RecipeRating;
+  /** `count` ratings of one recipe, each by a different new user */
+  recipeRatings(recipeId: number, count?: number): RecipeRating[];
+  /**
+   * A new revision editing `parent` (a new recipe when omitted); by a new
+   * user unless `user_id` is given. `recipe_id` is the next recipe id.
+   */
+  recipeRevision(
+    overrides?: Partial<RecipeRevision>,
+    parent?: Recipe,
+  ): RecipeRevision;
+  /**
+   * A new collection of `recipeIds` (ids from the recipe sequence when
+   * omitted); owned by a new user unless `user_id` is given
+   */
+  recipeCollection(
+    overrides?: Partial<RecipeCollection>,
+    recipeIds?: number[],
+  ): RecipeCollection;
+  /** Aggregate of `ratings`, generated when omitted */
+  ratingAggregate(recipeId: number, ratings?: RecipeRating[]): RatingAggregate;
+
+  equipmentListResponse(
+    overrides?: Partial<EquipmentListResponse>,
+  ): EquipmentListResponse;
+  equipmentResponse(overrides?: Partial<EquipmentResponse>): EquipmentResponse;
+  equipmentSubcategoriesResponse(
+    overrides?: Partial<EquipmentSubcategoriesResponse>,
+  ): EquipmentSubcategoriesResponse;
+  ingredientListResponse(
+    overrides?: Partial<IngredientListResponse>,
+  ): IngredientListResponse;
+  ingredientResponse(
+    overrides?: Partial<IngredientResponse>,
+  ): IngredientResponse;
+  ingredientSubcategoriesResponse(
+    overrides?: Partial<IngredientSubcategoriesResponse>,
+  ): IngredientSubcategoriesResponse;
+  moodListResponse(overrides?: Partial<MoodListResponse>): MoodListResponse;
+  moodResponse(overrides?: Partial<MoodResponse>): MoodResponse;
+  recipeListResponse(
+    overrides?: Partial<RecipeListResponse>,
+  ): RecipeListResponse;
+  recipeResponse(overrides?: Partial<RecipeResponse>): RecipeResponse;
+  generateRecipeResponse(
+    overrides?: Partial<GenerateRecipeResponse>,
+  ): GenerateRecipeResponse;
+  userResponse(overrides?: Partial<UserResponse>): UserResponse;
+  userPreferencesResponse(
+    overrides?: Partial<UserPreferencesResponse>,
+  ): UserPreferencesResponse;
+  addFavoriteResponse(
+    overrides?: Partial<AddFavoriteResponse>,
+  ): AddFavoriteResponse;
+  removeFavoriteResponse(
+    overrides?: Partial<RemoveFavoriteResponse>,
+  ): RemoveFavoriteResponse;
+  recipeRatingResponse(
+    overrides?: Partial<RecipeRatingResponse>,
+  ): RecipeRatingResponse;
+  recipeRatingListResponse(
+    overrides?: Partial<RecipeRatingListResponse>,
+  ): RecipeRatingListResponse;
+  ratingAggregateResponse(
+    overrides?: Partial<RatingAggregateResponse>,
+  ): RatingAggregateResponse;
+  updateRecipeResponse(
+    overrides?: Partial<UpdateRecipeResponse>,
+  ): UpdateRecipeResponse;
+  recipeRevisionListResponse(
+    overrides?: Partial<RecipeRevisionListResponse>,
+  ): RecipeRevisionListResponse;
+  recipeCollectionResponse(
+    overrides?: Partial<RecipeCollectionResponse>,
+  ): RecipeCollectionResponse;
+  recipeCollectionListResponse(
+    overrides?: Partial<RecipeCollectionListResponse>,
+  ): RecipeCollectionListResponse;
+  deleteCollectionResponse(
+    overrides?: Partial<DeleteCollectionResponse>,
+  ): DeleteCollectionResponse;
+  deleteRatingResponse(
+    overrides?: Partial<DeleteRatingResponse>,
+  ): DeleteRatingResponse;
+  healthResponse(overrides?: Partial<HealthResponse>): HealthResponse;
+  versionResponse(overrides?: Partial<VersionResponse>): VersionResponse;
+}
+
+/**
+ * Options for {@link generateFixtureCorpus}
+ */
+export interface FixtureCorpusOptions {
+  /** Seed of the random generator; defaults to 1 */
+  seed?: number;
+  /** Number of recipes; defaults to 50 */
+  recipes?: number;
+  /** Number of users; defaults to 10 */
+  users?: number;
+  /** Most ratings per recipe (capped at the number of users); defaults to 8 */
+  maxRatingsPerRecipe?: number;
+}
+
+/**
+ * A coherent data set: every id refers to an entity in the corpus
+ */
+export interface FixtureCorpus {
+  catalog: FixtureCatalog;
+  users: User[];
+  /** Preferences by user id */
+  preferences: Record<string, UserPreferences>;
+  recipes: RecipeWithUser[];
+  /** At most one rating per user and recipe */
+  ratings: RecipeRating[];
+  /** One aggregate per recipe, in recipe order */
+  aggregates: RatingAggregate[];
+  /** Favorite recipe ids by user id */
+  favorites: Record<string, number[]>;
+  /** Edits of corpus recipes; each edited version is also in `recipes` */
+  revisions: RecipeRevision[];
+  /** Users' collections of corpus recipes */
+  collections: RecipeCollection[];
+}
+
+// =============================================================================
+// Catalog Data
+// =============================================================================
+
+const CATALOG_CREATED_AT = '2024-01-01T00:00:00.000Z';
+
+/** Generated dates fall in the 180 days after this instant. */
+const EPOCH = Date.UTC(2024, 0, 1);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const EQUIPMENT_DATA: [string, EquipmentSubcategory][] = [
+  ['Cocktail shaker', 'essential'],
+  ['Jigger', 'essential'],
+  ['Hawthorne strainer', 'essential'],
+  ['Bar spoon', 'essential'],
+  ['Mixing glass', 'essential'],
+  ['Muddler', 'essential'],
+  ['Coupe glass', 'glassware'],
+  ['Rocks glass', 'glassware'],
+  ['Highball glass', 'glassware'],
+  ['Martini glass', 'glassware'],
+  ['Citrus peeler', 'garnish'],
+  ['Cocktail picks', 'garnish'],
+  ['Fine strainer', 'advanced'],
+  ['Smoking gun', 'advanced'],
+];
+
+/** Name, subcategory, ABV and typical amounts. */
+const INGREDIENT_DATA: [string, IngredientSubcategory, number, string[]][] = [
+  ['Vodka', 'spirit', 40, ['2 oz', '1 1/2 oz']],
+  ['Gin', 'spirit', 40, ['2 oz', '1 1/2 oz']],
+  ['White rum', 'spirit', 40, ['2 oz', '1 1/2 oz']],
+  ['Tequila', 'spirit', 40, ['2 oz', '1 1/2 oz']],
+  ['Bourbon', 'spirit', 45, ['2 oz', '1 1/2 oz']],
+  ['Mezcal', 'spirit', 45, ['1 1/2 oz', '1 oz']],
+  ['Prosecco', 'wine', 11, ['3 oz', '4 oz']],
+  ['Sweet vermouth', 'wine', 16, ['1 oz', '3/4 oz']],
+  ['Dry vermouth', 'wine', 18, ['1/2 oz', '1 oz']],
+  ['Campari', 'other_alcohol', 25, ['1 oz', '3/4 oz']],
+  ['Triple sec', 'other_alcohol', 30, ['3/4 oz', '1/2 oz']],
+  ['Aperol', 'other_alcohol', 11, ['1 1/2 oz', '2 oz']],
+  ['Coffee liqueur', 'other_alcohol', 20, ['1 oz', '1/2 oz']],
+  ['Lime juice', 'fruit', 0, ['3/4 oz', '1 oz', '1/2 oz']],
+  ['Lemon juice', 'fruit', 0, ['3/4 oz', '1 oz', '1/2 oz']],
+  ['Grapefruit juice', 'fruit', 0, ['2 oz', '1 oz']],
+  ['Pineapple juice', 'fruit', 0, ['2 oz', '1 1/2 oz']],
+  ['Orange peel', 'fruit', 0, ['1']],
+  ['Mint', 'spice', 0, ['8 leaves', '6 leaves']],
+  ['Angostura bitters', 'spice', 45, ['2 dashes', '1 dash']],
+  ['Cinnamon', 'spice', 0, ['1 pinch']],
+  ['Salt', 'spice', 0, ['to taste']],
+  ['Simple syrup', 'other', 0, ['3/4 oz', '1/2 oz']],
+  ['Agave syrup', 'other', 0, ['1/2 oz', '3/4 oz']],
+  ['Soda water', 'other', 0, ['2 oz', 'top']],
+  ['Ginger beer', 'other', 0, ['4 oz', '3 oz']],
+  ['Tonic water', 'other', 0, ['4 oz', '3 oz']],
+  ['Egg white', 'other', 0, ['1']],
+  ['Espresso', 'other', 0, ['1 oz']],
+];
+
+/** Amounts typical for each catalog ingredient, by id. */
+const INGREDIENT_AMOUNTS = INGREDIENT_DATA.map(([, , , amounts]) => amounts);
+
+/** Mixers a drink is topped with rather than shaken or stirred with. */
+const TOPPERS = ['Prosecco', 'Soda water', 'Ginger beer', 'Tonic water'];
+
+const MOOD_DATA: [string, string, string, string][] = [
+  ['🎉', 'Party', 'Fun and festive', 'Margarita, Mojito'],
+  ['😌', 'Relaxed', 'Calm and unwinding', 'Old Fashioned, Negroni'],
+  ['💕', 'Romantic', 'Intimate and elegant', 'French 75, Kir Royale'],
+  ['🌴', 'Vacation', 'Sunny and easygoing', 'Paloma, Piña Colada'],
+  ['🔥', 'Adventurous', 'Bold and unusual', 'Mezcal Negroni, Penicillin'],
+  ['☕', 'Energized', 'Lively and caffeinated', 'Espresso Martini'],
+];
+
+const NAME_ADJECTIVES = [
+  'Velvet',
+  'Smoky',
+  'Golden',
+  'Midnight',
+  'Garden',
+  'Spiced',
+  'Bitter',
+  'Tropical',
+  'Silver',
+  'Crimson',
+];
+
+const NAME_STYLES = [
+  'Sour',
+  'Fizz',
+  'Smash',
+  'Collins',
+  'Daisy',
+  'Highball',
+  'Cobbler',
+  'Flip',
+];
+
+const FIRST_NAMES = [
+  'Alex',
+  'Sam',
+  'Jordan',
+  'Taylor',
+  'Casey',
+  'Riley',
+  'Morgan',
+  'Jamie',
+  'Avery',
+  'Quinn',
+  'Robin',
+  'Kai',
+];
+
+const LAST_NAMES = [
+  'Garcia',
+  'Smith',
+  'Nguyen',
+  'Okafor',
+  'Kowalski',
+  'Rossi',
+  'Tanaka',
+  'Silva',
+  'Novak',
+  'Haddad',
+];
+
+const REVIEWS = [
+  'Perfectly balanced.',
+  'A bit too sweet for me.',
+  'Will make this again!',
+  'Great with fresh juice.',
+  'Too strong, but tasty.',
+  'Our new house favorite.',
+];
+
+/** Recipe ids are drawn from at least 1..50, the default corpus size. */
+const RECIPE_ID_RANGE = 50;
+
+const GARNISHES = [
+  'a lime wheel',
+  'a lemon twist',
+  'an orange peel',
+  'a brandied cherry',
+  'a mint sprig',
+];
+
+const COLLECTION_NAMES = [
+  'Summer party',
+  'Date night',
+  'Brunch menu',
+  'Holiday classics',
+  'Weeknight easy',
+  'Game day',
+  'To try',
+];
+
+const UID_CHARS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// =============================================================================
+// Random Generator
+// =============================================================================
+
+interface Random {
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [min, max] */
+  int(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+  /** `count` distinct items in random order */
+  sample<T>(items: readonly T[], count: number): T[];
+  chance(probability: number): boolean;
+}
+
+/** mulberry32: small, fast and good enough for test data. */
+function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number): number =>
+    min + Math.floor(next() * (max - min + 1));
+  return {
+    next,
+    int,
+    pick: (items) => items[int(0, items.length - 1)],
+    sample(items, count) {
+      const copy = items.slice();
+      for (let i = copy.length - 1; i > 0; i--) {
+        const j = int(0, i);
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+      }
+      return copy.slice(0, count);
+    },
+    chance: (probability) => next() < probability,
+  };
+}
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+function buildCatalog(): FixtureCatalog {
+  return {
+    equipment: EQUIPMENT_DATA.map(([name, subcategory], index) => ({
+      id: index + 1,
+      subcategory,
+      name,
+      icon: null,
+      createdAt: CATALOG_CREATED_AT,
+    })),
+    ingredients: INGREDIENT_DATA.map(([name, subcategory, abv], index) => ({
+      id: index + 1,
+      subcategory,
+      name,
+      icon: null,
+      abv,
+      createdAt: CATALOG_CREATED_AT,
+    })),
+    moods: MOOD_DATA.map(
+      ([emoji, name, description, exampleDrinks], index) => ({
+        id: index + 1,
+        emoji,
+        name,
+        description,
+        exampleDrinks,
+        imageName: null,
+        createdAt: CATALOG_CREATED_AT,
+      }),
+    ),
+  };
+}
+
+/** Offset pagination for a single page holding all of `data`. */
+function singlePage<R extends { data?: unknown[] }>(response: R): R {
+  const count = response.data?.length ?? 0;
+  return {
+    pagination: { total: count, limit: DEFAULT_PAGE_LIMIT, offset: 0 },
+    ...response,
+  };
+}
+
+/**
+ * Create seeded fixture factories
+ *
+ * @example
+ * ```ts
+ * const fixtures = createFixtureFactory({ seed: 42 });
+ * const recipe = fixtures.recipe({ name: 'House Negroni' });
+ * const ratings = fixtures.recipeRatings(recipe.id, 5);
+ * const aggregate = fixtures.ratingAggregate(recipe.id, ratings);
+ * server.respond(fixtures.recipeResponse({ data: recipe }));
+ * ```
+ */
+export function createFixtureFactory(
+  options: FixtureFactoryOptions = {},
+): FixtureFactory {
+  const random = createRandom(options.seed ?? 1);
+  const catalog = buildCatalog();
+  let nextUser = 1;
+  let nextRecipe = 1;
+  let nextRating = 1;
+  let nextRevision = 1;
+  let nextCollection = 1;
+
+  /** Users and recipes made so far, to date related entities after them. */
+  const users = new Map<string, User>();
+  const recipes = new Map<number, Recipe>();
+
+  const date = (fromMs = EPOCH): number =>
+    fromMs + random.int(0, 180) * MS_PER_DAY + random.int(0, 86399) * 1000;
+
+  /** A time after every given ISO 8601 timestamp. */
+  const dateAfter = (...timestamps: (string | undefined)[]): number =>
+    date(
+      Math.max(
+        EPOCH,
+        ...timestamps.map((timestamp) =>
+          timestamp === undefined ? EPOCH : Date.parse(timestamp),
+        ),
+      ),
+    );
+
+  const user = (overrides: Partial<User> = {}): User => {
+    const first = random.pick(FIRST_NAMES);
+    const last = random.pick(LAST_NAMES);
+    let id = '';
+    for (let i = 0; i < 28; i++) id += random.pick(UID_CHARS.split(''));
+    const created = date();
+    const email = `${first}.${last}${nextUser++}@example.com`.toLowerCase();
+    const made: User = {
+      id,
+      email,
+      display_name: `${first} ${last}`,
+      created_at: isoDate(created),
+      updated_at: isoDate(date(created)),
+      ...overrides,
+    };
+    users.set(made.id, made);
+    return made;
+  };
+
+  /** The user `userId` if this factory made one, else a new user. */
+  const author = (userId?: string): User =>
+    (userId === undefined ? undefined : users.get(userId)) ??
+    user(userId === undefined ? {} : { id: userId });
+
+  /** A new recipe, dated after `after` when given. */
+  const recipe = (overrides: Partial<Recipe> = {}, after?: string): Recipe => {
+    const spirits = catalog.ingredients.filter(
+      (item) => item.subcategory === 'spirit',
+    );
+    const base = random.pick(spirits);
+    const others = random.sample(
+      catalog.ingredients.filter((item) => item.subcategory !== 'spirit'),
+      random.int(1, 3),
+    );
+    const ingredients = [base, ...others].map((item) => ({
+      id: item.id,
+      name: item.name,
+      icon: item.icon,
+      amount: random.pick(INGREDIENT_AMOUNTS[item.id - 1]),
+    }));
+
+    const stirred = random.chance(0.4);
+    const tools = catalog.equipment.filter((item) =>
+      stirred
+        ? item.name === 'Mixing glass' || item.name === 'Bar spoon'
+        : item.name === 'Cocktail shaker' || item.name === 'Hawthorne strainer',
+    );
+    const glass = random.pick(
+      catalog.equipment.filter((item) => item.subcategory === 'glassware'),
+    );
+    const toppers = ingredients.filter((item) => TOPPERS.includes(item.name));
+    const steps = [
+      stirred
+        ? 'Add the ingredients to a mixing glass with ice'
+        : 'Add the ingredients to a shaker with ice',
+      stirred ? 'Stir until well chilled' : 'Shake hard for 10 seconds',
+      `Strain into a ${glass.name.toLowerCase()}`,
+      ...toppers.map((item) => `Top with ${item.name.toLowerCase()}`),
+    ];
+    if (toppers.length > 0) {
+      steps[0] = steps[0].replace('the ingredients', 'all but the topper');
+    }
+
+    const style = random.pick(NAME_STYLES);
+    const mood = random.chance(0.8) ? random.pick(catalog.moods) : null;
+    const made: Recipe = {
+      id: nextRecipe++,
+      name: `${random.pick(NAME_ADJECTIVES)} ${base.name} ${style}`,
+      description: random.chance(0.7)
+        ? `A ${style.toLowerCase()} built on ${base.name.toLowerCase()}.`
+        : null,
+      moodId: mood?.id ?? null,
+      createdAt: isoDate(dateAfter(after)),
+      mood,
+      ingredients,
+      steps,
+      equipment: [...tools, glass].map(({ id, name, icon }) => ({
+        id,
+        name,
+        icon,
+      })),
+      ...overrides,
+    };
+    recipes.set(made.id, made);
+    return made;
+  };
+
+  /** A recipe id this factory has made, or may make next. */
+  const recipeId = (): number =>
+    random.int(1, Math.max(nextRecipe - 1, RECIPE_ID_RANGE));
+
+  const recipeRating = (
+    overrides: Partial<RecipeRating> = {},
+  ): RecipeRating => {
+    const rater = author(overrides.user_id);
+    const rated = overrides.recipe_id ?? recipeId();
+    const created = dateAfter(recipes.get(rated)?.createdAt, rater.created_at);
+    const edited = random.chance(0.2);
+    return {
+      id: nextRating++,
+      recipe_id: rated,
+      user_id: rater.id,
+      user_name: rater.display_name,
+      user_email: rater.email,
+      stars: random.pick([1, 2, 3, 3, 4, 4, 4, 5, 5, 5]),
+      review: random.chance(0.6) ? random.pick(REVIEWS) : null,
+      created_at: isoDate(created),
+      updated_at: isoDate(edited ? date(created) : created),
+      ...overrides,
+    };
+  };
+
+  const recipeRatings = (recipeId: number, count = 3): RecipeRating[] =>
+    Array.from({ length: count }, () => recipeRating({ recipe_id: recipeId }));
+
+  /** A small edit: a new amount, a garnish step or a new name. */
+  const recipeEdit = (parent: Recipe): UpdateRecipeRequest => {
+    const index = random.int(0, parent.ingredients.length - 1);
+    const item = parent.ingredients[index];
+    const amounts = item
+      ? (INGREDIENT_AMOUNTS[item.id - 1] ?? []).filter(
+          (amount) => amount !== item.amount,
+        )
+      : [];
+    const kind = random.int(amounts.length > 0 ? 0 : 1, 2);
+    if (kind === 0) {
+      return {
+        ingredients: parent.ingredients.map((other, i) =>
+          i === index ? { ...other, amount: random.pick(amounts) } : other,
+        ),
+      };
+    }
+    if (kind === 1) {
+      return {
+        steps: [...parent.steps, `Garnish with ${random.pick(GARNISHES)}`],
+      };
+    }
+    return { name: `${parent.name} No. ${random.int(2, 9)}` };
+  };
+
+  const recipeRevision = (
+    overrides: Partial<RecipeRevision> = {},
+    parent: Recipe = recipe(),
+  ): RecipeRevision => {
+    const editor = author(overrides.user_id);
+    const edited = applyRecipeUpdate(parent, recipeEdit(parent));
+    const diff = diffRecipes(parent, edited);
+    const revision: RecipeRevision = {
+      id: nextRevision++,
+      recipe_id: nextRecipe++,
+      parent_recipe_id: parent.id,
+      user_id: editor.id,
+      summary: summarizeRecipeDiff(diff),
+      diff,
+      created_at: isoDate(dateAfter(parent.createdAt, editor.created_at)),
+      ...overrides,
+    };
+    recipes.set(revision.recipe_id, {
+      ...edited,
+      id: revision.recipe_id,
+      createdAt: revision.created_at,
+    });
+    return revision;
+  };
+
+  const recipeCollection = (
+    overrides: Partial<RecipeCollection> = {},
+    recipeIds: number[] = [
+      ...new Set(Array.from({ length: random.int(1, 5) }, recipeId)),
+    ],
+  ): RecipeCollection => {
+    const owner = author(overrides.user_id);
+    const name = random.pick(COLLECTION_NAMES);
+    const created = isoDate(dateAfter(owner.created_at));
+    const items = recipeIds.map((recipe_id) => ({
+      recipe_id,
+      note: random.chance(0.3) ? 'Batch ahead' : null,
+      added_at: isoDate(dateAfter(created, recipes.get(recipe_id)?.createdAt)),
+    }));
+    const updated = Math.max(
+      dateAfter(created),
+      ...items.map((item) => Date.parse(item.added_at)),
+    );
+    return {
+      id: nextCollection++,
+      user_id: owner.id,
+      name,
+      description: random.chance(0.5)
+        ? `Drinks for ${name.toLowerCase()}.`
+        : null,
+      cover_mood_id: random.chance(0.6) ? random.pick(catalog.moods).id : null,
+      visibility: random.pick(COLLECTION_VISIBILITIES),
+      items,
+      created_at: created,
+      updated_at: isoDate(updated),
+      ...overrides,
+    };
+  };
+
+  const ratingAggregate = (
+    recipeId: number,
+    ratings: RecipeRating[] = recipeRatings(recipeId, random.int(1, 8)),
+  ): RatingAggregate => computeRatingAggregate(recipeId, ratings);
+
+  const list = <T>(make: () => T, count = 3): T[] =>
+    Array.from({ length: count }, make);
+
+  const factory: FixtureFactory = {
+    catalog,
+
+    equipment: (overrides = {}) => ({
+      ...random.pick(catalog.equipment),
+      ...overrides,
+    }),
+    ingredient: (overrides = {}) => ({
+      ...random.pick(catalog.ingredients),
+      ...overrides,
+    }),
+    mood: (overrides = {}) => ({ ...random.pick(catalog.moods), ...overrides }),
+    user,
+    userPreferences: (overrides = {}) => ({
+      equipment_ids: random
+        .sample(catalog.equipment, random.int(2, 8))
+        .map((item) => item.id)
+        .sort((a, b) => a - b),
+      ingredient_ids: random
+        .sample(catalog.ingredients, random.int(4, 15))
+        .map((item) => item.id)
+        .sort((a, b) => a - b),
+      updated_at: isoDate(date()),
+      ...overrides,
+    }),
+    recipe,
+    recipeWithUser: (overrides = {}) => {
+      const userId =
+        overrides.userId !== undefined
+          ? overrides.userId
+          : random.chance(0.7)
+            ? user().id
+            : null;
+      const owner = userId === null ? undefined : users.get(userId);
+      return { ...recipe({}, owner?.created_at), userId, ...overrides };
+    },
+    recipeRating: (overrides) => recipeRating(overrides),
+    recipeRatings,
+    recipeRevision,
+    recipeCollection,
+    ratingAggregate,
+
+    equipmentListResponse: (overrides = {}) => ({
+      ...createSuccessResponse(catalog.equipment.slice()),
+      ...overrides,
+    }),
+    equipmentResponse: (overrides = {}) => ({
+      ...createSuccessResponse(factory.equipment()),
+      ...overrides,
+    }),
+    equipmentSubcategoriesResponse: (overrides = {}) => ({
+      ...createSuccessResponse(EQUIPMENT_SUBCATEGORIES.slice()),
+      ...overrides,
+    }),
+    ingredientListResponse: (overrides = {}) => ({
+      ...createSuccessResponse(catalog.ingredients.slice()),
+      ...overrides,
+    }),
+    ingredientResponse: (overrides = {}) => ({
+      ...createSuccessResponse(factory.ingredient()),
+      ...overrides,
+    }),
+    ingredientSubcategoriesResponse: (overrides = {}) => ({
+      ...createSuccessResponse(INGREDIENT_SUBCATEGORIES.slice()),
+      ...overrides,
+    }),
+    moodListResponse: (overrides = {}) => ({
+      ...createSuccessResponse(catalog.moods.slice()),
+      ...overrides,
+    }),
+    moodResponse: (overrides = {}) => ({
+      ...createSuccessResponse(factory.mood()),
+      ...overrides,
+    }),
+    recipeListResponse: (overrides = {}) =>
+      singlePage({ ...createSuccessResponse(list(recipe)), ...overrides }),
+    recipeResponse: (overrides = {}) => ({
+      ...createSuccessResponse(recipe()),
+      ...overrides,
+    }),
+    generateRecipeResponse: (overrides = {}) => ({
+      ...createSuccessResponse(recipe()),
+      ...overrides,
+    }),
+    userResponse: (overrides = {}) => ({
+      ...createSuccessResponse(user()),
+      ...overrides,
+    }),
+    userPreferencesResponse: (overrides = {}) => ({
+      ...createSuccessResponse(factory.userPreferences()),
+      ...overrides,
+    }),
+    addFavoriteResponse: (overrides = {}) => ({
+      success: true,
+      message: 'Recipe added to favorites',
+      ...overrides,
+    }),
+    removeFavoriteResponse: (overrides = {}) => ({
+      success: true,
+      message: 'Recipe removed from favorites',
+      ...overrides,
+    }),
+    recipeRatingResponse: (overrides = {}) => ({
+      ...createSuccessResponse(recipeRating()),
+      ...overrides,
+    }),
+    recipeRatingListResponse: (overrides = {}) =>
+      singlePage({
+        ...createSuccessResponse(recipeRatings(recipeId())),
+        ...overrides,
+      }),
+    ratingAggregateResponse: (overrides = {}) => ({
+      ...createSuccessResponse(ratingAggregate(recipeId())),
+      ...overrides,
+    }),
+    updateRecipeResponse: (overrides = {}) => {
+      const parent = recipe();
+      const revision = recipeRevision({}, parent);
+      return {
+        ...createSuccessResponse({
+          recipe: {
+            ...applyRecipeDiff(parent, revision.diff),
+            id: revision.recipe_id,
+            createdAt: revision.created_at,
+          },
+          revision,
+        }),
+        ...overrides,
+      };
+    },
+    recipeRevisionListResponse: (overrides = {}) => {
+      const parent = recipe();
+      return singlePage({
+        ...createSuccessResponse(list(() => recipeRevision({}, parent))),
+        ...overrides,
+      });
+    },
+    recipeCollectionResponse: (overrides = {}) => ({
+      ...createSuccessResponse(recipeCollection()),
+      ...overrides,
+    }),
+    recipeCollectionListResponse: (overrides = {}) => {
+      const owner = user().id;
+      return singlePage({
+        ...createSuccessResponse(
+          list(() => recipeCollection({ user_id: owner })),
+        ),
+        ...overrides,
+      });
+    },
+    deleteCollectionResponse: (overrides = {}) => ({
+      ...createSuccessResponse({ message: 'Collection deleted' }),
+      ...overrides,
+    }),
+    deleteRatingResponse: (overrides = {}) => ({
+      ...createSuccessResponse({ message: 'Rating deleted' }),
+      ...overrides,
+    }),
+    healthResponse: (overrides = {}) => ({
+      success: true,
+      status: 'ok',
+      timestamp: isoDate(date()),
+      ...overrides,
+    }),
+    versionResponse: (overrides = {}) => ({
+      success: true,
+      message: 'MIXR API',
+      version: '1.0.0',
+      ...overrides,
+    }),
+  };
+  return factory;
+}
+
+// =============================================================================
+// Corpus
+// =============================================================================
+
+/**
+ * Generate a coherent catalog, user base and recipe corpus. Recipes use
+ * catalog ids, are owned by corpus users (or the system), ratings come
+ * from corpus users with at most one per user and recipe, and aggregates
+ * match the ratings. Some recipes are users' edits of earlier ones, each
+ * with its revision, and users' collections hold corpus recipes.
+ *
+ * @example
+ * ```ts
+ * const corpus = generateFixtureCorpus({ seed: 7, recipes: 200 });
+ * const index = createSimilarityIndex(corpus.recipes, {
+ *   ingredients: corpus.catalog.ingredients,
+ * });
+ * ```
+ */
+export function generateFixtureCorpus(
+  options: FixtureCorpusOptions = {},
+): FixtureCorpus {
+  const seed = options.seed ?? 1;
+  const fixtures = createFixtureFactory({ seed });
+  const random = createRandom(seed ^ 0x5bd1e995);
+  const users = Array.from({ length: options.users ?? 10 }, () =>
+    fixtures.user(),
+  );
+
+  const preferences: Record<string, UserPreferences> = {};
+  const favorites: Record<string, number[]> = {};
+  for (const item of users) preferences[item.id] = fixtures.userPreferences();
+
+  const recipes: RecipeWithUser[] = [];
+  const ratings: RecipeRating[] = [];
+  const aggregates: RatingAggregate[] = [];
+  const maxRatings = Math.min(options.maxRatingsPerRecipe ?? 8, users.length);
+  const revisions: RecipeRevision[] = [];
+  for (let i = 0; i < (options.recipes ?? 50); i++) {
+    let recipe: RecipeWithUser;
+    if (recipes.length > 0 && users.length > 0 && random.chance(0.15)) {
+      const parent = random.pick(recipes);
+      const revision = fixtures.recipeRevision(
+        { user_id: random.pick(users).id },
+        parent,
+      );
+      revisions.push(revision);
+      recipe = {
+        ...applyRecipeDiff(parent, revision.diff),
+        id: revision.recipe_id,
+        createdAt: revision.created_at,
+        userId: revision.user_id,
+      };
+    } else {
+      const owner = users.length > 0 && random.chance(0.6);
+      recipe = fixtures.recipeWithUser({
+        userId: owner ? random.pick(users).id : null,
+      });
+    }
+    recipes.push(recipe);
+
+    const raters = random.sample(users, random.int(0, maxRatings));
+    const recipeRatings = raters.map((rater) =>
+      fixtures.recipeRating({ recipe_id: recipe.id, user_id: rater.id }),
+    );
+    ratings.push(...recipeRatings);
+    aggregates.push(fixtures.ratingAggregate(recipe.id, recipeRatings));
+  }
+
+  for (const item of users) {
+    favorites[item.id] = random
+      .sample(recipes, random.int(0, Math.min(5, recipes.length)))
+      .map((recipe) => recipe.id)
+      .sort((a, b) => a - b);
+  }
+
+  const collections: RecipeCollection[] = [];
+  for (const item of users) {
+    for (let i = random.int(0, 2); i > 0 && recipes.length > 0; i--) {
+      const picked = random
+        .sample(recipes, random.int(1, Math.min(6, recipes.length)))
+        .map((recipe) => recipe.id);
+      collections.push(fixtures.recipeCollection({ user_id: item.id }, picked));
+    }
+  }
+
+  return {
+    catalog: fixtures.catalog,
+    users,
+    preferences,
+    recipes,
+    ratings,
+    aggregates,
+    favorites,
+    revisions,
+    collections,
+  };
+}
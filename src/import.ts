@@ -0,0 +1,556 @@
+/**
+ * Recipe import from schema.org JSON-LD and pasted text.
+ *
+ * Both importers produce a {@link RecipeDraft} whose ingredients and
+ * equipment are resolved against the catalog with fuzzy name matching.
+ * Every parsed line is reported as an {@link ImportedItem}; items without a
+ * match are left out of the draft and listed in `unresolved`, and matches
+ * below the confirmation threshold are listed in `lowConfidence` so the user
+ * can check them.
+ */
+
+import type {
+  Equipment,
+  Ingredient,
+  Recipe,
+  RecipeEquipment,
+  RecipeIngredient,
+} from './index';
+import { parseAmount } from './amount';
+import { tokenize } from './search';
+import {
+  isRecord,
+  toResult,
+  type ValidationError,
+  type ValidationResult,
+} from './validation';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Recipe fields an import can fill in
+ */
+export type RecipeDraft = Pick<
+  Recipe,
+  'name' | 'description' | 'ingredients' | 'steps' | 'equipment'
+>;
+
+/**
+ * Catalog used to resolve imported names
+ */
+export interface RecipeImportCatalog {
+  ingredients: readonly Ingredient[];
+  equipment: readonly Equipment[];
+}
+
+/**
+ * Options for the recipe importers
+ */
+export interface RecipeImportOptions {
+  /** Lowest similarity (0-1) accepted as a match; defaults to 0.6 */
+  minConfidence?: number;
+  /** Matches below this similarity are reported for confirmation; defaults to 0.9 */
+  confirmBelow?: number;
+}
+
+/**
+ * Fields shared by imported ingredient and equipment lines
+ */
+export interface ImportedLine {
+  /** The line as found in the source */
+  text: string;
+  /** Name parsed from the line */
+  name: string;
+  /** Amount parsed from the line; empty for equipment or when missing */
+  amount: string;
+  /** Similarity between `name` and the best candidate, from 0 to 1 (two decimals) */
+  confidence: number;
+}
+
+/**
+ * One imported ingredient line
+ */
+export interface ImportedIngredient extends ImportedLine {
+  kind: 'ingredient';
+  /** Catalog ingredient with the parsed amount, or `null` */
+  match: RecipeIngredient | null;
+}
+
+/**
+ * One imported equipment line
+ */
+export interface ImportedEquipment extends ImportedLine {
+  kind: 'equipment';
+  /** Catalog equipment the name resolved to, or `null` */
+  match: RecipeEquipment | null;
+}
+
+/**
+ * One imported ingredient or equipment line, discriminated by `kind`
+ */
+export type ImportedItem = ImportedIngredient | ImportedEquipment;
+
+/**
+ * Result of a successful import
+ */
+export interface RecipeImport {
+  /** Draft recipe with the resolved items */
+  draft: RecipeDraft;
+  /** Every imported ingredient and equipment line, in source order */
+  items: ImportedItem[];
+  /** Items that did not match the catalog (not in the draft) */
+  unresolved: ImportedItem[];
+  /** Matched items below the confirmation threshold (in the draft) */
+  lowConfidence: ImportedItem[];
+}
+
+// =============================================================================
+// Fuzzy Matching
+// =============================================================================
+
+/** Folded words with a plural "s" removed, so "limes" meets "lime". */
+function words(text: string): string[] {
+  return tokenize(text).map((word) =>
+    word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word,
+  );
+}
+
+function bigrams(text: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+  return result;
+}
+
+/** Dice coefficient over character bigrams. */
+function dice(a: string, b: string): number {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+  const counts = new Map<string, number>();
+  for (const gram of left) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  let common = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      common++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * common) / (left.length + right.length);
+}
+
+/**
+ * Similarity of an imported name and a catalog name, from 0 to 1. A catalog
+ * name whose words all appear in the imported name ("Lime juice" in "fresh
+ * lime juice") scores at least 0.7, the reverse ("Shaker" for "Cocktail
+ * shaker") at least 0.6; otherwise spelling similarity decides.
+ */
+function similarity(input: string, candidate: string): number {
+  const a = words(input);
+  const b = words(candidate);
+  if (a.length === 0 || b.length === 0) return 0;
+  const joinedA = a.join(' ');
+  const joinedB = b.join(' ');
+  if (joinedA === joinedB) return 1;
+  let containment = 0;
+  if (b.every((word) => a.includes(word))) {
+    containment = 0.7 + (0.3 * b.length) / a.length;
+  } else if (a.every((word) => b.includes(word))) {
+    containment = 0.6 + (0.3 * a.length) / b.length;
+  }
+  return Math.max(containment, dice(joinedA, joinedB));
+}
+
+function resolve(
+  name: string,
+  catalog: readonly (Ingredient | Equipment)[],
+  minConfidence: number,
+): { match: RecipeEquipment | null; confidence: number } {
+  let best: Ingredient | Equipment | null = null;
+  let bestScore = 0;
+  for (const entry of catalog) {
+    const score = Math.round(similarity(name, entry.name) * 100) / 100;
+    if (
+      score > bestScore ||
+      (score === bestScore && best && entry.name.length > best.name.length)
+    ) {
+      best = entry;
+      bestScore = score;
+    }
+  }
+  if (!best || bestScore < minConfidence) {
+    return { match: null, confidence: bestScore };
+  }
+  return {
+    match: { id: best.id, name: best.name, icon: best.icon },
+    confidence: bestScore,
+  };
+}
+
+// =============================================================================
+// Line Parsing
+// =============================================================================
+
+const BULLET = /^\s*(?:[-*•·▪◦]|\d+[.)])\s*/;
+
+/** Whether a prefix of words is a measured amount ("2 oz", "1-2 dashes"). */
+function isMeasure(text: string): boolean {
+  const parsed = parseAmount(text);
+  return (
+    parsed.quantity !== null && parsed.unit !== null && parsed.unit !== 'piece'
+  );
+}
+
+/**
+ * Split an ingredient line into amount and name: "2 oz Tequila",
+ * "2 limes", "Salt, to taste", "Tequila: 2 oz".
+ */
+function splitIngredientLine(line: string): { amount: string; name: string } {
+  const text = line.replace(BULLET, '').trim();
+
+  const toTaste = /^(.*?)[,\s]+to taste$/i.exec(text);
+  if (toTaste) return { amount: 'to taste', name: toTaste[1].trim() };
+
+  const parts = text.split(/\s+/);
+  for (let k = Math.min(4, parts.length - 1); k >= 1; k--) {
+    const prefix = parts.slice(0, k).join(' ');
+    if (isMeasure(prefix)) {
+      const name = parts
+        .slice(k)
+        .join(' ')
+        .replace(/^of\s+/i, '');
+      return { amount: prefix, name };
+    }
+  }
+  if (parts.length > 1 && /^[\d½¼¾⅓⅔⅛]/.test(parts[0])) {
+    const amount = parseAmount(parts[0]);
+    if (amount.quantity !== null) {
+      return { amount: parts[0], name: parts.slice(1).join(' ') };
+    }
+  }
+
+  const suffix = /^(.+?)\s*(?::|\s[-–—])\s*(.+)$/.exec(text);
+  if (suffix && parseAmount(suffix[2]).quantity !== null) {
+    return { amount: suffix[2].trim(), name: suffix[1].trim() };
+  }
+  return { amount: '', name: text };
+}
+
+/** Strip HTML tags and decode common entities found in scraped JSON-LD. */
+function cleanText(text: string): string {
+  const entities: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+  };
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(#\d+|#x[\da-f]+|[a-z]+);/gi, (match, code: string) => {
+      if (code[0] !== '#') return entities[code.toLowerCase()] ?? match;
+      const point =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      // Keep entities that are not valid code points (or lone surrogates)
+      const valid = point <= 0x10ffff && (point < 0xd800 || point > 0xdfff);
+      return valid ? String.fromCodePoint(point) : match;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// =============================================================================
+// Draft Assembly
+// =============================================================================
+
+interface ParsedRecipe {
+  name: string;
+  description: string | null;
+  ingredientLines: string[];
+  equipmentLines: string[];
+  steps: string[];
+}
+
+function assemble(
+  parsed: ParsedRecipe,
+  catalog: RecipeImportCatalog,
+  options: RecipeImportOptions,
+): ValidationResult<RecipeImport> {
+  const errors: ValidationError[] = [];
+  if (!parsed.name) {
+    errors.push({ path: 'name', code: 'required', message: 'is required' });
+  }
+  if (parsed.ingredientLines.length === 0) {
+    errors.push({
+      path: 'ingredients',
+      code: 'empty',
+      message: 'no ingredients found',
+    });
+  }
+
+  const minConfidence = options.minConfidence ?? 0.6;
+  const confirmBelow = options.confirmBelow ?? 0.9;
+  const items: ImportedItem[] = [];
+  const ingredients: RecipeIngredient[] = [];
+  const equipment: RecipeEquipment[] = [];
+
+  for (const text of parsed.ingredientLines) {
+    const { amount, name } = splitIngredientLine(text);
+    const { match, confidence } = resolve(
+      name,
+      catalog.ingredients,
+      minConfidence,
+    );
+    const ingredient = match ? { ...match, amount } : null;
+    items.push({
+      kind: 'ingredient',
+      text,
+      name,
+      amount,
+      match: ingredient,
+      confidence,
+    });
+    if (ingredient) ingredients.push(ingredient);
+  }
+  for (const text of parsed.equipmentLines) {
+    const name = text.replace(BULLET, '').trim();
+    const resolved = resolve(name, catalog.equipment, minConfidence);
+    items.push({ kind: 'equipment', text, name, amount: '', ...resolved });
+    if (
+      resolved.match &&
+      !equipment.some((item) => item.id === resolved.match?.id)
+    ) {
+      equipment.push(resolved.match);
+    }
+  }
+
+  return toResult(
+    {
+      draft: {
+        name: parsed.name,
+        description: parsed.description,
+        ingredients,
+        steps: parsed.steps,
+        equipment,
+      },
+      items,
+      unresolved: items.filter((item) => item.match === null),
+      lowConfidence: items.filter(
+        (item) => item.match !== null && item.confidence < confirmBelow,
+      ),
+    },
+    errors,
+  );
+}
+
+// =============================================================================
+// JSON-LD Import
+// =============================================================================
+
+function isRecipeNode(node: Record<string, unknown>): boolean {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return types.some(
+    (type) => typeof type === 'string' && /(^|[/:])Recipe$/.test(type),
+  );
+}
+
+/** Find the first schema.org Recipe in a document, array or `@graph`. */
+function findRecipeNode(value: unknown): Record<string, unknown> | null {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findRecipeNode(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!isRecord(value)) return null;
+  if (isRecipeNode(value)) return value;
+  return findRecipeNode(value['@graph']);
+}
+
+/** Text of a string or of an object's `text`/`name`. */
+function textOf(value: unknown): string {
+  if (typeof value === 'string') return cleanText(value);
+  if (isRecord(value)) return textOf(value.text ?? value.name);
+  return '';
+}
+
+function listOf(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Flatten `recipeInstructions`: strings, `HowToStep`s and `HowToSection`s. */
+function instructionSteps(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value
+      .split(/\r?\n/)
+      .map((line) => cleanText(line.replace(BULLET, '')))
+      .filter((line) => line !== '');
+  }
+  return listOf(value).flatMap((item) => {
+    if (isRecord(item) && item.itemListElement !== undefined) {
+      return instructionSteps(item.itemListElement);
+    }
+    if (typeof item === 'string') return instructionSteps(item);
+    const text = textOf(item);
+    return text ? [text] : [];
+  });
+}
+
+/**
+ * Import a schema.org `Recipe` from JSON-LD (an object, an array, a
+ * `@graph` document or the JSON text)
+ *
+ * @example
+ * ```ts
+ * const result = importRecipeFromJsonLd(scriptTag.textContent, {
+ *   ingredients,
+ *   equipment,
+ * });
+ * if (result.success) {
+ *   showDraft(result.value.draft);
+ *   askToConfirm(result.value.lowConfidence, result.value.unresolved);
+ * }
+ * ```
+ */
+export function importRecipeFromJsonLd(
+  input: unknown,
+  catalog: RecipeImportCatalog,
+  options: RecipeImportOptions = {},
+): ValidationResult<RecipeImport> {
+  let document = input;
+  if (typeof input === 'string') {
+    try {
+      document = JSON.parse(input);
+    } catch {
+      return {
+        success: false,
+        errors: [
+          { path: '', code: 'invalid_type', message: 'is not valid JSON' },
+        ],
+      };
+    }
+  }
+  const node = findRecipeNode(document);
+  if (!node) {
+    return {
+      success: false,
+      errors: [
+        {
+          path: '',
+          code: 'invalid_value',
+          message: 'no schema.org Recipe found',
+        },
+      ],
+    };
+  }
+  const description = textOf(node.description);
+  return assemble(
+    {
+      name: textOf(node.name),
+      description: description || null,
+      ingredientLines: listOf(node.recipeIngredient ?? node.ingredients)
+        .map(textOf)
+        .filter((line) => line !== ''),
+      equipmentLines: listOf(node.tool)
+        .map(textOf)
+        .filter((line) => line !== ''),
+      steps: instructionSteps(node.recipeInstructions),
+    },
+    catalog,
+    options,
+  );
+}
+
+// =============================================================================
+// Text Import
+// =============================================================================
+
+type Section = 'head' | 'ingredients' | 'equipment' | 'steps';
+
+const SECTION_HEADERS: [RegExp, Section][] = [
+  [/^ingredients?$/, 'ingredients'],
+  [/^(equipment|tools|you(?:'|’)ll need|you will need)$/, 'equipment'],
+  [/^(instructions|directions|method|steps|preparation)$/, 'steps'],
+];
+
+function sectionOf(line: string): Section | null {
+  const header = line
+    .replace(/^#+\s*/, '')
+    .replace(/:$/, '')
+    .trim()
+    .toLowerCase();
+  for (const [pattern, section] of SECTION_HEADERS) {
+    if (pattern.test(header)) return section;
+  }
+  return null;
+}
+
+/**
+ * Import a recipe from pasted text: a title line, an optional description,
+ * then an ingredient list and numbered steps. "Ingredients", "Equipment"
+ * and "Instructions" headers are recognized; without them, bulleted lines
+ * are read as ingredients and numbered lines as steps.
+ *
+ * @example
+ * ```ts
+ * importRecipeFromText(
+ *   `Daiquiri
+ *
+ *    - 2 oz white rum
+ *    - 3/4 oz lime juice
+ *    - 3/4 oz simple syrup
+ *
+ *    1. Shake with ice
+ *    2. Strain into a coupe`,
+ *   { ingredients, equipment },
+ * );
+ * ```
+ */
+export function importRecipeFromText(
+  text: string,
+  catalog: RecipeImportCatalog,
+  options: RecipeImportOptions = {},
+): ValidationResult<RecipeImport> {
+  const parsed: ParsedRecipe = {
+    name: '',
+    description: null,
+    ingredientLines: [],
+    equipmentLines: [],
+    steps: [],
+  };
+  const description: string[] = [];
+  let section: Section = 'head';
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line === '') continue;
+    const header = sectionOf(line);
+    if (header) {
+      section = header;
+      continue;
+    }
+    if (section === 'ingredients') parsed.ingredientLines.push(line);
+    else if (section === 'equipment') parsed.equipmentLines.push(line);
+    else if (section === 'steps') {
+      parsed.steps.push(line.replace(BULLET, '').trim());
+    } else if (!parsed.name) {
+      parsed.name = line.replace(/^#+\s*/, '');
+    } else if (/^\d+[.)]\s/.test(line)) {
+      parsed.steps.push(line.replace(BULLET, '').trim());
+    } else if (BULLET.test(line)) {
+      parsed.ingredientLines.push(line);
+    } else {
+      description.push(line);
+    }
+  }
+  parsed.description = description.length > 0 ? description.join(' ') : null;
+  return assemble(parsed, catalog, options);
+}
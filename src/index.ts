@@ -15,64 +15,53 @@ export type {
 } from '@sudobility/types';
 
 import type { Optional } from '@sudobility/types';
+import type {
+  CollectionVisibility,
+  EquipmentSubcategory,
+  IngredientSubcategory,
+} from './enums';
+import type {
+  MixrCommonErrorCode,
+  MixrErrorCode,
+  MixrErrorDetails,
+} from './errors';
+import type { MixrPaginatedResponse } from './pagination';
+import type { RecipeDiff } from './revisions';
 
 // =============================================================================
 // Enum Types
 // =============================================================================
 
-/**
- * Equipment subcategory types
- */
-export type EquipmentSubcategory =
-  | 'essential'
-  | 'glassware'
-  | 'garnish'
-  | 'advanced';
-
-/**
- * Ingredient subcategory types
- */
-export type IngredientSubcategory =
-  | 'spirit'
-  | 'wine'
-  | 'other_alcohol'
-  | 'fruit'
-  | 'spice'
-  | 'other';
-
-/**
- * List of equipment subcategories
- */
-export const EQUIPMENT_SUBCATEGORIES: EquipmentSubcategory[] = [
-  'essential',
-  'glassware',
-  'garnish',
-  'advanced',
-];
-
-/**
- * List of ingredient subcategories
- */
-export const INGREDIENT_SUBCATEGORIES: IngredientSubcategory[] = [
-  'spirit',
-  'wine',
-  'other_alcohol',
-  'fruit',
-  'spice',
-  'other',
-];
+export type {
+  CollectionVisibility,
+  EquipmentSubcategory,
+  IngredientSubcategory,
+} from './enums';
+export {
+  COLLECTION_VISIBILITIES,
+  EQUIPMENT_SUBCATEGORIES,
+  INGREDIENT_SUBCATEGORIES,
+} from './enums';
 
 // =============================================================================
 // API Response wrapper (matches existing MixrApiResponse)
 // =============================================================================
 
 /**
- * API Response wrapper
+ * API Response wrapper. `E` lists the error codes the endpoint can return;
+ * see {@link MixrResult} for the strict success/failure union.
  */
-export interface MixrApiResponse<T = unknown> {
+export interface MixrApiResponse<
+  T = unknown,
+  E extends MixrErrorCode = MixrErrorCode,
+> {
   success: boolean;
   data?: T;
   error?: string;
+  /** Machine-readable error code, set when `success` is `false` */
+  code?: E;
+  /** Extra error payload for codes that have one (see {@link MixrErrorDetailsMap}) */
+  details?: MixrErrorDetails<E>;
   count?: number;
 }
 
@@ -127,6 +116,8 @@ export interface Ingredient {
   name: string;
   /** Optional icon image filename; null when no icon is assigned */
   icon: Optional<string>;
+  /** Alcohol by volume as a percentage (e.g., 40 for vodka); see {@link getIngredientAbv} for defaults when absent */
+  abv?: Optional<number>;
   /** ISO 8601 timestamp of when the ingredient was created */
   createdAt: string;
 }
@@ -189,7 +180,7 @@ export interface RecipeIngredient {
   name: string;
   /** Optional icon image filename; null when no icon is assigned */
   icon: Optional<string>;
-  /** Human-readable amount string (e.g., "2 oz", "1/2 cup", "1 dash") */
+  /** Human-readable amount string (e.g., "2 oz", "1/2 cup", "1 dash"); see {@link parseAmount} */
   amount: string;
 }
 
@@ -281,6 +272,64 @@ export interface RatingAggregate {
   };
 }
 
+/**
+ * A user's edit of a recipe, saved as a new recipe forked from its parent
+ * (snake_case for API compatibility)
+ */
+export interface RecipeRevision {
+  /** Unique numeric identifier */
+  id: number;
+  /** ID of the recipe holding the edited version */
+  recipe_id: number;
+  /** ID of the recipe that was edited */
+  parent_recipe_id: number;
+  /** Firebase UID of the user who made the edit */
+  user_id: string;
+  /** Short description of the edit (e.g., "Less lime, added agave syrup") */
+  summary: string;
+  /** Changes from the parent recipe to this revision; see {@link diffRecipes} */
+  diff: RecipeDiff;
+  /** ISO 8601 timestamp of when the revision was saved */
+  created_at: string;
+}
+
+/**
+ * Recipe in a collection (snake_case for API compatibility)
+ */
+export interface RecipeCollectionItem {
+  /** ID of the recipe */
+  recipe_id: number;
+  /** Optional note about the recipe in this collection (e.g., "Batch ahead") */
+  note: Optional<string>;
+  /** ISO 8601 timestamp of when the recipe was added */
+  added_at: string;
+}
+
+/**
+ * Named, ordered list of recipes curated by a user, e.g. an event menu
+ * (snake_case for API compatibility)
+ */
+export interface RecipeCollection {
+  /** Unique numeric identifier */
+  id: number;
+  /** Firebase UID of the owner */
+  user_id: string;
+  /** Display name (e.g., "Summer party") */
+  name: string;
+  /** Optional description; null when not provided */
+  description: Optional<string>;
+  /** Optional mood ID used for the cover; null when unset */
+  cover_mood_id: Optional<number>;
+  /** Whether other users can see the collection */
+  visibility: CollectionVisibility;
+  /** Recipes in display order */
+  items: RecipeCollectionItem[];
+  /** ISO 8601 timestamp of when the collection was created */
+  created_at: string;
+  /** ISO 8601 timestamp of the last change to the collection or its items */
+  updated_at: string;
+}
+
 // =============================================================================
 // Request Body Types
 // =============================================================================
@@ -333,6 +382,96 @@ export interface GenerateRecipeRequest {
   mood_id: number;
 }
 
+/**
+ * Request to save a user's edits to a recipe as a {@link RecipeRevision}.
+ * Omitted fields keep the parent recipe's value; at least one must be set.
+ */
+export interface UpdateRecipeRequest {
+  /** New display name; must be non-empty */
+  name?: string;
+  /** New description; null clears it */
+  description?: string | null;
+  /** New mood ID; null clears it */
+  mood_id?: number | null;
+  /** Full ingredient list in order; must be non-empty */
+  ingredients?: RecipeIngredient[];
+  /** Full list of steps in order; must be non-empty */
+  steps?: string[];
+  /** Full equipment list */
+  equipment?: RecipeEquipment[];
+  /** Short description of the edit; generated from the changes when omitted */
+  summary?: string;
+}
+
+/**
+ * Request to create a recipe collection
+ */
+export interface CreateCollectionRequest {
+  /** Display name; must be non-empty */
+  name: string;
+  /** Optional description */
+  description?: string | null;
+  /** Optional mood ID used for the cover */
+  cover_mood_id?: number | null;
+  /** Defaults to "private" */
+  visibility?: CollectionVisibility;
+  /** Initial recipes in order; must not repeat */
+  recipe_ids?: number[];
+}
+
+/**
+ * Request to update a collection's details. Omitted fields are unchanged;
+ * at least one must be set.
+ */
+export interface UpdateCollectionRequest {
+  /** New display name; must be non-empty */
+  name?: string;
+  /** New description; null clears it */
+  description?: string | null;
+  /** New cover mood ID; null clears it */
+  cover_mood_id?: number | null;
+  /** New visibility */
+  visibility?: CollectionVisibility;
+}
+
+/**
+ * Request to reorder a collection's recipes
+ */
+export interface ReorderCollectionRequest {
+  /** Every recipe ID in the collection, exactly once, in the new order */
+  recipe_ids: number[];
+}
+
+/**
+ * Request to add a recipe to a collection
+ */
+export interface AddCollectionItemRequest {
+  /** ID of the recipe to add */
+  recipe_id: number;
+  /** Optional note about the recipe */
+  note?: string | null;
+  /** Zero-based position to insert at; defaults to the end */
+  position?: number;
+}
+
+/**
+ * Request to change the note on a recipe in a collection
+ */
+export interface UpdateCollectionItemRequest {
+  /** ID of the recipe in the collection */
+  recipe_id: number;
+  /** New note; null clears it */
+  note: string | null;
+}
+
+/**
+ * Request to remove a recipe from a collection
+ */
+export interface RemoveCollectionItemRequest {
+  /** ID of the recipe to remove */
+  recipe_id: number;
+}
+
 // =============================================================================
 // Query Parameter Types
 // =============================================================================
@@ -352,11 +491,13 @@ export interface IngredientQueryParams {
 }
 
 /**
- * Pagination query params
+ * Pagination query params. Use either `offset` or the `next_cursor` of the
+ * previous page as `cursor`.
  */
 export interface PaginationQueryParams {
   limit?: number;
   offset?: number;
+  cursor?: string;
 }
 
 /**
@@ -365,51 +506,168 @@ export interface PaginationQueryParams {
 export interface RatingListParams {
   limit?: number;
   offset?: number;
+  cursor?: string;
   sort?: 'newest' | 'oldest' | 'highest' | 'lowest';
 }
 
 // =============================================================================
 // API Response Type Aliases
 // =============================================================================
+// The second type argument lists the error codes each endpoint can return.
 
 // Equipment responses
-export type EquipmentListResponse = MixrApiResponse<Equipment[]>;
-export type EquipmentResponse = MixrApiResponse<Equipment>;
-export type EquipmentSubcategoriesResponse = MixrApiResponse<string[]>;
+export type EquipmentListResponse = MixrApiResponse<
+  Equipment[],
+  MixrCommonErrorCode | 'VALIDATION_FAILED'
+>;
+export type EquipmentResponse = MixrApiResponse<
+  Equipment,
+  MixrCommonErrorCode | 'VALIDATION_FAILED' | 'EQUIPMENT_NOT_FOUND'
+>;
+export type EquipmentSubcategoriesResponse = MixrApiResponse<
+  string[],
+  MixrCommonErrorCode
+>;
 
 // Ingredient responses
-export type IngredientListResponse = MixrApiResponse<Ingredient[]>;
-export type IngredientResponse = MixrApiResponse<Ingredient>;
-export type IngredientSubcategoriesResponse = MixrApiResponse<string[]>;
+export type IngredientListResponse = MixrApiResponse<
+  Ingredient[],
+  MixrCommonErrorCode | 'VALIDATION_FAILED'
+>;
+export type IngredientResponse = MixrApiResponse<
+  Ingredient,
+  MixrCommonErrorCode | 'VALIDATION_FAILED' | 'INGREDIENT_NOT_FOUND'
+>;
+export type IngredientSubcategoriesResponse = MixrApiResponse<
+  string[],
+  MixrCommonErrorCode
+>;
 
 // Mood responses
-export type MoodListResponse = MixrApiResponse<Mood[]>;
-export type MoodResponse = MixrApiResponse<Mood>;
+export type MoodListResponse = MixrApiResponse<Mood[], MixrCommonErrorCode>;
+export type MoodResponse = MixrApiResponse<
+  Mood,
+  MixrCommonErrorCode | 'VALIDATION_FAILED' | 'MOOD_NOT_FOUND'
+>;
 
 // Recipe responses
-export type RecipeListResponse = MixrApiResponse<Recipe[]>;
-export type RecipeResponse = MixrApiResponse<Recipe>;
+export type RecipeListResponse = MixrPaginatedResponse<
+  Recipe,
+  MixrCommonErrorCode | 'VALIDATION_FAILED' | 'UNAUTHENTICATED'
+>;
+export type RecipeResponse = MixrApiResponse<
+  Recipe,
+  MixrCommonErrorCode | 'VALIDATION_FAILED' | 'RECIPE_NOT_FOUND'
+>;
+export type GenerateRecipeResponse = MixrApiResponse<
+  Recipe,
+  | MixrCommonErrorCode
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHENTICATED'
+  | 'EQUIPMENT_NOT_FOUND'
+  | 'INGREDIENT_NOT_FOUND'
+  | 'MOOD_NOT_FOUND'
+  | 'GENERATION_FAILED'
+>;
 
 // User responses
-export type UserResponse = MixrApiResponse<User>;
-export type UserPreferencesResponse = MixrApiResponse<UserPreferences>;
+export type UserResponse = MixrApiResponse<
+  User,
+  MixrCommonErrorCode | 'VALIDATION_FAILED' | 'UNAUTHENTICATED'
+>;
+export type UserPreferencesResponse = MixrApiResponse<
+  UserPreferences,
+  MixrCommonErrorCode | 'VALIDATION_FAILED' | 'UNAUTHENTICATED'
+>;
 
 // Favorites responses
 export interface AddFavoriteResponse {
   success: boolean;
   message: string;
+  error?: string;
+  code?:
+    | MixrCommonErrorCode
+    | 'VALIDATION_FAILED'
+    | 'UNAUTHENTICATED'
+    | 'RECIPE_NOT_FOUND'
+    | 'ALREADY_FAVORITED';
+  details?: MixrErrorDetails<MixrCommonErrorCode | 'VALIDATION_FAILED'>;
 }
 
 export interface RemoveFavoriteResponse {
   success: boolean;
   message: string;
+  error?: string;
+  code?:
+    | MixrCommonErrorCode
+    | 'VALIDATION_FAILED'
+    | 'UNAUTHENTICATED'
+    | 'FAVORITE_NOT_FOUND';
+  details?: MixrErrorDetails<MixrCommonErrorCode | 'VALIDATION_FAILED'>;
 }
 
 // Rating responses
-export type RecipeRatingResponse = MixrApiResponse<RecipeRating>;
-export type RecipeRatingListResponse = MixrApiResponse<RecipeRating[]>;
-export type RatingAggregateResponse = MixrApiResponse<RatingAggregate>;
-export type DeleteRatingResponse = MixrApiResponse<{ message: string }>;
+export type RecipeRatingResponse = MixrApiResponse<
+  RecipeRating,
+  | MixrCommonErrorCode
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHENTICATED'
+  | 'RATING_OUT_OF_RANGE'
+  | 'RECIPE_NOT_FOUND'
+>;
+export type RecipeRatingListResponse = MixrPaginatedResponse<
+  RecipeRating,
+  MixrCommonErrorCode | 'VALIDATION_FAILED' | 'RECIPE_NOT_FOUND'
+>;
+export type RatingAggregateResponse = MixrApiResponse<
+  RatingAggregate,
+  MixrCommonErrorCode | 'VALIDATION_FAILED' | 'RECIPE_NOT_FOUND'
+>;
+export type DeleteRatingResponse = MixrApiResponse<
+  { message: string },
+  | MixrCommonErrorCode
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHENTICATED'
+  | 'RATING_NOT_FOUND'
+>;
+
+// Revision responses
+export type UpdateRecipeResponse = MixrApiResponse<
+  { recipe: Recipe; revision: RecipeRevision },
+  | MixrCommonErrorCode
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHENTICATED'
+  | 'RECIPE_NOT_FOUND'
+  | 'MOOD_NOT_FOUND'
+>;
+export type RecipeRevisionListResponse = MixrPaginatedResponse<
+  RecipeRevision,
+  MixrCommonErrorCode | 'VALIDATION_FAILED' | 'RECIPE_NOT_FOUND'
+>;
+
+// Collection responses
+export type RecipeCollectionListResponse = MixrPaginatedResponse<
+  RecipeCollection,
+  MixrCommonErrorCode | 'VALIDATION_FAILED' | 'UNAUTHENTICATED'
+>;
+export type RecipeCollectionResponse = MixrApiResponse<
+  RecipeCollection,
+  | MixrCommonErrorCode
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHENTICATED'
+  | 'COLLECTION_NOT_FOUND'
+  | 'COLLECTION_ITEM_NOT_FOUND'
+  | 'ALREADY_IN_COLLECTION'
+  | 'RECIPE_NOT_FOUND'
+  | 'MOOD_NOT_FOUND'
+>;
+export type DeleteCollectionResponse = MixrApiResponse<
+  { message: string },
+  | MixrCommonErrorCode
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHENTICATED'
+  | 'COLLECTION_NOT_FOUND'
+>;
 
 // =============================================================================
 // Health check types
@@ -426,3 +684,494 @@ export interface VersionResponse {
   message: string;
   version: string;
 }
+
+// =============================================================================
+// Request Validation
+// =============================================================================
+
+export type {
+  ValidationError,
+  ValidationErrorCode,
+  ValidationResult,
+} from './validation';
+export {
+  formatValidationError,
+  validateAddCollectionItemRequest,
+  validateAddFavoriteRequest,
+  validateCreateCollectionRequest,
+  validateGenerateRecipeRequest,
+  validateRemoveCollectionItemRequest,
+  validateReorderCollectionRequest,
+  validateSubmitRatingRequest,
+  validateUpdateCollectionItemRequest,
+  validateUpdateCollectionRequest,
+  validateUpdateRecipeRequest,
+  validateUpdateUserPreferencesRequest,
+  validateUpdateUserRequest,
+} from './validation';
+
+// =============================================================================
+// Response Decoding
+// =============================================================================
+
+export type { Decoder } from './decoders';
+export {
+  arrayDecoder,
+  decodeAddFavoriteResponse,
+  decodeDeleteCollectionResponse,
+  decodeDeleteRatingResponse,
+  decodeEquipment,
+  decodeEquipmentListResponse,
+  decodeEquipmentResponse,
+  decodeEquipmentSubcategoriesResponse,
+  decodeGenerateRecipeResponse,
+  decodeHealthResponse,
+  decodeIngredient,
+  decodeIngredientListResponse,
+  decodeIngredientResponse,
+  decodeIngredientSubcategoriesResponse,
+  decodeMood,
+  decodeMoodListResponse,
+  decodeMoodResponse,
+  decodeRatingAggregate,
+  decodeRatingAggregateResponse,
+  decodeRecipe,
+  decodeRecipeCollection,
+  decodeRecipeCollectionListResponse,
+  decodeRecipeCollectionResponse,
+  decodeRecipeListResponse,
+  decodeRecipeRating,
+  decodeRecipeRatingListResponse,
+  decodeRecipeRatingResponse,
+  decodeRecipeResponse,
+  decodeRecipeRevision,
+  decodeRecipeRevisionListResponse,
+  decodeRecipeWithUser,
+  decodeRemoveFavoriteResponse,
+  decodeUpdateRecipeResponse,
+  decodeUser,
+  decodeUserPreferences,
+  decodeUserPreferencesResponse,
+  decodeUserResponse,
+  decodeVersionResponse,
+} from './decoders';
+
+// =============================================================================
+// Endpoint Contracts
+// =============================================================================
+
+export type {
+  EndpointBody,
+  EndpointErrorCode,
+  EndpointInfo,
+  EndpointKey,
+  EndpointMethod,
+  EndpointParams,
+  EndpointPath,
+  EndpointQuery,
+  EndpointResponse,
+  HttpMethod,
+  MixrEndpoints,
+  PathParams,
+} from './endpoints';
+export { MIXR_ENDPOINTS, buildEndpointPath } from './endpoints';
+
+// =============================================================================
+// Ingredient Amounts
+// =============================================================================
+
+export type {
+  AmountQuantity,
+  AmountUnit,
+  FormatAmountOptions,
+  ParsedAmount,
+} from './amount';
+export {
+  AMOUNT_UNITS,
+  formatAmount,
+  normalizeUnit,
+  parseAmount,
+} from './amount';
+
+// =============================================================================
+// Recipe Scaling
+// =============================================================================
+
+export type {
+  AmountIssue,
+  AmountIssueReason,
+  ScaleRecipeOptions,
+  ScaleRecipeResult,
+  UnitSystem,
+  VolumeUnit,
+} from './scaling';
+export {
+  ML_PER_UNIT,
+  convertAmount,
+  isVolumeUnit,
+  scaleAmount,
+  scaleRecipe,
+  toMilliliters,
+} from './scaling';
+
+// =============================================================================
+// Alcohol Content
+// =============================================================================
+
+export type {
+  AlcoholEstimate,
+  AlcoholEstimateOptions,
+  AlcoholSkipReason,
+  MixingMethod,
+  StandardDrinkRegion,
+} from './alcohol';
+export {
+  DEFAULT_ABV_BY_SUBCATEGORY,
+  DILUTION_BY_METHOD,
+  STANDARD_DRINK_GRAMS,
+  estimateRecipeAlcohol,
+  getIngredientAbv,
+  inferMixingMethod,
+} from './alcohol';
+
+// =============================================================================
+// Recipe Matching
+// =============================================================================
+
+export type {
+  MatchRecipesOptions,
+  MatchRecipesResult,
+  RecipeMatch,
+  RecipeMatchStatus,
+  UserInventory,
+} from './matching';
+export { matchRecipe, matchRecipes } from './matching';
+
+// =============================================================================
+// Shopping Lists
+// =============================================================================
+
+export type {
+  RenderShoppingListOptions,
+  ShoppingAmount,
+  ShoppingList,
+  ShoppingListGroup,
+  ShoppingListItem,
+  ShoppingListOptions,
+} from './shopping';
+export { buildShoppingList, renderShoppingList } from './shopping';
+
+// =============================================================================
+// Key Casing
+// =============================================================================
+
+export type {
+  CamelCased,
+  CamelRatingAggregate,
+  CamelRecipeCollection,
+  CamelRecipeCollectionItem,
+  CamelRecipeRating,
+  CamelRecipeRevision,
+  CamelToSnake,
+  CamelUser,
+  CamelUserPreferences,
+  SnakeCased,
+  SnakeToCamel,
+} from './casing';
+export {
+  camelCaseKeys,
+  camelToSnake,
+  snakeCaseKeys,
+  snakeToCamel,
+} from './casing';
+
+// =============================================================================
+// Error Codes
+// =============================================================================
+
+export type {
+  ErrorResponseInit,
+  MixrCommonErrorCode,
+  MixrErrorCode,
+  MixrErrorDetails,
+  MixrErrorDetailsMap,
+  MixrErrorInfo,
+  MixrErrorResponse,
+  MixrResult,
+  MixrSuccessResponse,
+  ResponseErrorCode,
+  ResponseResult,
+} from './errors';
+export {
+  MIXR_ERRORS,
+  MIXR_ERROR_CODES,
+  createErrorResponse,
+  createSuccessResponse,
+  getErrorStatus,
+  hasErrorCode,
+  isErrorResponse,
+} from './errors';
+
+// =============================================================================
+// Pagination
+// =============================================================================
+
+export type {
+  CursorPagination,
+  IteratePagesOptions,
+  MixrPageInfo,
+  MixrPaginatedResponse,
+  MixrPagination,
+  OffsetPagination,
+} from './pagination';
+export {
+  DEFAULT_PAGE_LIMIT,
+  MAX_PAGE_LIMIT,
+  fetchAllPages,
+  getNextPageQuery,
+  getPageInfo,
+  isCursorPagination,
+  iteratePages,
+} from './pagination';
+
+// =============================================================================
+// Query Strings
+// =============================================================================
+
+export type { QueryInput, RatingSortOrder } from './query';
+export {
+  RATING_SORT_ORDERS,
+  fromEquipmentQueryString,
+  fromIngredientQueryString,
+  fromPaginationQueryString,
+  fromRatingListQueryString,
+  toEquipmentQueryString,
+  toIngredientQueryString,
+  toPaginationQueryString,
+  toRatingListQueryString,
+} from './query';
+
+// =============================================================================
+// Rating Aggregates
+// =============================================================================
+
+export type { StarLevel } from './ratings';
+export {
+  STAR_LEVELS,
+  applyRatingAdd,
+  applyRatingDelete,
+  applyRatingUpdate,
+  applySubmittedRating,
+  computeRatingAggregate,
+  emptyRatingAggregate,
+} from './ratings';
+
+// =============================================================================
+// Recipe Ranking
+// =============================================================================
+
+export type {
+  BayesianAverageOptions,
+  RatedRecipe,
+  TimeDecayOptions,
+  WilsonLowerBoundOptions,
+} from './ranking';
+export {
+  bayesianAverage,
+  compareByBayesianAverage,
+  compareByTimeDecay,
+  compareByWilsonLowerBound,
+  joinRatingAggregates,
+  timeDecayedAverage,
+  wilsonLowerBound,
+} from './ranking';
+
+// =============================================================================
+// Search
+// =============================================================================
+
+export type {
+  SearchDocument,
+  SearchDocumentKind,
+  SearchEntities,
+  SearchField,
+  SearchFieldWeights,
+  SearchIndex,
+  SearchIndexOptions,
+  SearchOptions,
+  SearchResult,
+  SerializedSearchIndex,
+} from './search';
+export {
+  DEFAULT_SEARCH_FIELD_WEIGHTS,
+  createSearchIndex,
+  loadSearchIndex,
+  tokenize,
+} from './search';
+
+// =============================================================================
+// Recipe Export
+// =============================================================================
+
+export type {
+  RecipeExportOptions,
+  SchemaOrgAggregateRating,
+  SchemaOrgHowToStep,
+  SchemaOrgHowToTool,
+  SchemaOrgRecipe,
+} from './export';
+export {
+  toJsonLdScript,
+  toRecipeJsonLd,
+  toRecipeMarkdown,
+  toRecipeText,
+} from './export';
+
+// =============================================================================
+// Recipe Import
+// =============================================================================
+
+export type {
+  ImportedEquipment,
+  ImportedIngredient,
+  ImportedItem,
+  ImportedLine,
+  RecipeDraft,
+  RecipeImport,
+  RecipeImportCatalog,
+  RecipeImportOptions,
+} from './import';
+export { importRecipeFromJsonLd, importRecipeFromText } from './import';
+
+// =============================================================================
+// Similar Recipes
+// =============================================================================
+
+export type {
+  SharedFeatures,
+  SimilarRecipe,
+  SimilarRecipesOptions,
+  SimilarityFeatureKind,
+  SimilarityIndex,
+  SimilarityIndexOptions,
+  SimilarityWeights,
+} from './similarity';
+export {
+  DEFAULT_SIMILARITY_WEIGHTS,
+  createSimilarityIndex,
+} from './similarity';
+
+// =============================================================================
+// Ingredient Substitutions
+// =============================================================================
+
+export type {
+  AppliedSubstitution,
+  IngredientSubstitution,
+  ProposeSubstitutionsOptions,
+  SubstitutedRecipe,
+  SubstitutionGraph,
+} from './substitution';
+export {
+  createSubstitutionGraph,
+  proposeSubstitutedRecipes,
+} from './substitution';
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+export type {
+  MigrateOptions,
+  MigrationFailureReason,
+  MigrationResult,
+  MigrationStep,
+  PersistedEnvelope,
+  PersistedKind,
+  PersistedPayloads,
+} from './persistence';
+export {
+  PERSISTENCE_MIGRATIONS,
+  PERSISTENCE_SCHEMA_VERSIONS,
+  createPersistedEnvelope,
+  migrate,
+} from './persistence';
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+export type {
+  FixtureCatalog,
+  FixtureCorpus,
+  FixtureCorpusOptions,
+  FixtureFactory,
+  FixtureFactoryOptions,
+} from './fixtures';
+export { createFixtureFactory, generateFixtureCorpus } from './fixtures';
+
+// =============================================================================
+// Mock API
+// =============================================================================
+
+export type {
+  MockMixrApi,
+  MockMixrApiOptions,
+  MockMixrApiState,
+  MockRequest,
+  MockHeadersInit,
+  MockRequestInit,
+  MockResponse,
+} from './mock';
+export { createMockMixrApi, stubGeneratedRecipe } from './mock';
+
+// =============================================================================
+// Recipe Revisions
+// =============================================================================
+
+export type {
+  RecipeDiff,
+  RecipeDiffField,
+  RecipeFieldChange,
+  RecipeListChange,
+} from './revisions';
+export {
+  applyRecipeDiff,
+  applyRecipeUpdate,
+  diffRecipes,
+  invertRecipeDiff,
+  isEmptyRecipeDiff,
+  revertRecipeDiff,
+  summarizeRecipeDiff,
+} from './revisions';
+
+// =============================================================================
+// Recipe Collections
+// =============================================================================
+
+export type {
+  CollectionOperation,
+  CollectionOperationErrorCode,
+} from './collections';
+export { applyCollectionOperation } from './collections';
+
+// =============================================================================
+// Party Batching
+// =============================================================================
+
+export type {
+  BatchHoldReason,
+  BatchPlan,
+  BatchPlanOptions,
+  BatchedIngredient,
+  GlassStyle,
+  GlasswareCount,
+  HeldIngredient,
+  RecipeBatch,
+} from './batching';
+export {
+  BATCH_HOLD_PATTERNS,
+  CITRUS_HOLD_HOURS,
+  ICE_GRAMS_BY_GLASS_STYLE,
+  planBatches,
+} from './batching';
@@ -0,0 +1,167 @@
+/**
+ * "What can I make" matching of recipes against a user's bar.
+ *
+ * Compares each {@link Recipe} with the equipment and ingredient ids saved
+ * in {@link UserPreferences} and groups recipes into makeable now, missing
+ * ingredients only, and missing equipment.
+ */
+
+import type {
+  Recipe,
+  RecipeEquipment,
+  RecipeIngredient,
+  UserPreferences,
+} from './index';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * What a user owns: any object with equipment and ingredient id lists, such
+ * as {@link UserPreferences} or {@link UpdateUserPreferencesRequest}
+ */
+export type UserInventory = Pick<
+  UserPreferences,
+  'equipment_ids' | 'ingredient_ids'
+>;
+
+/**
+ * Whether a recipe can be made with the user's inventory
+ * - `makeable`: nothing is missing
+ * - `missing_ingredients`: all equipment is available, some ingredients are not
+ * - `missing_equipment`: some equipment is missing (ingredients may be too)
+ */
+export type RecipeMatchStatus =
+  | 'makeable'
+  | 'missing_ingredients'
+  | 'missing_equipment';
+
+/**
+ * Result of matching one recipe against a user's inventory
+ */
+export interface RecipeMatch<T extends Recipe = Recipe> {
+  /** The matched recipe */
+  recipe: T;
+  /** Match status */
+  status: RecipeMatchStatus;
+  /** Recipe ingredients the user does not have, in recipe order */
+  missingIngredients: RecipeIngredient[];
+  /** Recipe equipment the user does not have, in recipe order */
+  missingEquipment: RecipeEquipment[];
+  /** Total number of missing items */
+  missingCount: number;
+}
+
+/**
+ * Options for {@link matchRecipes}
+ */
+export interface MatchRecipesOptions {
+  /** Leave out recipes missing more than this many items in total */
+  maxMissing?: number;
+}
+
+/**
+ * Recipes grouped by {@link RecipeMatchStatus}. The two "missing" groups are
+ * ranked by how few items are missing; ties keep the input order.
+ */
+export interface MatchRecipesResult<T extends Recipe = Recipe> {
+  /** Recipes the user can make now */
+  makeable: RecipeMatch<T>[];
+  /** Recipes missing only ingredients */
+  missingIngredients: RecipeMatch<T>[];
+  /** Recipes missing at least one piece of equipment */
+  missingEquipment: RecipeMatch<T>[];
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+function matchWithSets<T extends Recipe>(
+  recipe: T,
+  equipmentIds: ReadonlySet<number>,
+  ingredientIds: ReadonlySet<number>,
+): RecipeMatch<T> {
+  const seen = new Set<number>();
+  const missingIngredients = recipe.ingredients.filter((item) => {
+    if (ingredientIds.has(item.id) || seen.has(item.id)) return false;
+    seen.add(item.id);
+    return true;
+  });
+  seen.clear();
+  const missingEquipment = recipe.equipment.filter((item) => {
+    if (equipmentIds.has(item.id) || seen.has(item.id)) return false;
+    seen.add(item.id);
+    return true;
+  });
+
+  let status: RecipeMatchStatus = 'makeable';
+  if (missingEquipment.length > 0) status = 'missing_equipment';
+  else if (missingIngredients.length > 0) status = 'missing_ingredients';
+
+  return {
+    recipe,
+    status,
+    missingIngredients,
+    missingEquipment,
+    missingCount: missingIngredients.length + missingEquipment.length,
+  };
+}
+
+/**
+ * Match a single recipe against a user's inventory
+ */
+export function matchRecipe<T extends Recipe>(
+  recipe: T,
+  inventory: UserInventory,
+): RecipeMatch<T> {
+  return matchWithSets(
+    recipe,
+    new Set(inventory.equipment_ids),
+    new Set(inventory.ingredient_ids),
+  );
+}
+
+/**
+ * Match many recipes against a user's inventory and group them by status.
+ * Runs in time linear in the total number of recipe items.
+ *
+ * @example
+ * ```ts
+ * const { makeable, missingIngredients } = matchRecipes(recipes, preferences, {
+ *   maxMissing: 2,
+ * });
+ * missingIngredients[0].missingIngredients; // e.g. [{ id: 12, name: 'Lime juice', ... }]
+ * ```
+ */
+export function matchRecipes<T extends Recipe>(
+  recipes: readonly T[],
+  inventory: UserInventory,
+  options: MatchRecipesOptions = {},
+): MatchRecipesResult<T> {
+  const equipmentIds = new Set(inventory.equipment_ids);
+  const ingredientIds = new Set(inventory.ingredient_ids);
+  const maxMissing = options.maxMissing ?? Infinity;
+
+  const result: MatchRecipesResult<T> = {
+    makeable: [],
+    missingIngredients: [],
+    missingEquipment: [],
+  };
+  for (const recipe of recipes) {
+    const match = matchWithSets(recipe, equipmentIds, ingredientIds);
+    if (match.missingCount > maxMissing) continue;
+    if (match.status === 'makeable') result.makeable.push(match);
+    else if (match.status === 'missing_ingredients') {
+      result.missingIngredients.push(match);
+    } else result.missingEquipment.push(match);
+  }
+
+  // Array.prototype.sort is stable, so ties keep the input order
+  const byMissing = (a: RecipeMatch<T>, b: RecipeMatch<T>) =>
+    a.missingCount - b.missingCount;
+  result.missingIngredients.sort(byMissing);
+  result.missingEquipment.sort(byMissing);
+  return result;
+}
@@ -0,0 +1,1112 @@
+/**
+ * In-memory implementation of the MIXR API.
+ *
+ * {@link createMockMixrApi} serves every route in {@link MIXR_ENDPOINTS}
+ * from a {@link FixtureCorpus}, with the same response shapes, error codes
+ * and HTTP statuses as the real backend. It runs entirely in process: use
+ * `handle` as a fetch handler, `fetch` as a `fetch` replacement, or `client`
+ * wherever a {@link NetworkClient} is expected. Authentication takes the
+ * bearer token as the user id, so no Firebase project is needed.
+ */
+
+import type { NetworkRequestOptions, NetworkResponse } from '@sudobility/types';
+import type {
+  Equipment,
+  GenerateRecipeRequest,
+  Ingredient,
+  IngredientSubcategory,
+  MixrApiResponse,
+  MixrErrorCode,
+  Mood,
+  NetworkClient,
+  PaginationQueryParams,
+  RatingListParams,
+  RecipeCollection,
+  RecipeRating,
+  RecipeRevision,
+  RecipeWithUser,
+  User,
+  UserPreferences,
+} from './index';
+import { EQUIPMENT_SUBCATEGORIES, INGREDIENT_SUBCATEGORIES } from './enums';
+import {
+  applyCollectionOperation,
+  type CollectionOperation,
+} from './collections';
+import {
+  MIXR_ENDPOINTS,
+  type EndpointKey,
+  type EndpointResponse,
+} from './endpoints';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  getErrorStatus,
+} from './errors';
+import { generateFixtureCorpus, type FixtureCorpus } from './fixtures';
+import type { MixrPagination } from './pagination';
+import { DEFAULT_PAGE_LIMIT } from './pagination';
+import {
+  fromEquipmentQueryString,
+  fromIngredientQueryString,
+  fromPaginationQueryString,
+  fromRatingListQueryString,
+} from './query';
+import { computeRatingAggregate } from './ratings';
+import {
+  applyRecipeUpdate,
+  diffRecipes,
+  summarizeRecipeDiff,
+} from './revisions';
+import {
+  validateAddCollectionItemRequest,
+  validateAddFavoriteRequest,
+  validateCreateCollectionRequest,
+  validateGenerateRecipeRequest,
+  validateRemoveCollectionItemRequest,
+  validateReorderCollectionRequest,
+  validateSubmitRatingRequest,
+  validateUpdateCollectionItemRequest,
+  validateUpdateCollectionRequest,
+  validateUpdateRecipeRequest,
+  validateUpdateUserPreferencesRequest,
+  validateUpdateUserRequest,
+  type ValidationError,
+} from './validation';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The parts of a Fetch API `Request` the mock reads. A real `Request` fits.
+ */
+export interface MockRequest {
+  readonly method: string;
+  /** Absolute URL or path, with the query string */
+  readonly url: string;
+  readonly headers: { get(name: string): string | null };
+  text(): Promise<string>;
+}
+
+/**
+ * The parts of a Fetch API `Response` the mock produces. At runtime the
+ * handler returns real `Response` objects.
+ */
+export interface MockResponse {
+  readonly ok: boolean;
+  readonly status: number;
+  readonly statusText: string;
+  readonly headers: {
+    get(name: string): string | null;
+    forEach(callback: (value: string, key: string) => void): void;
+  };
+  json(): Promise<unknown>;
+  text(): Promise<string>;
+}
+
+/**
+ * Headers accepted by {@link MockRequestInit}: a record, `[name, value]`
+ * pairs or a Fetch API `Headers`
+ */
+export type MockHeadersInit =
+  | Record<string, string>
+  | [string, string][]
+  | { forEach(callback: (value: string, key: string) => void): void };
+
+/**
+ * `init` accepted by {@link MockMixrApi.fetch}
+ */
+export interface MockRequestInit {
+  method?: string;
+  headers?: MockHeadersInit;
+  body?: string | null;
+}
+
+/**
+ * Mutable data behind the mock, for seeding and assertions
+ */
+export type MockMixrApiState = Omit<FixtureCorpus, 'aggregates'>;
+
+/**
+ * Options for {@link createMockMixrApi}
+ */
+export interface MockMixrApiOptions {
+  /** Initial data; copied. Defaults to `generateFixtureCorpus()` */
+  corpus?: FixtureCorpus;
+  /** Path prefix of the API (e.g., "/api/v1"); defaults to none */
+  basePath?: string;
+  /**
+   * Map a bearer token to a user id, or `null` to reject it. Defaults to
+   * accepting any non-empty token as the user id; unknown users get a
+   * profile on first use.
+   */
+  authenticate?: (token: string) => string | null;
+  /**
+   * Replace recipe generation. Return `null` to answer
+   * `GENERATION_FAILED`. Defaults to {@link stubGeneratedRecipe}.
+   */
+  generateRecipe?: (
+    request: GenerateRecipeRequest,
+    catalog: FixtureCorpus['catalog'],
+  ) => Omit<RecipeWithUser, 'id' | 'userId' | 'createdAt'> | null;
+  /** Version reported by `GET /version`; defaults to "1.0.0" */
+  version?: string;
+  /** Clock for timestamps; defaults to the current time */
+  now?: () => Date;
+}
+
+/**
+ * An in-memory MIXR API
+ */
+export interface MockMixrApi {
+  /** Fetch handler: answers a request with a JSON response */
+  handle(request: MockRequest): Promise<MockResponse>;
+  /**
+   * `fetch`-compatible function; assign with a cast, e.g.
+   * `globalThis.fetch = api.fetch as typeof fetch`
+   */
+  fetch(
+    input: string | MockRequest,
+    init?: MockRequestInit,
+  ): Promise<MockResponse>;
+  /** {@link NetworkClient} backed by the handler */
+  readonly client: NetworkClient;
+  /** Current data */
+  readonly state: MockMixrApiState;
+}
+
+// =============================================================================
+// Recipe Generation
+// =============================================================================
+
+const GENERATED_STYLES = ['Sour', 'Fizz', 'Smash', 'Highball', 'Cooler'];
+
+const GENERATED_AMOUNTS: Record<IngredientSubcategory, string> = {
+  spirit: '2 oz',
+  wine: '1 oz',
+  other_alcohol: '3/4 oz',
+  fruit: '3/4 oz',
+  spice: '2 dashes',
+  other: '1/2 oz',
+};
+
+/** FNV-1a hash, so the same request always yields the same recipe. */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+/**
+ * Deterministic stand-in for AI generation: uses up to four of the
+ * requested ingredients (spirits first) and three pieces of equipment,
+ * named after the mood and base ingredient. Expects the ids to exist in
+ * `catalog`.
+ */
+export function stubGeneratedRecipe(
+  request: GenerateRecipeRequest,
+  catalog: FixtureCorpus['catalog'],
+): Omit<RecipeWithUser, 'id' | 'userId' | 'createdAt'> {
+  const byId = <T extends { id: number }>(items: T[], ids: number[]): T[] =>
+    ids
+      .filter((id, index) => ids.indexOf(id) === index)
+      .map((id) => items.find((item) => item.id === id))
+      .filter((item): item is T => item !== undefined);
+
+  const ingredients = byId(catalog.ingredients, request.ingredient_ids)
+    .sort(
+      (a, b) =>
+        Number(b.subcategory === 'spirit') - Number(a.subcategory === 'spirit'),
+    )
+    .slice(0, 4);
+  const equipment = byId(catalog.equipment, request.equipment_ids).slice(0, 3);
+  const mood = catalog.moods.find((item) => item.id === request.mood_id);
+  const seed = hash(JSON.stringify(request));
+  const style = GENERATED_STYLES[seed % GENERATED_STYLES.length];
+  const base = ingredients[0]?.name ?? 'House';
+
+  return {
+    name: `${mood?.name ?? 'House'} ${base} ${style}`,
+    description: mood
+      ? `A ${style.toLowerCase()} for a ${mood.name.toLowerCase()} mood.`
+      : null,
+    moodId: mood?.id ?? null,
+    mood: mood ?? null,
+    ingredients: ingredients.map((item) => ({
+      id: item.id,
+      name: item.name,
+      icon: item.icon,
+      amount: GENERATED_AMOUNTS[item.subcategory],
+    })),
+    steps: [
+      'Add the ingredients to a shaker with ice',
+      'Shake until well chilled',
+      'Strain into a chilled glass',
+    ],
+    equipment: equipment.map(({ id, name, icon }) => ({ id, name, icon })),
+  };
+}
+
+// =============================================================================
+// Routing
+// =============================================================================
+
+interface RouteContext {
+  params: Record<string, string>;
+  /** Query string without the leading "?" */
+  query: string;
+  body: unknown;
+  /** Signed-in user; set for routes that require auth */
+  user: User | null;
+}
+
+type RouteHandler<K extends EndpointKey> = (
+  context: RouteContext,
+) => EndpointResponse<K>;
+
+interface CompiledRoute {
+  key: EndpointKey;
+  method: string;
+  pattern: RegExp;
+  names: string[];
+  auth: boolean;
+}
+
+function compileRoutes(): CompiledRoute[] {
+  return (Object.keys(MIXR_ENDPOINTS) as EndpointKey[]).map((key) => {
+    const info = MIXR_ENDPOINTS[key];
+    const names: string[] = [];
+    const source = info.path.replace(
+      /:([A-Za-z_][A-Za-z0-9_]*)/g,
+      (_, name) => {
+        names.push(name);
+        return '([^/]+)';
+      },
+    );
+    return {
+      key,
+      method: info.method,
+      pattern: new RegExp(`^${source}/?$`),
+      names,
+      auth: info.auth,
+    };
+  });
+}
+
+function invalid(fields: ValidationError[]) {
+  return createErrorResponse('VALIDATION_FAILED', { details: { fields } });
+}
+
+/** Parse a positive integer path param. */
+function idParam(context: RouteContext, name: string): number | null {
+  const value = context.params[name];
+  return /^[1-9]\d*$/.test(value) ? Number(value) : null;
+}
+
+/** Favorite responses repeat the error in `message`. */
+function withMessage<R extends { error: string }>(
+  response: R,
+): R & { message: string } {
+  return { ...response, message: response.error };
+}
+
+function invalidId(name: string) {
+  return invalid([
+    {
+      path: name,
+      code: 'invalid_value',
+      message: 'must be a positive integer',
+    },
+  ]);
+}
+
+function requireUser(context: RouteContext): User {
+  if (!context.user) throw new Error('Route requires an authenticated user');
+  return context.user;
+}
+
+/** Encode an offset as an opaque-looking cursor. */
+function toCursor(offset: number): string {
+  return `o${offset.toString(36)}`;
+}
+
+function fromCursor(cursor: string): number | null {
+  return /^o[0-9a-z]+$/.test(cursor) ? parseInt(cursor.slice(1), 36) : null;
+}
+
+/**
+ * One page of `items`. Offset requests get offset pagination, cursor
+ * requests cursor pagination.
+ */
+function paginate<T>(
+  items: T[],
+  params: PaginationQueryParams,
+):
+  | { success: true; data: T[]; pagination: MixrPagination }
+  | ReturnType<typeof invalid> {
+  const limit = params.limit ?? DEFAULT_PAGE_LIMIT;
+  if (params.cursor === undefined) {
+    const offset = params.offset ?? 0;
+    return {
+      success: true,
+      data: items.slice(offset, offset + limit),
+      pagination: { total: items.length, limit, offset },
+    };
+  }
+  const offset = fromCursor(params.cursor);
+  if (offset === null) {
+    return invalid([
+      {
+        path: 'cursor',
+        code: 'invalid_value',
+        message: 'is not a valid cursor',
+      },
+    ]);
+  }
+  const end = offset + limit;
+  return {
+    success: true,
+    data: items.slice(offset, end),
+    pagination: {
+      limit,
+      next_cursor: end < items.length ? toCursor(end) : null,
+      total: items.length,
+    },
+  };
+}
+
+function sortRatings(
+  ratings: RecipeRating[],
+  sort: RatingListParams['sort'] = 'newest',
+): RecipeRating[] {
+  const newest = (a: RecipeRating, b: RecipeRating) =>
+    b.created_at.localeCompare(a.created_at) || b.id - a.id;
+  const compare: Record<
+    NonNullable<RatingListParams['sort']>,
+    (a: RecipeRating, b: RecipeRating) => number
+  > = {
+    newest,
+    oldest: (a, b) => -newest(a, b),
+    highest: (a, b) => b.stars - a.stars || newest(a, b),
+    lowest: (a, b) => a.stars - b.stars || newest(a, b),
+  };
+  return ratings.slice().sort(compare[sort]);
+}
+
+// =============================================================================
+// Fetch Plumbing
+// =============================================================================
+
+interface FetchResponseConstructor {
+  new (
+    body: string,
+    init: { status: number; headers: Record<string, string> },
+  ): MockResponse;
+}
+
+function jsonResponse(status: number, body: unknown): MockResponse {
+  const { Response } = globalThis as unknown as {
+    Response?: FetchResponseConstructor;
+  };
+  if (!Response) {
+    throw new Error('createMockMixrApi needs a global Fetch API Response');
+  }
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+interface FetchHeadersConstructor {
+  new (init?: MockHeadersInit): { get(name: string): string | null };
+}
+
+/**
+ * Merge `init` over `input` the way `new Request(input, init)` would, except
+ * that headers are merged one by one instead of replaced.
+ */
+function toRequest(
+  input: string | MockRequest,
+  init: MockRequestInit = {},
+): MockRequest {
+  if (typeof input !== 'string' && Object.keys(init).length === 0) {
+    return input;
+  }
+  const { Headers } = globalThis as unknown as {
+    Headers?: FetchHeadersConstructor;
+  };
+  if (!Headers) {
+    throw new Error('createMockMixrApi needs a global Fetch API Headers');
+  }
+  const headers = new Headers(init.headers);
+  const base = typeof input === 'string' ? null : input;
+  return {
+    method: (init.method ?? base?.method ?? 'GET').toUpperCase(),
+    url: base ? base.url : (input as string),
+    headers: {
+      get: (name) => headers.get(name) ?? base?.headers.get(name) ?? null,
+    },
+    text: async () =>
+      init.body !== undefined ? (init.body ?? '') : (base?.text() ?? ''),
+  };
+}
+
+// =============================================================================
+// Mock API
+// =============================================================================
+
+/**
+ * Create an in-memory MIXR API
+ *
+ * @example
+ * ```ts
+ * const api = createMockMixrApi({ corpus: generateFixtureCorpus({ seed: 3 }) });
+ * const userId = api.state.users[0].id;
+ *
+ * const res = await api.fetch('/recipes/1/ratings?sort=highest');
+ * await api.fetch('/favorites', {
+ *   method: 'POST',
+ *   headers: { Authorization: `Bearer ${userId}` },
+ *   body: JSON.stringify({ recipe_id: 1 }),
+ * });
+ * ```
+ */
+export function createMockMixrApi(
+  options: MockMixrApiOptions = {},
+): MockMixrApi {
+  const corpus: FixtureCorpus = JSON.parse(
+    JSON.stringify(options.corpus ?? generateFixtureCorpus()),
+  );
+  const state: MockMixrApiState = {
+    catalog: corpus.catalog,
+    users: corpus.users,
+    preferences: corpus.preferences,
+    recipes: corpus.recipes,
+    ratings: corpus.ratings,
+    favorites: corpus.favorites,
+    revisions: corpus.revisions,
+    collections: corpus.collections,
+  };
+  const now = () => (options.now ? options.now() : new Date()).toISOString();
+  const authenticate =
+    options.authenticate ?? ((token: string) => token || null);
+  const generate = options.generateRecipe ?? stubGeneratedRecipe;
+  const basePath = (options.basePath ?? '').replace(/\/$/, '');
+  const routes = compileRoutes();
+
+  const findRecipe = (id: number) =>
+    state.recipes.find((recipe) => recipe.id === id);
+  const userFor = (id: string): User => {
+    let user = state.users.find((item) => item.id === id);
+    if (!user) {
+      const timestamp = now();
+      user = {
+        id,
+        email: `${id.toLowerCase()}@example.com`,
+        display_name: id,
+        created_at: timestamp,
+        updated_at: timestamp,
+      };
+      state.users.push(user);
+    }
+    return user;
+  };
+  const preferencesFor = (userId: string): UserPreferences =>
+    state.preferences[userId] ?? {
+      equipment_ids: [],
+      ingredient_ids: [],
+      updated_at: userFor(userId).created_at,
+    };
+  const catalogItem = <T extends Equipment | Ingredient | Mood>(
+    items: T[],
+    context: RouteContext,
+  ): T | null | undefined => {
+    const id = idParam(context, 'id');
+    return id === null ? null : items.find((item) => item.id === id);
+  };
+  /** First catalog id in `ids` that does not exist, if any. */
+  const unknownId = (items: { id: number }[], ids: number[]) =>
+    ids.find((id) => !items.some((item) => item.id === id));
+
+  /**
+   * Collection `:id` if the signed-in user owns it, or may see it when
+   * `owned` is false. Other users' private collections are not found.
+   */
+  const collectionFor = (
+    context: RouteContext,
+    owned: boolean,
+  ): RecipeCollection | null | undefined => {
+    const user = requireUser(context);
+    const id = idParam(context, 'id');
+    if (id === null) return null;
+    return state.collections.find(
+      (collection) =>
+        collection.id === id &&
+        (collection.user_id === user.id ||
+          (!owned && collection.visibility === 'public')),
+    );
+  };
+  /** Apply `operation` to the user's collection `:id` and store the result. */
+  const updateCollection = (
+    context: RouteContext,
+    operation: CollectionOperation,
+  ) => {
+    const collection = collectionFor(context, true);
+    if (collection === null) return invalidId('id');
+    if (!collection) return createErrorResponse('COLLECTION_NOT_FOUND');
+    const result = applyCollectionOperation(collection, operation, now());
+    if (result.success) {
+      state.collections[state.collections.indexOf(collection)] = result.data;
+    }
+    return result;
+  };
+
+  const handlers: { [K in EndpointKey]: RouteHandler<K> } = {
+    'GET /health': () => ({ success: true, status: 'ok', timestamp: now() }),
+    'GET /version': () => ({
+      success: true,
+      message: 'MIXR API',
+      version: options.version ?? '1.0.0',
+    }),
+
+    'GET /equipment': ({ query }) => {
+      const params = fromEquipmentQueryString(query);
+      if (!params.success) return invalid(params.errors);
+      const { subcategory } = params.value;
+      const data = state.catalog.equipment.filter(
+        (item) => !subcategory || item.subcategory === subcategory,
+      );
+      return createSuccessResponse(data, data.length);
+    },
+    'GET /equipment/subcategories': () =>
+      createSuccessResponse(EQUIPMENT_SUBCATEGORIES.slice()),
+    'GET /equipment/:id': (context) => {
+      const item = catalogItem(state.catalog.equipment, context);
+      if (item === null) return invalidId('id');
+      if (!item) return createErrorResponse('EQUIPMENT_NOT_FOUND');
+      return createSuccessResponse(item);
+    },
+
+    'GET /ingredients': ({ query }) => {
+      const params = fromIngredientQueryString(query);
+      if (!params.success) return invalid(params.errors);
+      const { subcategory } = params.value;
+      const data = state.catalog.ingredients.filter(
+        (item) => !subcategory || item.subcategory === subcategory,
+      );
+      return createSuccessResponse(data, data.length);
+    },
+    'GET /ingredients/subcategories': () =>
+      createSuccessResponse(INGREDIENT_SUBCATEGORIES.slice()),
+    'GET /ingredients/:id': (context) => {
+      const item = catalogItem(state.catalog.ingredients, context);
+      if (item === null) return invalidId('id');
+      if (!item) return createErrorResponse('INGREDIENT_NOT_FOUND');
+      return createSuccessResponse(item);
+    },
+
+    'GET /moods': () =>
+      createSuccessResponse(state.catalog.moods, state.catalog.moods.length),
+    'GET /moods/:id': (context) => {
+      const item = catalogItem(state.catalog.moods, context);
+      if (item === null) return invalidId('id');
+      if (!item) return createErrorResponse('MOOD_NOT_FOUND');
+      return createSuccessResponse(item);
+    },
+
+    'POST /recipes/generate': (context) => {
+      const user = requireUser(context);
+      const request = validateGenerateRecipeRequest(context.body);
+      if (!request.success) return invalid(request.errors);
+      const { equipment_ids, ingredient_ids, mood_id } = request.value;
+      if (unknownId(state.catalog.equipment, equipment_ids) !== undefined) {
+        return createErrorResponse('EQUIPMENT_NOT_FOUND');
+      }
+      if (unknownId(state.catalog.ingredients, ingredient_ids) !== undefined) {
+        return createErrorResponse('INGREDIENT_NOT_FOUND');
+      }
+      if (unknownId(state.catalog.moods, [mood_id]) !== undefined) {
+        return createErrorResponse('MOOD_NOT_FOUND');
+      }
+      const generated = generate(request.value, state.catalog);
+      if (!generated) return createErrorResponse('GENERATION_FAILED');
+      const recipe: RecipeWithUser = {
+        ...generated,
+        id: state.recipes.reduce((max, item) => Math.max(max, item.id), 0) + 1,
+        createdAt: now(),
+        userId: user.id,
+      };
+      state.recipes.push(recipe);
+      return createSuccessResponse(recipe);
+    },
+    'GET /recipes': ({ query }) => {
+      const params = fromPaginationQueryString(query);
+      if (!params.success) return invalid(params.errors);
+      return paginate(state.recipes, params.value);
+    },
+    'GET /recipes/:id': (context) => {
+      const id = idParam(context, 'id');
+      if (id === null) return invalidId('id');
+      const recipe = findRecipe(id);
+      if (!recipe) return createErrorResponse('RECIPE_NOT_FOUND');
+      return createSuccessResponse(recipe);
+    },
+    'PUT /recipes/:id': (context) => {
+      const user = requireUser(context);
+      const id = idParam(context, 'id');
+      if (id === null) return invalidId('id');
+      const request = validateUpdateRecipeRequest(context.body);
+      if (!request.success) return invalid(request.errors);
+      const parent = findRecipe(id);
+      if (!parent) return createErrorResponse('RECIPE_NOT_FOUND');
+      const { mood_id, summary } = request.value;
+      if (
+        mood_id !== undefined &&
+        mood_id !== null &&
+        unknownId(state.catalog.moods, [mood_id]) !== undefined
+      ) {
+        return createErrorResponse('MOOD_NOT_FOUND');
+      }
+
+      const timestamp = now();
+      const recipe: RecipeWithUser = {
+        ...applyRecipeUpdate(parent, request.value, state.catalog.moods),
+        id: state.recipes.reduce((max, item) => Math.max(max, item.id), 0) + 1,
+        createdAt: timestamp,
+        userId: user.id,
+      };
+      const diff = diffRecipes(parent, recipe);
+      const revision: RecipeRevision = {
+        id:
+          state.revisions.reduce((max, item) => Math.max(max, item.id), 0) + 1,
+        recipe_id: recipe.id,
+        parent_recipe_id: parent.id,
+        user_id: user.id,
+        summary: summary?.trim() || summarizeRecipeDiff(diff),
+        diff,
+        created_at: timestamp,
+      };
+      state.recipes.push(recipe);
+      state.revisions.push(revision);
+      return createSuccessResponse({ recipe, revision });
+    },
+    'GET /recipes/:id/revisions': (context) => {
+      const id = idParam(context, 'id');
+      if (id === null) return invalidId('id');
+      if (!findRecipe(id)) return createErrorResponse('RECIPE_NOT_FOUND');
+      const params = fromPaginationQueryString(context.query);
+      if (!params.success) return invalid(params.errors);
+      const revisions = state.revisions
+        .filter((revision) => revision.parent_recipe_id === id)
+        .sort(
+          (a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id,
+        );
+      return paginate(revisions, params.value);
+    },
+
+    'GET /users/me': (context) => createSuccessResponse(requireUser(context)),
+    'PUT /users/me': (context) => {
+      const user = requireUser(context);
+      const request = validateUpdateUserRequest(context.body);
+      if (!request.success) return invalid(request.errors);
+      user.display_name = request.value.display_name.trim();
+      user.updated_at = now();
+      return createSuccessResponse(user);
+    },
+    'GET /users/me/preferences': (context) =>
+      createSuccessResponse(preferencesFor(requireUser(context).id)),
+    'PUT /users/me/preferences': (context) => {
+      const user = requireUser(context);
+      const request = validateUpdateUserPreferencesRequest(context.body);
+      if (!request.success) return invalid(request.errors);
+      const { equipment_ids, ingredient_ids } = request.value;
+      if (unknownId(state.catalog.equipment, equipment_ids) !== undefined) {
+        return createErrorResponse('VALIDATION_FAILED', {
+          message: 'Unknown equipment id',
+          details: {
+            fields: [
+              {
+                path: 'equipment_ids',
+                code: 'invalid_value',
+                message: 'contains an unknown id',
+              },
+            ],
+          },
+        });
+      }
+      if (unknownId(state.catalog.ingredients, ingredient_ids) !== undefined) {
+        return createErrorResponse('VALIDATION_FAILED', {
+          message: 'Unknown ingredient id',
+          details: {
+            fields: [
+              {
+                path: 'ingredient_ids',
+                code: 'invalid_value',
+                message: 'contains an unknown id',
+              },
+            ],
+          },
+        });
+      }
+      const preferences: UserPreferences = {
+        equipment_ids: [...new Set(equipment_ids)],
+        ingredient_ids: [...new Set(ingredient_ids)],
+        updated_at: now(),
+      };
+      state.preferences[user.id] = preferences;
+      return createSuccessResponse(preferences);
+    },
+    'GET /users/me/recipes': (context) => {
+      const user = requireUser(context);
+      const params = fromPaginationQueryString(context.query);
+      if (!params.success) return invalid(params.errors);
+      return paginate(
+        state.recipes.filter((recipe) => recipe.userId === user.id),
+        params.value,
+      );
+    },
+
+    'GET /favorites': (context) => {
+      const user = requireUser(context);
+      const params = fromPaginationQueryString(context.query);
+      if (!params.success) return invalid(params.errors);
+      const recipes = (state.favorites[user.id] ?? [])
+        .map(findRecipe)
+        .filter((recipe): recipe is RecipeWithUser => recipe !== undefined);
+      return paginate(recipes, params.value);
+    },
+    'POST /favorites': (context) => {
+      const user = requireUser(context);
+      const request = validateAddFavoriteRequest(context.body);
+      if (!request.success) return withMessage(invalid(request.errors));
+      const { recipe_id } = request.value;
+      if (!findRecipe(recipe_id)) {
+        return withMessage(createErrorResponse('RECIPE_NOT_FOUND'));
+      }
+      const favorites = state.favorites[user.id] ?? [];
+      if (favorites.includes(recipe_id)) {
+        return withMessage(createErrorResponse('ALREADY_FAVORITED'));
+      }
+      state.favorites[user.id] = [...favorites, recipe_id];
+      return { success: true, message: 'Recipe added to favorites' };
+    },
+    'DELETE /favorites/:recipeId': (context) => {
+      const user = requireUser(context);
+      const id = idParam(context, 'recipeId');
+      if (id === null) return withMessage(invalidId('recipeId'));
+      const favorites = state.favorites[user.id] ?? [];
+      if (!favorites.includes(id)) {
+        return withMessage(createErrorResponse('FAVORITE_NOT_FOUND'));
+      }
+      state.favorites[user.id] = favorites.filter((item) => item !== id);
+      return { success: true, message: 'Recipe removed from favorites' };
+    },
+
+    'GET /collections': (context) => {
+      const user = requireUser(context);
+      const params = fromPaginationQueryString(context.query);
+      if (!params.success) return invalid(params.errors);
+      return paginate(
+        state.collections.filter((item) => item.user_id === user.id),
+        params.value,
+      );
+    },
+    'POST /collections': (context) => {
+      const user = requireUser(context);
+      const request = validateCreateCollectionRequest(context.body);
+      if (!request.success) return invalid(request.errors);
+      const { name, description, cover_mood_id, visibility, recipe_ids } =
+        request.value;
+      if (
+        cover_mood_id !== undefined &&
+        cover_mood_id !== null &&
+        unknownId(state.catalog.moods, [cover_mood_id]) !== undefined
+      ) {
+        return createErrorResponse('MOOD_NOT_FOUND');
+      }
+      if (unknownId(state.recipes, recipe_ids ?? []) !== undefined) {
+        return createErrorResponse('RECIPE_NOT_FOUND');
+      }
+
+      const timestamp = now();
+      const collection: RecipeCollection = {
+        id:
+          state.collections.reduce((max, item) => Math.max(max, item.id), 0) +
+          1,
+        user_id: user.id,
+        name: name.trim(),
+        description: description ?? null,
+        cover_mood_id: cover_mood_id ?? null,
+        visibility: visibility ?? 'private',
+        items: (recipe_ids ?? []).map((recipe_id) => ({
+          recipe_id,
+          note: null,
+          added_at: timestamp,
+        })),
+        created_at: timestamp,
+        updated_at: timestamp,
+      };
+      state.collections.push(collection);
+      return createSuccessResponse(collection);
+    },
+    'GET /collections/:id': (context) => {
+      const collection = collectionFor(context, false);
+      if (collection === null) return invalidId('id');
+      if (!collection) return createErrorResponse('COLLECTION_NOT_FOUND');
+      return createSuccessResponse(collection);
+    },
+    'PUT /collections/:id': (context) => {
+      const request = validateUpdateCollectionRequest(context.body);
+      if (!request.success) return invalid(request.errors);
+      const { cover_mood_id } = request.value;
+      if (
+        cover_mood_id !== undefined &&
+        cover_mood_id !== null &&
+        unknownId(state.catalog.moods, [cover_mood_id]) !== undefined
+      ) {
+        return createErrorResponse('MOOD_NOT_FOUND');
+      }
+      return updateCollection(context, { type: 'update', ...request.value });
+    },
+    'DELETE /collections/:id': (context) => {
+      const collection = collectionFor(context, true);
+      if (collection === null) return invalidId('id');
+      if (!collection) return createErrorResponse('COLLECTION_NOT_FOUND');
+      state.collections.splice(state.collections.indexOf(collection), 1);
+      return createSuccessResponse({ message: 'Collection deleted' });
+    },
+    'PUT /collections/:id/order': (context) => {
+      const request = validateReorderCollectionRequest(context.body);
+      if (!request.success) return invalid(request.errors);
+      return updateCollection(context, { type: 'reorder', ...request.value });
+    },
+    'POST /collections/:id/items': (context) => {
+      const request = validateAddCollectionItemRequest(context.body);
+      if (!request.success) return invalid(request.errors);
+      if (!findRecipe(request.value.recipe_id)) {
+        return createErrorResponse('RECIPE_NOT_FOUND');
+      }
+      return updateCollection(context, { type: 'add_item', ...request.value });
+    },
+    'PUT /collections/:id/items': (context) => {
+      const request = validateUpdateCollectionItemRequest(context.body);
+      if (!request.success) return invalid(request.errors);
+      return updateCollection(context, {
+        type: 'update_item',
+        ...request.value,
+      });
+    },
+    'DELETE /collections/:id/items': (context) => {
+      const request = validateRemoveCollectionItemRequest(context.body);
+      if (!request.success) return invalid(request.errors);
+      return updateCollection(context, {
+        type: 'remove_item',
+        ...request.value,
+      });
+    },
+
+    'GET /recipes/:id/ratings': (context) => {
+      const id = idParam(context, 'id');
+      if (id === null) return invalidId('id');
+      if (!findRecipe(id)) return createErrorResponse('RECIPE_NOT_FOUND');
+      const params = fromRatingListQueryString(context.query);
+      if (!params.success) return invalid(params.errors);
+      const ratings = state.ratings.filter((rating) => rating.recipe_id === id);
+      return paginate(sortRatings(ratings, params.value.sort), params.value);
+    },
+    'GET /recipes/:id/ratings/aggregate': (context) => {
+      const id = idParam(context, 'id');
+      if (id === null) return invalidId('id');
+      if (!findRecipe(id)) return createErrorResponse('RECIPE_NOT_FOUND');
+      return createSuccessResponse(computeRatingAggregate(id, state.ratings));
+    },
+    'POST /recipes/:id/ratings': (context) => {
+      const user = requireUser(context);
+      const id = idParam(context, 'id');
+      if (id === null) return invalidId('id');
+      const request = validateSubmitRatingRequest(context.body);
+      if (!request.success) {
+        const outOfRange = request.errors.some(
+          (error) => error.code === 'too_small' || error.code === 'too_large',
+        );
+        return outOfRange
+          ? createErrorResponse('RATING_OUT_OF_RANGE')
+          : invalid(request.errors);
+      }
+      if (!findRecipe(id)) return createErrorResponse('RECIPE_NOT_FOUND');
+
+      const timestamp = now();
+      const { stars, review } = request.value;
+      const existing = state.ratings.find(
+        (rating) => rating.recipe_id === id && rating.user_id === user.id,
+      );
+      if (existing) {
+        existing.stars = stars;
+        existing.review = review ?? null;
+        existing.updated_at = timestamp;
+        return createSuccessResponse(existing);
+      }
+      const rating: RecipeRating = {
+        id: state.ratings.reduce((max, item) => Math.max(max, item.id), 0) + 1,
+        recipe_id: id,
+        user_id: user.id,
+        user_name: user.display_name,
+        user_email: user.email,
+        stars,
+        review: review ?? null,
+        created_at: timestamp,
+        updated_at: timestamp,
+      };
+      state.ratings.push(rating);
+      return createSuccessResponse(rating);
+    },
+    'DELETE /recipes/:id/ratings': (context) => {
+      const user = requireUser(context);
+      const id = idParam(context, 'id');
+      if (id === null) return invalidId('id');
+      const index = state.ratings.findIndex(
+        (rating) => rating.recipe_id === id && rating.user_id === user.id,
+      );
+      if (index === -1) return createErrorResponse('RATING_NOT_FOUND');
+      state.ratings.splice(index, 1);
+      return createSuccessResponse({ message: 'Rating deleted' });
+    },
+  };
+
+  const dispatch = async (request: MockRequest): Promise<unknown> => {
+    const [rawPath, query = ''] = request.url
+      .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '')
+      .split('#')[0]
+      .split('?');
+    const path =
+      basePath && rawPath.startsWith(basePath)
+        ? rawPath.slice(basePath.length) || '/'
+        : rawPath;
+    const method = request.method.toUpperCase();
+
+    for (const route of routes) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+
+      const params: Record<string, string> = {};
+      for (const [index, name] of route.names.entries()) {
+        try {
+          params[name] = decodeURIComponent(match[index + 1]);
+        } catch {
+          return invalid([
+            {
+              path: name,
+              code: 'invalid_value',
+              message: 'is not a valid URL component',
+            },
+          ]);
+        }
+      }
+
+      let user: User | null = null;
+      if (route.auth) {
+        const header = request.headers.get('authorization') ?? '';
+        const token = /^Bearer\s+(.+)$/i.exec(header)?.[1].trim() ?? '';
+        const userId = token ? authenticate(token) : null;
+        if (!userId) return createErrorResponse('UNAUTHENTICATED');
+        user = userFor(userId);
+      }
+
+      let body: unknown;
+      const text = await request.text();
+      if (text !== '') {
+        try {
+          body = JSON.parse(text);
+        } catch {
+          return invalid([
+            { path: '', code: 'invalid_type', message: 'body is not JSON' },
+          ]);
+        }
+      }
+
+      const handler = handlers[route.key] as RouteHandler<EndpointKey>;
+      return handler({ params, query, body, user });
+    }
+    return createErrorResponse('NOT_FOUND', {
+      message: `Cannot ${method} ${path}`,
+    });
+  };
+
+  const handle = async (request: MockRequest): Promise<MockResponse> => {
+    let body: unknown;
+    try {
+      body = await dispatch(request);
+    } catch {
+      body = createErrorResponse('INTERNAL_ERROR');
+    }
+    const response = body as MixrApiResponse & { code?: MixrErrorCode };
+    let status = 200;
+    if (response.success === false) {
+      status = response.code ? getErrorStatus(response.code) : 404;
+    }
+    return jsonResponse(status, body);
+  };
+
+  const fetch = (input: string | MockRequest, init?: MockRequestInit) =>
+    handle(toRequest(input, init));
+
+  const send = async <T>(
+    url: string,
+    method: string,
+    body: unknown,
+    requestOptions: NetworkRequestOptions | null | undefined,
+  ): Promise<NetworkResponse<T>> => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...(body === undefined ? {} : { 'content-type': 'application/json' }),
+        ...(requestOptions?.headers ?? {}),
+      },
+      body:
+        body === undefined
+          ? undefined
+          : typeof body === 'string'
+            ? body
+            : JSON.stringify(body),
+    });
+    const data = (await response.json()) as T & { error?: string };
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      success: response.ok,
+      data,
+      error: response.ok ? undefined : data.error,
+      timestamp: now(),
+    };
+  };
+
+  const client: NetworkClient = {
+    request: (url, requestOptions) =>
+      send(
+        url,
+        requestOptions?.method ?? 'GET',
+        requestOptions?.body ?? undefined,
+        requestOptions,
+      ),
+    get: (url, requestOptions) => send(url, 'GET', undefined, requestOptions),
+    post: (url, body, requestOptions) =>
+      send(url, 'POST', body ?? undefined, requestOptions),
+    put: (url, body, requestOptions) =>
+      send(url, 'PUT', body ?? undefined, requestOptions),
+    delete: (url, requestOptions) =>
+      send(url, 'DELETE', undefined, requestOptions),
+  };
+
+  return { handle, fetch, client, state };
+}
@@ -0,0 +1,219 @@
+/**
+ * Paginated list responses.
+ *
+ * List endpoints return a `pagination` block next to `data`: offset-based
+ * pages carry `total`, `limit` and `offset`, cursor-based pages carry an
+ * opaque `next_cursor`. The helpers here turn that block into the
+ * {@link PaginationInfo} shape from `@sudobility/types`, build the query
+ * for the next page and walk every page through a fetch callback.
+ */
+
+import type {
+  MixrApiResponse,
+  PaginationInfo,
+  PaginationQueryParams,
+} from './index';
+import type { MixrErrorCode } from './errors';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Pagination block of an offset-based page
+ */
+export interface OffsetPagination {
+  /** Total number of items across all pages */
+  total: number;
+  /** Page size used by the server */
+  limit: number;
+  /** Index of the first item on this page */
+  offset: number;
+}
+
+/**
+ * Pagination block of a cursor-based page
+ */
+export interface CursorPagination {
+  /** Page size used by the server */
+  limit: number;
+  /** Opaque cursor for the next page; `null` on the last page */
+  next_cursor: string | null;
+  /** Total number of items, when the server knows it cheaply */
+  total?: number;
+}
+
+/**
+ * Pagination block of a list response
+ */
+export type MixrPagination = OffsetPagination | CursorPagination;
+
+/**
+ * {@link MixrApiResponse} for a list endpoint. `pagination` is set on
+ * successful responses.
+ */
+export interface MixrPaginatedResponse<
+  T,
+  E extends MixrErrorCode = MixrErrorCode,
+> extends MixrApiResponse<T[], E> {
+  pagination?: MixrPagination;
+}
+
+/**
+ * Page info in the {@link PaginationInfo} shape, plus 1-based page numbers
+ * for offset-based pages
+ */
+export interface MixrPageInfo extends PaginationInfo {
+  /** Current page number, starting at 1 (offset-based pages only) */
+  page?: number;
+  /** Number of pages (offset-based pages only) */
+  totalPages?: number;
+}
+
+/**
+ * Options for {@link iteratePages} and {@link fetchAllPages}
+ */
+export interface IteratePagesOptions {
+  /** Stop after this many pages */
+  maxPages?: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Page size the API uses when `limit` is omitted */
+export const DEFAULT_PAGE_LIMIT = 20;
+
+/** Largest `limit` the API accepts */
+export const MAX_PAGE_LIMIT = 100;
+
+// =============================================================================
+// Page Info
+// =============================================================================
+
+/**
+ * Whether a pagination block is cursor-based
+ */
+export function isCursorPagination(
+  pagination: MixrPagination,
+): pagination is CursorPagination {
+  return 'next_cursor' in pagination;
+}
+
+/**
+ * Compute page info for a list response. Responses without a `pagination`
+ * block are treated as a single page.
+ *
+ * @example
+ * ```ts
+ * const info = getPageInfo(res);
+ * // { hasNextPage: true, hasPreviousPage: false, totalCount: 42, pageSize: 20, page: 1, totalPages: 3 }
+ * ```
+ */
+export function getPageInfo<T>(
+  response: MixrPaginatedResponse<T>,
+): MixrPageInfo {
+  const itemCount = response.data?.length ?? 0;
+  const { pagination } = response;
+  if (!pagination) {
+    return {
+      hasNextPage: false,
+      hasPreviousPage: false,
+      totalCount: response.count ?? itemCount,
+      pageSize: itemCount,
+    };
+  }
+  if (isCursorPagination(pagination)) {
+    return {
+      hasNextPage: pagination.next_cursor !== null,
+      nextCursor: pagination.next_cursor,
+      totalCount: pagination.total ?? null,
+      pageSize: pagination.limit,
+    };
+  }
+  const { total, limit, offset } = pagination;
+  return {
+    hasNextPage: itemCount > 0 && offset + limit < total,
+    hasPreviousPage: offset > 0,
+    totalCount: total,
+    pageSize: limit,
+    page: limit > 0 ? Math.floor(offset / limit) + 1 : 1,
+    totalPages: limit > 0 ? Math.ceil(total / limit) : 1,
+  };
+}
+
+/**
+ * Build the query for the page after `response`, keeping the other params
+ * of `query` (e.g., `sort`). Returns `null` on the last page.
+ *
+ * @example
+ * ```ts
+ * const next = getNextPageQuery({ sort: 'highest', limit: 20 }, res);
+ * // { sort: 'highest', limit: 20, offset: 20 }
+ * ```
+ */
+export function getNextPageQuery<Q extends PaginationQueryParams>(
+  query: Q,
+  response: MixrPaginatedResponse<unknown>,
+): Q | null {
+  const { pagination } = response;
+  if (!pagination || !getPageInfo(response).hasNextPage) return null;
+  if (isCursorPagination(pagination)) {
+    const next: Q = { ...query, cursor: pagination.next_cursor ?? undefined };
+    delete next.offset;
+    return next;
+  }
+  return { ...query, offset: pagination.offset + pagination.limit };
+}
+
+// =============================================================================
+// Iteration
+// =============================================================================
+
+/**
+ * Fetch pages one after another, yielding the items of each page. Throws
+ * when a page comes back as an error response.
+ *
+ * @example
+ * ```ts
+ * for await (const ratings of iteratePages(
+ *   (query) => api.get('GET /recipes/:id/ratings', { id }, query),
+ *   { sort: 'newest', limit: 50 },
+ * )) {
+ *   render(ratings);
+ * }
+ * ```
+ */
+export async function* iteratePages<T, Q extends PaginationQueryParams>(
+  fetchPage: (query: Q) => Promise<MixrPaginatedResponse<T>>,
+  query: Q,
+  options: IteratePagesOptions = {},
+): AsyncGenerator<T[], void, undefined> {
+  const maxPages = options.maxPages ?? Infinity;
+  let next: Q | null = query;
+  for (let pages = 0; next !== null && pages < maxPages; pages++) {
+    const response = await fetchPage(next);
+    if (!response.success || response.data === undefined) {
+      const reason = response.code ?? response.error ?? 'no data';
+      throw new Error(`Failed to fetch page ${pages + 1}: ${reason}`);
+    }
+    yield response.data;
+    next = getNextPageQuery(next, response);
+  }
+}
+
+/**
+ * Fetch every page and return all items in order
+ */
+export async function fetchAllPages<T, Q extends PaginationQueryParams>(
+  fetchPage: (query: Q) => Promise<MixrPaginatedResponse<T>>,
+  query: Q,
+  options: IteratePagesOptions = {},
+): Promise<T[]> {
+  const items: T[] = [];
+  for await (const page of iteratePages(fetchPage, query, options)) {
+    items.push(...page);
+  }
+  return items;
+}
@@ -0,0 +1,303 @@
+/**
+ * Versioned persistence format for entities cached on the client.
+ *
+ * Cached values are stored in a {@link PersistedEnvelope} that records the
+ * schema version of its payload. When an entity type changes, its version
+ * in {@link PERSISTENCE_SCHEMA_VERSIONS} is bumped and a step upgrading the
+ * previous version is added to {@link PERSISTENCE_MIGRATIONS}.
+ * {@link migrate} then brings any stored envelope up to date, or reports
+ * why it cannot so the client can drop it and refetch.
+ */
+
+import type {
+  Recipe,
+  RecipeRating,
+  RecipeWithUser,
+  UserPreferences,
+} from './index';
+import {
+  arrayDecoder,
+  decodeRecipe,
+  decodeRecipeRating,
+  decodeRecipeWithUser,
+  decodeUserPreferences,
+  type Decoder,
+} from './decoders';
+import { describeType, isRecord, type ValidationError } from './validation';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Current payload type of each persisted entity kind
+ */
+export interface PersistedPayloads {
+  recipe: RecipeWithUser;
+  preferences: UserPreferences;
+  favorites: Recipe[];
+  ratings: RecipeRating[];
+}
+
+/**
+ * Kind of persisted entity
+ */
+export type PersistedKind = keyof PersistedPayloads;
+
+/**
+ * Stored form of a cached entity. Distributes over `K`, so checking `kind`
+ * narrows `payload`.
+ */
+export type PersistedEnvelope<K extends PersistedKind = PersistedKind> =
+  K extends PersistedKind
+    ? {
+        /** Version of the payload schema for this kind */
+        schemaVersion: number;
+        kind: K;
+        payload: PersistedPayloads[K];
+      }
+    : never;
+
+/**
+ * Upgrade a payload from one schema version to the next. Throws when the
+ * payload cannot be upgraded.
+ */
+export type MigrationStep = (payload: unknown) => unknown;
+
+/**
+ * Why a stored value could not be migrated
+ * - `invalid_json`: the string is not JSON
+ * - `invalid_envelope`: not a `{ schemaVersion, kind, payload }` object
+ * - `unknown_kind`: `kind` is not a {@link PersistedKind}
+ * - `kind_mismatch`: `kind` differs from the expected kind
+ * - `future_version`: written by a newer version of this package
+ * - `missing_migration`: no step upgrades the stored version
+ * - `migration_failed`: a migration step threw
+ * - `invalid_payload`: the upgraded payload does not match the current type
+ */
+export type MigrationFailureReason =
+  | 'invalid_json'
+  | 'invalid_envelope'
+  | 'unknown_kind'
+  | 'kind_mismatch'
+  | 'future_version'
+  | 'missing_migration'
+  | 'migration_failed'
+  | 'invalid_payload';
+
+/**
+ * Outcome of {@link migrate}
+ */
+export type MigrationResult<K extends PersistedKind = PersistedKind> =
+  | {
+      success: true;
+      /** Envelope at the current schema version */
+      envelope: PersistedEnvelope<K>;
+      /** Version the stored value had */
+      fromVersion: number;
+      /** Whether any migration step ran */
+      migrated: boolean;
+    }
+  | {
+      success: false;
+      reason: MigrationFailureReason;
+      message: string;
+      /** Payload mismatches when `reason` is `invalid_payload` */
+      errors?: ValidationError[];
+    };
+
+/**
+ * Options for {@link migrate}
+ */
+export interface MigrateOptions<K extends PersistedKind> {
+  /** Kind the caller expects; other kinds fail with `kind_mismatch` */
+  kind?: K;
+}
+
+// =============================================================================
+// Versions and Migrations
+// =============================================================================
+
+/**
+ * Current schema version of each kind
+ */
+export const PERSISTENCE_SCHEMA_VERSIONS: Readonly<
+  Record<PersistedKind, number>
+> = {
+  recipe: 2,
+  preferences: 1,
+  favorites: 1,
+  ratings: 1,
+};
+
+/**
+ * Migration steps per kind, keyed by the version they upgrade from
+ */
+export const PERSISTENCE_MIGRATIONS: {
+  readonly [K in PersistedKind]: Readonly<Record<number, MigrationStep>>;
+} = {
+  recipe: {
+    // v2 caches `RecipeWithUser`; v1 cached a plain `Recipe`
+    1: (payload) => {
+      if (!isRecord(payload)) {
+        throw new Error(`expected object, received ${describeType(payload)}`);
+      }
+      return { ...payload, userId: payload.userId ?? null };
+    },
+  },
+  preferences: {},
+  favorites: {},
+  ratings: {},
+};
+
+// =============================================================================
+// Envelopes
+// =============================================================================
+
+const PAYLOAD_DECODERS: {
+  [K in PersistedKind]: Decoder<PersistedPayloads[K]>;
+} = {
+  recipe: decodeRecipeWithUser,
+  preferences: decodeUserPreferences,
+  favorites: arrayDecoder(decodeRecipe),
+  ratings: arrayDecoder(decodeRecipeRating),
+};
+
+function isPersistedKind(value: unknown): value is PersistedKind {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(PERSISTENCE_SCHEMA_VERSIONS, value)
+  );
+}
+
+/**
+ * Wrap a payload in an envelope at the current schema version
+ *
+ * @example
+ * ```ts
+ * localStorage.setItem(
+ *   `recipe:${recipe.id}`,
+ *   JSON.stringify(createPersistedEnvelope('recipe', recipe)),
+ * );
+ * ```
+ */
+export function createPersistedEnvelope<K extends PersistedKind>(
+  kind: K,
+  payload: PersistedPayloads[K],
+): PersistedEnvelope<K> {
+  return {
+    schemaVersion: PERSISTENCE_SCHEMA_VERSIONS[kind],
+    kind,
+    payload,
+  } as PersistedEnvelope<K>;
+}
+
+/**
+ * Upgrade a stored envelope (or its JSON text) to the current schema
+ * version. Steps run one version at a time and the result is checked
+ * against the current payload type. Never throws.
+ *
+ * @example
+ * ```ts
+ * const result = migrate(localStorage.getItem(key), { kind: 'recipe' });
+ * if (result.success) {
+ *   if (result.migrated) {
+ *     localStorage.setItem(key, JSON.stringify(result.envelope));
+ *   }
+ *   render(result.envelope.payload);
+ * } else {
+ *   localStorage.removeItem(key); // unrecoverable; refetch
+ * }
+ * ```
+ */
+export function migrate<K extends PersistedKind = PersistedKind>(
+  input: unknown,
+  options: MigrateOptions<K> = {},
+): MigrationResult<K> {
+  let stored = input;
+  if (typeof input === 'string') {
+    try {
+      stored = JSON.parse(input);
+    } catch {
+      return { success: false, reason: 'invalid_json', message: 'not JSON' };
+    }
+  }
+  if (
+    !isRecord(stored) ||
+    !Number.isInteger(stored.schemaVersion) ||
+    typeof stored.kind !== 'string' ||
+    !('payload' in stored)
+  ) {
+    return {
+      success: false,
+      reason: 'invalid_envelope',
+      message: 'expected { schemaVersion, kind, payload }',
+    };
+  }
+
+  const kind = stored.kind;
+  if (!isPersistedKind(kind)) {
+    return {
+      success: false,
+      reason: 'unknown_kind',
+      message: `unknown kind "${kind}"`,
+    };
+  }
+  if (options.kind !== undefined && kind !== options.kind) {
+    return {
+      success: false,
+      reason: 'kind_mismatch',
+      message: `expected kind "${options.kind}", found "${kind}"`,
+    };
+  }
+
+  const fromVersion = stored.schemaVersion as number;
+  const current = PERSISTENCE_SCHEMA_VERSIONS[kind];
+  if (fromVersion > current) {
+    return {
+      success: false,
+      reason: 'future_version',
+      message: `${kind} v${fromVersion} is newer than supported v${current}`,
+    };
+  }
+
+  let payload = stored.payload;
+  for (let version = fromVersion; version < current; version++) {
+    const step = PERSISTENCE_MIGRATIONS[kind][version];
+    if (!step) {
+      return {
+        success: false,
+        reason: 'missing_migration',
+        message: `no migration for ${kind} from v${version}`,
+      };
+    }
+    try {
+      payload = step(payload);
+    } catch (error) {
+      return {
+        success: false,
+        reason: 'migration_failed',
+        message: `${kind} v${version} migration failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  const decoded = PAYLOAD_DECODERS[kind](payload);
+  if (!decoded.success) {
+    return {
+      success: false,
+      reason: 'invalid_payload',
+      message: `${kind} payload does not match v${current}`,
+      errors: decoded.errors,
+    };
+  }
+  return {
+    success: true,
+    envelope: createPersistedEnvelope(
+      kind,
+      decoded.value,
+    ) as PersistedEnvelope<K>,
+    fromVersion,
+    migrated: fromVersion !== current,
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Canonical query-string encoding for the MIXR query parameter types.
+ *
+ * Each params type has a `to...QueryString` / `from...QueryString` pair.
+ * Serializing writes keys in a fixed order and skips `undefined` values;
+ * parsing validates enum values, coerces and clamps numbers and rejects
+ * unknown or repeated keys. For any params object within range,
+ * `from...QueryString(to...QueryString(params))` returns an equal object.
+ */
+
+import { EQUIPMENT_SUBCATEGORIES, INGREDIENT_SUBCATEGORIES } from './enums';
+import type {
+  EquipmentQueryParams,
+  IngredientQueryParams,
+  PaginationQueryParams,
+  RatingListParams,
+} from './index';
+import { MAX_PAGE_LIMIT } from './pagination';
+import {
+  toResult,
+  type ValidationError,
+  type ValidationResult,
+} from './validation';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Sort order of the ratings list
+ */
+export type RatingSortOrder = NonNullable<RatingListParams['sort']>;
+
+/**
+ * All rating sort orders
+ */
+export const RATING_SORT_ORDERS: RatingSortOrder[] = [
+  'newest',
+  'oldest',
+  'highest',
+  'lowest',
+];
+
+/**
+ * Input accepted by the `from...QueryString` parsers: a query string (with
+ * or without the leading `?`) or a key/value map as produced by server
+ * frameworks
+ */
+export type QueryInput =
+  | string
+  | Readonly<Record<string, string | readonly string[] | undefined>>;
+
+// =============================================================================
+// Fields
+// =============================================================================
+
+/** Parser and serializer for one query parameter. */
+interface Field<T> {
+  serialize(value: T): string;
+  parse(raw: string, path: string, errors: ValidationError[]): T | undefined;
+}
+
+type Schema<T> = { [K in keyof T]-?: Field<NonNullable<T[K]>> };
+
+/** String parameter limited to a list of values. */
+function enumField<T extends string>(values: readonly T[]): Field<T> {
+  return {
+    serialize: (value) => value,
+    parse(raw, path, errors) {
+      if ((values as readonly string[]).includes(raw)) return raw as T;
+      errors.push({
+        path,
+        code: 'invalid_value',
+        message: `expected one of ${values.join('|')}, received "${raw}"`,
+      });
+      return undefined;
+    },
+  };
+}
+
+/** Integer parameter; out-of-range values are clamped to `[min, max]`. */
+function integerField(min: number, max: number): Field<number> {
+  return {
+    serialize: String,
+    parse(raw, path, errors) {
+      const value = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(raw)
+        ? Number(raw)
+        : NaN;
+      if (!Number.isFinite(value)) {
+        errors.push({
+          path,
+          code: 'invalid_type',
+          message: `expected integer, received "${raw}"`,
+        });
+        return undefined;
+      }
+      if (!Number.isInteger(value)) {
+        errors.push({
+          path,
+          code: 'not_integer',
+          message: 'must be an integer',
+        });
+        return undefined;
+      }
+      return Math.min(max, Math.max(min, value));
+    },
+  };
+}
+
+const stringField: Field<string> = {
+  serialize: (value) => value,
+  parse: (raw) => raw,
+};
+
+const limit = integerField(1, MAX_PAGE_LIMIT);
+const offset = integerField(0, Number.MAX_SAFE_INTEGER);
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+function encode(value: string): string {
+  return encodeURIComponent(value).replace(/%20/g, '+');
+}
+
+/** Split a query string into raw key/value pairs, in order. */
+function splitQuery(
+  query: string,
+  errors: ValidationError[],
+): [string, string][] {
+  const pairs: [string, string][] = [];
+  for (const part of query.replace(/^\?/, '').split('&')) {
+    if (part === '') continue;
+    const eq = part.indexOf('=');
+    const rawKey = eq === -1 ? part : part.slice(0, eq);
+    const rawValue = eq === -1 ? '' : part.slice(eq + 1);
+    try {
+      pairs.push([
+        decodeURIComponent(rawKey.replace(/\+/g, ' ')),
+        decodeURIComponent(rawValue.replace(/\+/g, ' ')),
+      ]);
+    } catch {
+      errors.push({
+        path: rawKey,
+        code: 'invalid_value',
+        message: 'is not valid percent-encoding',
+      });
+    }
+  }
+  return pairs;
+}
+
+function toPairs(input: QueryInput, errors: ValidationError[]) {
+  if (typeof input === 'string') return splitQuery(input, errors);
+  const pairs: [string, string][] = [];
+  for (const [key, value] of Object.entries(input)) {
+    if (value === undefined) continue;
+    const values: readonly string[] =
+      typeof value === 'string' ? [value] : value;
+    for (const item of values) pairs.push([key, item]);
+  }
+  return pairs;
+}
+
+function serialize<T>(schema: Schema<T>, params: T): string {
+  const parts: string[] = [];
+  for (const key of Object.keys(schema) as (keyof T & string)[]) {
+    const value = params[key];
+    if (value === undefined || value === null) continue;
+    const field = schema[key] as Field<typeof value>;
+    parts.push(`${encode(key)}=${encode(field.serialize(value))}`);
+  }
+  return parts.join('&');
+}
+
+function parse<T>(schema: Schema<T>, input: QueryInput): ValidationResult<T> {
+  const errors: ValidationError[] = [];
+  const seen = new Set<string>();
+  const result: Record<string, unknown> = {};
+  for (const [key, raw] of toPairs(input, errors)) {
+    if (!Object.prototype.hasOwnProperty.call(schema, key)) {
+      errors.push({
+        path: key,
+        code: 'unknown_key',
+        message: `unexpected parameter "${key}"`,
+      });
+      continue;
+    }
+    if (seen.has(key)) {
+      errors.push({
+        path: key,
+        code: 'invalid_value',
+        message: 'must not be repeated',
+      });
+      continue;
+    }
+    seen.add(key);
+    if (raw === '') {
+      errors.push({ path: key, code: 'empty', message: 'must not be empty' });
+      continue;
+    }
+    const field = schema[key as keyof T] as Field<unknown>;
+    const value = field.parse(raw, key, errors);
+    if (value !== undefined) result[key] = value;
+  }
+  // Rebuild in schema order so equal params compare equal
+  const ordered: Record<string, unknown> = {};
+  for (const key of Object.keys(schema)) {
+    if (result[key] !== undefined) ordered[key] = result[key];
+  }
+  return toResult(ordered as T, errors);
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const equipmentSchema: Schema<EquipmentQueryParams> = {
+  subcategory: enumField(EQUIPMENT_SUBCATEGORIES),
+};
+
+const ingredientSchema: Schema<IngredientQueryParams> = {
+  subcategory: enumField(INGREDIENT_SUBCATEGORIES),
+};
+
+const paginationSchema: Schema<PaginationQueryParams> = {
+  limit,
+  offset,
+  cursor: stringField,
+};
+
+const ratingListSchema: Schema<RatingListParams> = {
+  sort: enumField(RATING_SORT_ORDERS),
+  limit,
+  offset,
+  cursor: stringField,
+};
+
+// =============================================================================
+// Serializers and Parsers
+// =============================================================================
+
+/**
+ * Encode {@link EquipmentQueryParams} (without the leading `?`)
+ */
+export function toEquipmentQueryString(params: EquipmentQueryParams): string {
+  return serialize(equipmentSchema, params);
+}
+
+/**
+ * Parse and validate {@link EquipmentQueryParams}
+ */
+export function fromEquipmentQueryString(
+  input: QueryInput,
+): ValidationResult<EquipmentQueryParams> {
+  return parse(equipmentSchema, input);
+}
+
+/**
+ * Encode {@link IngredientQueryParams} (without the leading `?`)
+ */
+export function toIngredientQueryString(params: IngredientQueryParams): string {
+  return serialize(ingredientSchema, params);
+}
+
+/**
+ * Parse and validate {@link IngredientQueryParams}
+ */
+export function fromIngredientQueryString(
+  input: QueryInput,
+): ValidationResult<IngredientQueryParams> {
+  return parse(ingredientSchema, input);
+}
+
+/**
+ * Encode {@link PaginationQueryParams} (without the leading `?`)
+ */
+export function toPaginationQueryString(params: PaginationQueryParams): string {
+  return serialize(paginationSchema, params);
+}
+
+/**
+ * Parse and validate {@link PaginationQueryParams}. `limit` is clamped to
+ * 1-{@link MAX_PAGE_LIMIT} and `offset` to at least 0.
+ */
+export function fromPaginationQueryString(
+  input: QueryInput,
+): ValidationResult<PaginationQueryParams> {
+  return parse(paginationSchema, input);
+}
+
+/**
+ * Encode {@link RatingListParams} (without the leading `?`)
+ *
+ * @example
+ * ```ts
+ * toRatingListQueryString({ sort: 'highest', limit: 20 }); // "sort=highest&limit=20"
+ * ```
+ */
+export function toRatingListQueryString(params: RatingListParams): string {
+  return serialize(ratingListSchema, params);
+}
+
+/**
+ * Parse and validate {@link RatingListParams}. Numbers are clamped as in
+ * {@link fromPaginationQueryString}.
+ *
+ * @example
+ * ```ts
+ * const result = fromRatingListQueryString(new URL(url).search);
+ * if (!result.success) return badRequest(result.errors);
+ * listRatings(recipeId, result.value);
+ * ```
+ */
+export function fromRatingListQueryString(
+  input: QueryInput,
+): ValidationResult<RatingListParams> {
+  return parse(ratingListSchema, input);
+}
@@ -0,0 +1,213 @@
+/**
+ * Confidence-aware ranking of recipes by their ratings.
+ *
+ * Raw averages overrate recipes with only a few ratings. The scores here
+ * pull small samples towards a prior ({@link bayesianAverage}), take a
+ * pessimistic bound ({@link wilsonLowerBound}) or favour recent ratings
+ * ({@link timeDecayedAverage}). Each has a comparator for sorting recipes
+ * joined with their {@link RatingAggregate}.
+ */
+
+import type { RatingAggregate, Recipe, RecipeRating } from './index';
+import { STAR_LEVELS, emptyRatingAggregate } from './ratings';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A recipe together with its rating aggregate
+ */
+export interface RatedRecipe<T extends Recipe = Recipe> {
+  recipe: T;
+  aggregate: RatingAggregate;
+}
+
+/**
+ * Options for {@link bayesianAverage}
+ */
+export interface BayesianAverageOptions {
+  /** Average assumed before any ratings arrive; defaults to 3 */
+  priorMean?: number;
+  /** How many ratings the prior is worth; defaults to 5 */
+  priorWeight?: number;
+}
+
+/**
+ * Options for {@link wilsonLowerBound}
+ */
+export interface WilsonLowerBoundOptions {
+  /** z-score of the confidence level; defaults to 1.96 (95%) */
+  z?: number;
+}
+
+/**
+ * Options for {@link timeDecayedAverage}
+ */
+export interface TimeDecayOptions extends BayesianAverageOptions {
+  /** Age in days at which a rating counts half; defaults to 30 */
+  halfLifeDays?: number;
+  /** Reference time; defaults to the current time */
+  now?: Date | number;
+}
+
+// =============================================================================
+// Scores
+// =============================================================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function starSum(aggregate: RatingAggregate): number {
+  return STAR_LEVELS.reduce(
+    (sum, level) => sum + aggregate.rating_distribution[level] * Number(level),
+    0,
+  );
+}
+
+/**
+ * Average rating blended with a prior: `(priorWeight * priorMean + sum) /
+ * (priorWeight + n)`. With no ratings the score is the prior mean; with
+ * many it approaches the raw average.
+ *
+ * @example
+ * ```ts
+ * bayesianAverage(oneFiveStar); // 3.33
+ * bayesianAverage(fourHundredAt4_7); // 4.68
+ * ```
+ */
+export function bayesianAverage(
+  aggregate: RatingAggregate,
+  options: BayesianAverageOptions = {},
+): number {
+  const priorMean = options.priorMean ?? 3;
+  const priorWeight = options.priorWeight ?? 5;
+  const denominator = priorWeight + aggregate.total_ratings;
+  return denominator > 0
+    ? (priorWeight * priorMean + starSum(aggregate)) / denominator
+    : priorMean;
+}
+
+/**
+ * Lower bound of the Wilson score interval for the share of "positive"
+ * stars, where 1 star counts 0 and 5 stars count 1 (linear in between).
+ * Returns a value from 0 to 1; 0 without ratings.
+ */
+export function wilsonLowerBound(
+  aggregate: RatingAggregate,
+  options: WilsonLowerBoundOptions = {},
+): number {
+  const n = aggregate.total_ratings;
+  if (n === 0) return 0;
+  const z = options.z ?? 1.96;
+  const p = (starSum(aggregate) - n) / (4 * n);
+  const z2 = z * z;
+  const center = p + z2 / (2 * n);
+  const margin = z * Math.sqrt((p * (1 - p) + z2 / (4 * n)) / n);
+  return Math.max(0, (center - margin) / (1 + z2 / n));
+}
+
+/**
+ * Bayesian average in which each rating's weight halves every
+ * `halfLifeDays` since its `created_at`. Suited to "trending" lists.
+ */
+export function timeDecayedAverage(
+  ratings: readonly Pick<RecipeRating, 'stars' | 'created_at'>[],
+  options: TimeDecayOptions = {},
+): number {
+  const priorMean = options.priorMean ?? 3;
+  const priorWeight = options.priorWeight ?? 5;
+  const halfLifeMs = (options.halfLifeDays ?? 30) * MS_PER_DAY;
+  const now = new Date(options.now ?? Date.now()).getTime();
+
+  let weight = priorWeight;
+  let sum = priorWeight * priorMean;
+  for (const rating of ratings) {
+    const age = Math.max(0, now - Date.parse(rating.created_at));
+    const w = Number.isFinite(age) ? Math.pow(0.5, age / halfLifeMs) : 0;
+    weight += w;
+    sum += w * rating.stars;
+  }
+  return weight > 0 ? sum / weight : priorMean;
+}
+
+// =============================================================================
+// Sorting
+// =============================================================================
+
+/**
+ * Pair recipes with their aggregates; recipes without one get an empty
+ * aggregate
+ */
+export function joinRatingAggregates<T extends Recipe>(
+  recipes: readonly T[],
+  aggregates: readonly RatingAggregate[],
+): RatedRecipe<T>[] {
+  const byRecipe = new Map(
+    aggregates.map((aggregate) => [aggregate.recipe_id, aggregate]),
+  );
+  return recipes.map((recipe) => ({
+    recipe,
+    aggregate: byRecipe.get(recipe.id) ?? emptyRatingAggregate(recipe.id),
+  }));
+}
+
+/** Sort descending by score, then by number of ratings. */
+function byScore(
+  score: (item: RatedRecipe) => number,
+): (a: RatedRecipe, b: RatedRecipe) => number {
+  return (a, b) =>
+    score(b) - score(a) ||
+    b.aggregate.total_ratings - a.aggregate.total_ratings;
+}
+
+/**
+ * Comparator ranking by {@link bayesianAverage}, best first
+ *
+ * @example
+ * ```ts
+ * const topRated = joinRatingAggregates(recipes, aggregates).sort(
+ *   compareByBayesianAverage({ priorMean: 3.8, priorWeight: 10 }),
+ * );
+ * ```
+ */
+export function compareByBayesianAverage(
+  options: BayesianAverageOptions = {},
+): (a: RatedRecipe, b: RatedRecipe) => number {
+  return byScore((item) => bayesianAverage(item.aggregate, options));
+}
+
+/**
+ * Comparator ranking by {@link wilsonLowerBound}, best first
+ */
+export function compareByWilsonLowerBound(
+  options: WilsonLowerBoundOptions = {},
+): (a: RatedRecipe, b: RatedRecipe) => number {
+  return byScore((item) => wilsonLowerBound(item.aggregate, options));
+}
+
+/**
+ * Comparator ranking by {@link timeDecayedAverage} over `ratings`, best
+ * first. Scores are computed once per recipe.
+ */
+export function compareByTimeDecay(
+  ratings: readonly RecipeRating[],
+  options: TimeDecayOptions = {},
+): (a: RatedRecipe, b: RatedRecipe) => number {
+  const now = options.now ?? Date.now();
+  const byRecipe = new Map<number, RecipeRating[]>();
+  for (const rating of ratings) {
+    const list = byRecipe.get(rating.recipe_id) ?? [];
+    list.push(rating);
+    byRecipe.set(rating.recipe_id, list);
+  }
+  const scores = new Map<number, number>();
+  return byScore((item) => {
+    const id = item.recipe.id;
+    let score = scores.get(id);
+    if (score === undefined) {
+      score = timeDecayedAverage(byRecipe.get(id) ?? [], { ...options, now });
+      scores.set(id, score);
+    }
+    return score;
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * Rating aggregate computation and incremental maintenance.
+ *
+ * {@link computeRatingAggregate} builds a {@link RatingAggregate} from the
+ * full list of ratings; the `applyRating*` functions update an existing
+ * aggregate for a single added, changed or deleted rating. Averages are
+ * always derived from `rating_distribution`, so an incrementally maintained
+ * aggregate is identical to a full recompute.
+ */
+
+import type {
+  RatingAggregate,
+  RecipeRating,
+  SubmitRatingRequest,
+} from './index';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Star level key of {@link RatingAggregate.rating_distribution}
+ */
+export type StarLevel = keyof RatingAggregate['rating_distribution'];
+
+/**
+ * Star levels from 1 to 5
+ */
+export const STAR_LEVELS: StarLevel[] = ['1', '2', '3', '4', '5'];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function starLevel(stars: number): StarLevel {
+  if (!Number.isInteger(stars) || stars < 1 || stars > 5) {
+    throw new RangeError(`Rating stars must be an integer 1-5, got ${stars}`);
+  }
+  return String(stars) as StarLevel;
+}
+
+/** Rebuild total and average from a distribution. */
+function fromDistribution(
+  recipeId: number,
+  distribution: RatingAggregate['rating_distribution'],
+): RatingAggregate {
+  let total = 0;
+  let sum = 0;
+  for (const level of STAR_LEVELS) {
+    total += distribution[level];
+    sum += distribution[level] * Number(level);
+  }
+  return {
+    recipe_id: recipeId,
+    average_rating: total > 0 ? sum / total : 0,
+    total_ratings: total,
+    rating_distribution: distribution,
+  };
+}
+
+function adjust(
+  aggregate: RatingAggregate,
+  changes: [StarLevel, number][],
+): RatingAggregate {
+  const distribution = { ...aggregate.rating_distribution };
+  for (const [level, delta] of changes) {
+    distribution[level] += delta;
+    if (distribution[level] < 0) {
+      throw new RangeError(
+        `Aggregate for recipe ${aggregate.recipe_id} has no ${level}-star rating to remove`,
+      );
+    }
+  }
+  return fromDistribution(aggregate.recipe_id, distribution);
+}
+
+// =============================================================================
+// Computation
+// =============================================================================
+
+/**
+ * Aggregate for a recipe without ratings
+ */
+export function emptyRatingAggregate(recipeId: number): RatingAggregate {
+  return fromDistribution(recipeId, { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 });
+}
+
+/**
+ * Build the aggregate of a recipe from its ratings. Ratings for other
+ * recipes are ignored; `average_rating` is 0 when there are none.
+ *
+ * @example
+ * ```ts
+ * const aggregate = computeRatingAggregate(recipe.id, ratings);
+ * aggregate.rating_distribution['5']; // number of 5-star ratings
+ * ```
+ */
+export function computeRatingAggregate(
+  recipeId: number,
+  ratings: readonly Pick<RecipeRating, 'recipe_id' | 'stars'>[],
+): RatingAggregate {
+  const distribution = emptyRatingAggregate(recipeId).rating_distribution;
+  for (const rating of ratings) {
+    if (rating.recipe_id === recipeId) {
+      distribution[starLevel(rating.stars)] += 1;
+    }
+  }
+  return fromDistribution(recipeId, distribution);
+}
+
+// =============================================================================
+// Incremental Updates
+// =============================================================================
+
+/**
+ * Add a new rating to an aggregate
+ */
+export function applyRatingAdd(
+  aggregate: RatingAggregate,
+  stars: number,
+): RatingAggregate {
+  return adjust(aggregate, [[starLevel(stars), 1]]);
+}
+
+/**
+ * Change the stars of an existing rating
+ */
+export function applyRatingUpdate(
+  aggregate: RatingAggregate,
+  previousStars: number,
+  stars: number,
+): RatingAggregate {
+  return adjust(aggregate, [
+    [starLevel(previousStars), -1],
+    [starLevel(stars), 1],
+  ]);
+}
+
+/**
+ * Remove a rating from an aggregate. Throws a `RangeError` when the
+ * aggregate has no rating at that star level.
+ */
+export function applyRatingDelete(
+  aggregate: RatingAggregate,
+  stars: number,
+): RatingAggregate {
+  return adjust(aggregate, [[starLevel(stars), -1]]);
+}
+
+/**
+ * Apply a {@link SubmitRatingRequest}: submitting replaces the user's
+ * previous rating when there is one.
+ *
+ * @example
+ * ```ts
+ * // Optimistic update before the request completes
+ * setAggregate(applySubmittedRating(aggregate, { stars: 4 }, myRating?.stars));
+ * ```
+ */
+export function applySubmittedRating(
+  aggregate: RatingAggregate,
+  request: SubmitRatingRequest,
+  previousStars?: number | null,
+): RatingAggregate {
+  return previousStars === undefined || previousStars === null
+    ? applyRatingAdd(aggregate, request.stars)
+    : applyRatingUpdate(aggregate, previousStars, request.stars);
+}
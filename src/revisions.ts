@@ -0,0 +1,544 @@
+/**
+ * Structural diffs between two versions of a recipe.
+ *
+ * {@link diffRecipes} describes what a user changed when editing a recipe:
+ * field edits, ingredient adds/removes/amount changes, step
+ * inserts/edits/reorders and equipment changes. A {@link RecipeDiff} is
+ * plain JSON, so it can be stored on a {@link RecipeRevision}, replayed on
+ * the parent with {@link applyRecipeDiff} and undone with
+ * {@link revertRecipeDiff}.
+ */
+
+import type {
+  Mood,
+  Recipe,
+  RecipeEquipment,
+  RecipeIngredient,
+  UpdateRecipeRequest,
+} from './index';
+import { tokenize } from './search';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Recipe fields compared as single values
+ */
+export type RecipeDiffField = 'name' | 'description' | 'moodId' | 'mood';
+
+/**
+ * Old and new value of a changed field
+ */
+export interface RecipeFieldChange<T> {
+  from: T;
+  to: T;
+}
+
+/**
+ * One change to an ordered list. `index` is a position in the old list and
+ * `newIndex` a position in the new one.
+ * - `add`: `value` was inserted
+ * - `remove`: `value` was deleted
+ * - `update`: the item changed (e.g., an ingredient amount or step text),
+ *   and possibly moved
+ * - `move`: the unchanged item was reordered
+ *
+ * Items not listed kept their value and relative order.
+ */
+export type RecipeListChange<T> =
+  | { type: 'add'; newIndex: number; value: T }
+  | { type: 'remove'; index: number; value: T }
+  | { type: 'update'; index: number; newIndex: number; from: T; to: T }
+  | { type: 'move'; index: number; newIndex: number; value: T };
+
+/**
+ * Changes between two versions of a recipe. `id` and `createdAt` are not
+ * compared.
+ */
+export interface RecipeDiff {
+  fields: { [F in RecipeDiffField]?: RecipeFieldChange<Recipe[F]> };
+  /** Matched by ingredient id */
+  ingredients: RecipeListChange<RecipeIngredient>[];
+  /** Matched by text, with edited steps paired by shared words */
+  steps: RecipeListChange<string>[];
+  /** Matched by equipment id */
+  equipment: RecipeListChange<RecipeEquipment>[];
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const DIFF_FIELDS: RecipeDiffField[] = [
+  'name',
+  'description',
+  'moodId',
+  'mood',
+];
+
+/** Minimum share of words two steps need in common to count as an edit. */
+const STEP_EDIT_SIMILARITY = 0.4;
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  return (
+    keys.length === Object.keys(right).length &&
+    keys.every((key) => isEqual(left[key], right[key]))
+  );
+}
+
+/** Pair each item with the first unpaired new item that has the same key. */
+function pairByKey<T>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => unknown,
+): [number, number][] {
+  const taken = new Set<number>();
+  const pairs: [number, number][] = [];
+  before.forEach((item, index) => {
+    const key = keyOf(item);
+    const match = after.findIndex(
+      (other, newIndex) => !taken.has(newIndex) && keyOf(other) === key,
+    );
+    if (match === -1) return;
+    taken.add(match);
+    pairs.push([index, match]);
+  });
+  return pairs;
+}
+
+/** Share of distinct words the two steps have in common. */
+function stepSimilarity(a: string, b: string): number {
+  const left = new Set(tokenize(a));
+  const right = new Set(tokenize(b));
+  let shared = 0;
+  for (const word of left) if (right.has(word)) shared++;
+  const total = left.size + right.size - shared;
+  return total === 0 ? 1 : shared / total;
+}
+
+/**
+ * Pair identical steps, then pair the remaining ones that share enough
+ * words, most similar (then nearest) first.
+ */
+function pairSteps(before: string[], after: string[]): [number, number][] {
+  const pairs = pairByKey(before, after, (step) => step);
+  const oldLeft = before
+    .map((_, index) => index)
+    .filter((index) => !pairs.some(([i]) => i === index));
+  const newLeft = after
+    .map((_, index) => index)
+    .filter((index) => !pairs.some(([, j]) => j === index));
+
+  const candidates: { i: number; j: number; score: number }[] = [];
+  for (const i of oldLeft) {
+    for (const j of newLeft) {
+      const score = stepSimilarity(before[i], after[j]);
+      if (score >= STEP_EDIT_SIMILARITY) candidates.push({ i, j, score });
+    }
+  }
+  candidates.sort(
+    (a, b) => b.score - a.score || Math.abs(a.i - a.j) - Math.abs(b.i - b.j),
+  );
+  const usedOld = new Set<number>();
+  const usedNew = new Set<number>();
+  for (const { i, j } of candidates) {
+    if (usedOld.has(i) || usedNew.has(j)) continue;
+    usedOld.add(i);
+    usedNew.add(j);
+    pairs.push([i, j]);
+  }
+  return pairs;
+}
+
+/** Indices (into `values`) of a longest strictly increasing subsequence. */
+function longestIncreasing(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = [];
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+  const result = new Set<number>();
+  for (
+    let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+    index !== -1;
+    index = previous[index]
+  ) {
+    result.add(index);
+  }
+  return result;
+}
+
+function diffList<T>(
+  before: T[],
+  after: T[],
+  pairs: [number, number][],
+): RecipeListChange<T>[] {
+  pairs.sort((a, b) => a[0] - b[0]);
+  const inOrder = longestIncreasing(pairs.map(([, newIndex]) => newIndex));
+  const removes: RecipeListChange<T>[] = [];
+  const changes: RecipeListChange<T>[] = [];
+
+  before.forEach((value, index) => {
+    if (!pairs.some(([i]) => i === index)) {
+      removes.push({ type: 'remove', index, value });
+    }
+  });
+  after.forEach((value, newIndex) => {
+    if (!pairs.some(([, j]) => j === newIndex)) {
+      changes.push({ type: 'add', newIndex, value });
+    }
+  });
+  pairs.forEach(([index, newIndex], position) => {
+    const from = before[index];
+    const to = after[newIndex];
+    if (!isEqual(from, to)) {
+      changes.push({ type: 'update', index, newIndex, from, to });
+    } else if (!inOrder.has(position)) {
+      changes.push({ type: 'move', index, newIndex, value: from });
+    }
+  });
+  const position = (change: RecipeListChange<T>) =>
+    change.type === 'remove' ? change.index : change.newIndex;
+  changes.sort((a, b) => position(a) - position(b));
+  return [...removes, ...changes];
+}
+
+function applyList<T>(
+  list: T[],
+  changes: RecipeListChange<T>[],
+  label: string,
+): T[] {
+  const fail = (index: number, problem: string): never => {
+    throw new Error(`Cannot apply recipe diff: ${label}[${index}] ${problem}`);
+  };
+  const consumed = new Set<number>();
+  const placed = new Map<number, T>();
+  let length = list.length;
+
+  for (const change of changes) {
+    if (change.type !== 'add') {
+      const expected = change.type === 'update' ? change.from : change.value;
+      if (
+        change.index >= list.length ||
+        !isEqual(list[change.index], expected)
+      ) {
+        fail(change.index, 'does not match');
+      }
+      if (consumed.has(change.index)) fail(change.index, 'changed twice');
+      consumed.add(change.index);
+    }
+    if (change.type === 'remove') {
+      length--;
+      continue;
+    }
+    if (change.type === 'add') length++;
+    if (placed.has(change.newIndex)) fail(change.newIndex, 'set twice');
+    placed.set(
+      change.newIndex,
+      change.type === 'update'
+        ? change.to
+        : change.type === 'add'
+          ? change.value
+          : list[change.index],
+    );
+  }
+
+  for (const newIndex of placed.keys()) {
+    if (!Number.isInteger(newIndex) || newIndex < 0 || newIndex >= length) {
+      fail(newIndex, 'is out of range');
+    }
+  }
+  // Unlisted items keep their relative order and fill the free positions
+  const kept = list.filter((_, index) => !consumed.has(index));
+  const result: T[] = [];
+  let next = 0;
+  for (let newIndex = 0; newIndex < length; newIndex++) {
+    result.push(
+      placed.has(newIndex) ? (placed.get(newIndex) as T) : kept[next++],
+    );
+  }
+  return result;
+}
+
+function invertList<T>(changes: RecipeListChange<T>[]): RecipeListChange<T>[] {
+  return changes.map((change): RecipeListChange<T> => {
+    switch (change.type) {
+      case 'add':
+        return { type: 'remove', index: change.newIndex, value: change.value };
+      case 'remove':
+        return { type: 'add', newIndex: change.index, value: change.value };
+      case 'update':
+        return {
+          type: 'update',
+          index: change.newIndex,
+          newIndex: change.index,
+          from: change.to,
+          to: change.from,
+        };
+      case 'move':
+        return {
+          type: 'move',
+          index: change.newIndex,
+          newIndex: change.index,
+          value: change.value,
+        };
+    }
+  });
+}
+
+// =============================================================================
+// Diff and Patch
+// =============================================================================
+
+/**
+ * Describe how `after` differs from `before`
+ *
+ * @example
+ * ```ts
+ * const diff = diffRecipes(parent, edited);
+ * diff.ingredients;
+ * // [{ type: 'update', index: 1, newIndex: 1,
+ * //    from: { id: 4, name: 'Lime juice', icon: null, amount: '3/4 oz' },
+ * //    to:   { id: 4, name: 'Lime juice', icon: null, amount: '1/2 oz' } }]
+ * ```
+ */
+export function diffRecipes(before: Recipe, after: Recipe): RecipeDiff {
+  const fields: RecipeDiff['fields'] = {};
+  for (const field of DIFF_FIELDS) {
+    if (!isEqual(before[field], after[field])) {
+      (fields as Record<string, RecipeFieldChange<unknown>>)[field] = {
+        from: before[field],
+        to: after[field],
+      };
+    }
+  }
+  return {
+    fields,
+    ingredients: diffList(
+      before.ingredients,
+      after.ingredients,
+      pairByKey(before.ingredients, after.ingredients, (item) => item.id),
+    ),
+    steps: diffList(
+      before.steps,
+      after.steps,
+      pairSteps(before.steps, after.steps),
+    ),
+    equipment: diffList(
+      before.equipment,
+      after.equipment,
+      pairByKey(before.equipment, after.equipment, (item) => item.id),
+    ),
+  };
+}
+
+/**
+ * Whether a diff has no changes
+ */
+export function isEmptyRecipeDiff(diff: RecipeDiff): boolean {
+  return (
+    Object.keys(diff.fields).length === 0 &&
+    diff.ingredients.length === 0 &&
+    diff.steps.length === 0 &&
+    diff.equipment.length === 0
+  );
+}
+
+/**
+ * Apply a diff to the recipe it was computed from. Throws an `Error` when
+ * the recipe does not hold the diff's old values (e.g., it was edited
+ * since).
+ *
+ * @example
+ * ```ts
+ * applyRecipeDiff(parent, diffRecipes(parent, edited)); // deep-equals edited
+ * ```
+ */
+export function applyRecipeDiff<T extends Recipe>(
+  recipe: T,
+  diff: RecipeDiff,
+): T {
+  const next: T = { ...recipe };
+  for (const field of DIFF_FIELDS) {
+    const change = diff.fields[field];
+    if (!change) continue;
+    if (!isEqual(recipe[field], change.from)) {
+      throw new Error(`Cannot apply recipe diff: ${field} does not match`);
+    }
+    (next as Record<string, unknown>)[field] = change.to;
+  }
+  next.ingredients = applyList(
+    recipe.ingredients,
+    diff.ingredients,
+    'ingredients',
+  );
+  next.steps = applyList(recipe.steps, diff.steps, 'steps');
+  next.equipment = applyList(recipe.equipment, diff.equipment, 'equipment');
+  return next;
+}
+
+/**
+ * The diff that undoes `diff`
+ */
+export function invertRecipeDiff(diff: RecipeDiff): RecipeDiff {
+  const fields: RecipeDiff['fields'] = {};
+  for (const field of DIFF_FIELDS) {
+    const change = diff.fields[field];
+    if (change) {
+      (fields as Record<string, RecipeFieldChange<unknown>>)[field] = {
+        from: change.to,
+        to: change.from,
+      };
+    }
+  }
+  return {
+    fields,
+    ingredients: invertList(diff.ingredients),
+    steps: invertList(diff.steps),
+    equipment: invertList(diff.equipment),
+  };
+}
+
+/**
+ * Undo a diff on the recipe it produced. Throws like
+ * {@link applyRecipeDiff}.
+ *
+ * @example
+ * ```ts
+ * revertRecipeDiff(edited, revision.diff); // deep-equals the parent's content
+ * ```
+ */
+export function revertRecipeDiff<T extends Recipe>(
+  recipe: T,
+  diff: RecipeDiff,
+): T {
+  return applyRecipeDiff(recipe, invertRecipeDiff(diff));
+}
+
+// =============================================================================
+// Edits
+// =============================================================================
+
+/**
+ * Apply an {@link UpdateRecipeRequest} to a recipe. `mood` is looked up in
+ * `moods` when `mood_id` changes, and is null when not found.
+ *
+ * @example
+ * ```ts
+ * const edited = applyRecipeUpdate(parent, request, moods);
+ * const diff = diffRecipes(parent, edited);
+ * const summary = request.summary ?? summarizeRecipeDiff(diff);
+ * ```
+ */
+export function applyRecipeUpdate<T extends Recipe>(
+  recipe: T,
+  update: UpdateRecipeRequest,
+  moods: Mood[] = [],
+): T {
+  const next: T = { ...recipe };
+  if (update.name !== undefined) next.name = update.name.trim();
+  if (update.description !== undefined) next.description = update.description;
+  if (update.mood_id !== undefined && update.mood_id !== recipe.moodId) {
+    next.moodId = update.mood_id;
+    next.mood =
+      update.mood_id === null
+        ? null
+        : (moods.find((mood) => mood.id === update.mood_id) ?? null);
+  }
+  if (update.ingredients) {
+    next.ingredients = update.ingredients.map((item) => ({ ...item }));
+  }
+  if (update.steps) next.steps = update.steps.slice();
+  if (update.equipment) {
+    next.equipment = update.equipment.map((item) => ({ ...item }));
+  }
+  return next;
+}
+
+/**
+ * One-line, human-readable summary of a diff, suitable as a
+ * {@link RecipeRevision} summary
+ *
+ * @example
+ * ```ts
+ * summarizeRecipeDiff(diff);
+ * // "Changed Lime juice from 3/4 oz to 1/2 oz, added Agave syrup, edited step 2"
+ * ```
+ */
+export function summarizeRecipeDiff(diff: RecipeDiff): string {
+  const parts: string[] = [];
+  const { name, description, moodId, mood } = diff.fields;
+
+  if (name) parts.push(`renamed to "${name.to}"`);
+  if (description) {
+    parts.push(
+      description.to === null || description.to === undefined
+        ? 'removed the description'
+        : 'changed the description',
+    );
+  }
+  if (moodId || mood) {
+    const to = mood ? mood.to : undefined;
+    parts.push(
+      moodId && (moodId.to === null || moodId.to === undefined)
+        ? 'removed the mood'
+        : to
+          ? `changed the mood to ${to.name}`
+          : 'changed the mood',
+    );
+  }
+
+  const describeItems = (
+    changes: RecipeListChange<RecipeIngredient | RecipeEquipment>[],
+    list: string,
+  ) => {
+    for (const change of changes) {
+      if (change.type === 'add') parts.push(`added ${change.value.name}`);
+      else if (change.type === 'remove')
+        parts.push(`removed ${change.value.name}`);
+      else if (change.type === 'update') {
+        const { from, to } = change;
+        parts.push(
+          'amount' in from && 'amount' in to && from.amount !== to.amount
+            ? `changed ${to.name} from ${from.amount} to ${to.amount}`
+            : `updated ${to.name}`,
+        );
+      }
+    }
+    if (changes.some((change) => change.type === 'move')) {
+      parts.push(`reordered ${list}`);
+    }
+  };
+
+  describeItems(diff.ingredients, 'ingredients');
+  for (const change of diff.steps) {
+    if (change.type === 'add') parts.push(`added step ${change.newIndex + 1}`);
+    else if (change.type === 'remove')
+      parts.push(`removed step ${change.index + 1}`);
+    else if (change.type === 'update')
+      parts.push(`edited step ${change.newIndex + 1}`);
+  }
+  if (diff.steps.some((change) => change.type === 'move')) {
+    parts.push('reordered steps');
+  }
+  describeItems(diff.equipment, 'equipment');
+
+  if (parts.length === 0) return 'No changes';
+  const summary = parts.join(', ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
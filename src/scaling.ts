@@ -0,0 +1,266 @@
+/**
+ * Recipe scaling and metric/imperial conversion.
+ *
+ * Builds on {@link parseAmount}: each ingredient amount is parsed, scaled
+ * and/or converted, rounded to bartender-friendly steps (¼ oz, 5 ml) and
+ * printed back with {@link formatAmount}. Amounts that cannot be handled are
+ * left as written and reported.
+ */
+
+import type { Recipe } from './index';
+import {
+  formatAmount,
+  parseAmount,
+  type AmountUnit,
+  type FormatAmountOptions,
+  type ParsedAmount,
+} from './amount';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Unit system for volume conversion
+ */
+export type UnitSystem = 'metric' | 'imperial';
+
+/**
+ * Options for {@link scaleRecipe}
+ */
+export interface ScaleRecipeOptions {
+  /** Servings the recipe currently makes; defaults to 1 */
+  fromServings?: number;
+  /** Servings to scale to; defaults to `fromServings` (no scaling) */
+  servings?: number;
+  /** Convert volumes to this unit system; omitted to keep units as written */
+  unitSystem?: UnitSystem;
+  /** How rewritten amounts are printed */
+  format?: FormatAmountOptions;
+}
+
+/**
+ * Why an ingredient amount was left as written
+ */
+export type AmountIssueReason =
+  /** The amount has no quantity (e.g., "top with soda"), so it was not scaled */
+  | 'unparsed'
+  /** The unit is not recognized (e.g., "sprig"), so it was not converted */
+  | 'unknown_unit';
+
+/**
+ * An ingredient amount that could not be fully scaled or converted
+ */
+export interface AmountIssue {
+  /** Index of the ingredient in `recipe.ingredients` */
+  index: number;
+  /** ID of the ingredient */
+  ingredientId: number;
+  /** The amount as written */
+  amount: string;
+  /** Why the amount was left (partly) unchanged */
+  reason: AmountIssueReason;
+}
+
+/**
+ * Result of {@link scaleRecipe}
+ */
+export interface ScaleRecipeResult<T extends Recipe> {
+  /** Copy of the input recipe with rewritten ingredient amounts */
+  recipe: T;
+  /** Amounts that could not be fully scaled or converted */
+  issues: AmountIssue[];
+}
+
+// =============================================================================
+// Volumes
+// =============================================================================
+
+/**
+ * Units that measure a volume of liquid
+ */
+export type VolumeUnit = Exclude<AmountUnit, 'piece' | 'to_taste'>;
+
+/**
+ * Approximate volume in milliliters of one of each volume unit
+ */
+export const ML_PER_UNIT: Readonly<Record<VolumeUnit, number>> = {
+  oz: 29.5735,
+  ml: 1,
+  cl: 10,
+  cup: 236.588,
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  barspoon: 5,
+  dash: 0.9,
+  splash: 7.5,
+};
+
+/**
+ * Check whether a unit measures a volume
+ */
+export function isVolumeUnit(unit: AmountUnit | null): unit is VolumeUnit {
+  return unit !== null && unit !== 'piece' && unit !== 'to_taste';
+}
+
+/**
+ * Convert a value in `unit` to milliliters; null for non-volume units
+ */
+export function toMilliliters(
+  value: number,
+  unit: AmountUnit | null,
+): number | null {
+  return isVolumeUnit(unit) ? value * ML_PER_UNIT[unit] : null;
+}
+
+/** Rounding step for a value, finer for small amounts. */
+function roundingStep(unit: AmountUnit | null, value: number): number {
+  switch (unit) {
+    case 'oz':
+      return value < 0.25 ? 0.125 : 0.25;
+    case 'ml':
+      return value < 5 ? 1 : 5;
+    case 'cl':
+    case 'cup':
+      return 0.25;
+    case 'tsp':
+    case 'tbsp':
+    case 'barspoon':
+    case 'piece':
+    case null:
+      return 0.5;
+    default:
+      return 1;
+  }
+}
+
+function roundValue(value: number, unit: AmountUnit | null): number {
+  const step = roundingStep(unit, value);
+  return Math.max(step, Math.round(value / step) * step);
+}
+
+/** Unit an amount converts to in a unit system, or null to keep it. */
+function targetUnit(
+  unit: AmountUnit | null,
+  unitSystem: UnitSystem,
+): VolumeUnit | null {
+  if (unitSystem === 'metric' && (unit === 'oz' || unit === 'cup')) {
+    return 'ml';
+  }
+  if (unitSystem === 'imperial' && (unit === 'ml' || unit === 'cl')) {
+    return 'oz';
+  }
+  return null;
+}
+
+/** Scale and convert in one step so values are rounded only once. */
+function transformAmount(
+  amount: ParsedAmount,
+  factor: number,
+  unitSystem: UnitSystem | undefined,
+): ParsedAmount {
+  const { quantity, unit } = amount;
+  const target = unitSystem ? targetUnit(unit, unitSystem) : null;
+  if (quantity === null || (factor === 1 && target === null)) return amount;
+
+  const multiplier =
+    target !== null && isVolumeUnit(unit)
+      ? (factor * ML_PER_UNIT[unit]) / ML_PER_UNIT[target]
+      : factor;
+  const resultUnit = target ?? unit;
+  const scale = (value: number) => roundValue(value * multiplier, resultUnit);
+  return {
+    ...amount,
+    quantity:
+      quantity.kind === 'single'
+        ? { kind: 'single', value: scale(quantity.value) }
+        : { kind: 'range', min: scale(quantity.min), max: scale(quantity.max) },
+    unit: resultUnit,
+    unitText: target === null ? amount.unitText : null,
+  };
+}
+
+// =============================================================================
+// Amount Operations
+// =============================================================================
+
+/**
+ * Multiply an amount by `factor`, rounding to a bartender-friendly step for
+ * its unit. Amounts without a quantity are returned unchanged.
+ */
+export function scaleAmount(
+  amount: ParsedAmount,
+  factor: number,
+): ParsedAmount {
+  return transformAmount(amount, factor, undefined);
+}
+
+/**
+ * Convert a volume amount to the given unit system: oz and cups become ml
+ * for metric, ml and cl become oz for imperial. Spoon, dash and splash
+ * measures are shared by both systems and are returned unchanged, as are
+ * amounts without a quantity or a recognized unit.
+ */
+export function convertAmount(
+  amount: ParsedAmount,
+  unitSystem: UnitSystem,
+): ParsedAmount {
+  return transformAmount(amount, 1, unitSystem);
+}
+
+// =============================================================================
+// Recipe Scaling
+// =============================================================================
+
+/**
+ * Scale a recipe to a number of servings and/or convert its volumes to a
+ * unit system. Returns a new recipe; the input is not modified.
+ *
+ * "To taste" amounts are kept as is. Amounts without a quantity are kept and
+ * reported as `unparsed` when scaling; amounts with an unrecognized unit are
+ * scaled as counts and reported as `unknown_unit` when converting.
+ *
+ * @example
+ * ```ts
+ * const { recipe: pitcher, issues } = scaleRecipe(recipe, {
+ *   servings: 8,
+ *   unitSystem: 'metric',
+ * });
+ * // "2 oz" -> "475 ml"
+ * ```
+ */
+export function scaleRecipe<T extends Recipe>(
+  recipe: T,
+  options: ScaleRecipeOptions = {},
+): ScaleRecipeResult<T> {
+  const fromServings = options.fromServings ?? 1;
+  const factor = (options.servings ?? fromServings) / fromServings;
+  if (!Number.isFinite(factor) || factor <= 0) {
+    throw new RangeError('Servings must be positive numbers');
+  }
+
+  const issues: AmountIssue[] = [];
+  const ingredients = recipe.ingredients.map((ingredient, index) => {
+    const parsed = parseAmount(ingredient.amount);
+    const report = (reason: AmountIssueReason) =>
+      issues.push({
+        index,
+        ingredientId: ingredient.id,
+        amount: ingredient.amount,
+        reason,
+      });
+
+    if (parsed.unit === 'to_taste') return ingredient;
+    if (parsed.quantity === null) {
+      if (factor !== 1) report('unparsed');
+      return ingredient;
+    }
+    if (parsed.unit === null && options.unitSystem) report('unknown_unit');
+
+    const result = transformAmount(parsed, factor, options.unitSystem);
+    if (result === parsed) return ingredient;
+    return { ...ingredient, amount: formatAmount(result, options.format) };
+  });
+
+  return { recipe: { ...recipe, ingredients }, issues };
+}
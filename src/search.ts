@@ -0,0 +1,457 @@
+/**
+ * Embeddable full-text search over recipes and the catalog.
+ *
+ * {@link createSearchIndex} indexes {@link Recipe}, {@link Ingredient},
+ * {@link Equipment} and {@link Mood} entities by name, description,
+ * ingredient names and mood name. Text is lowercased and diacritic-folded
+ * ("Crème" matches "creme"); queries match whole words, prefixes and words
+ * with small typos. The index can be updated in place and saved to JSON for
+ * offline use.
+ */
+
+import type {
+  Equipment,
+  EquipmentSubcategory,
+  Ingredient,
+  IngredientSubcategory,
+  Mood,
+  Recipe,
+} from './index';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Entity types that can be indexed
+ */
+export interface SearchEntities {
+  recipe: Recipe;
+  ingredient: Ingredient;
+  equipment: Equipment;
+  mood: Mood;
+}
+
+/**
+ * Kind of an indexed entity
+ */
+export type SearchDocumentKind = keyof SearchEntities;
+
+/**
+ * Indexed text fields
+ * - `name`: entity name
+ * - `description`: recipe or mood description (and a mood's example drinks)
+ * - `ingredients`: ingredient names of a recipe
+ * - `mood`: mood name of a recipe
+ */
+export type SearchField = 'name' | 'description' | 'ingredients' | 'mood';
+
+/**
+ * Relative weight of each field in the score
+ */
+export type SearchFieldWeights = Record<SearchField, number>;
+
+/**
+ * Indexed form of an entity, as stored in a {@link SerializedSearchIndex}
+ */
+export interface SearchDocument {
+  kind: SearchDocumentKind;
+  id: number;
+  /** Display name */
+  name: string;
+  /** Folded tokens per field */
+  fields: Partial<Record<SearchField, string[]>>;
+  /** Ingredient or equipment subcategory */
+  subcategory?: IngredientSubcategory | EquipmentSubcategory;
+  /** Recipe mood id */
+  moodId?: number | null;
+}
+
+/**
+ * Options for {@link SearchIndex.search}
+ */
+export interface SearchOptions {
+  /** Only return these kinds of entities */
+  kinds?: SearchDocumentKind[];
+  /** Only return ingredients in this subcategory (other kinds are unaffected) */
+  ingredientSubcategory?: IngredientSubcategory;
+  /** Only return equipment in this subcategory (other kinds are unaffected) */
+  equipmentSubcategory?: EquipmentSubcategory;
+  /** Only return recipes with this mood and the mood itself (other kinds are unaffected) */
+  moodId?: number;
+  /** `and` (default) requires every query word to match; `or` requires any */
+  combine?: 'and' | 'or';
+  /** Match words by prefix (default `true`) */
+  prefix?: boolean;
+  /** Match words with small typos (default `true`) */
+  fuzzy?: boolean;
+  /** Override field weights for this search */
+  fieldWeights?: Partial<SearchFieldWeights>;
+  /** Maximum number of results; defaults to 20 */
+  limit?: number;
+}
+
+/**
+ * A search hit
+ */
+export interface SearchResult {
+  kind: SearchDocumentKind;
+  id: number;
+  name: string;
+  /** Relevance score; higher is better */
+  score: number;
+  /** Fields that matched the query */
+  matchedFields: SearchField[];
+}
+
+/**
+ * Options for {@link createSearchIndex}
+ */
+export interface SearchIndexOptions {
+  /** Field weights; defaults to {@link DEFAULT_SEARCH_FIELD_WEIGHTS} */
+  fieldWeights?: Partial<SearchFieldWeights>;
+}
+
+/**
+ * JSON form of a {@link SearchIndex}
+ */
+export interface SerializedSearchIndex {
+  version: 1;
+  fieldWeights: SearchFieldWeights;
+  documents: SearchDocument[];
+}
+
+/**
+ * In-memory search index
+ */
+export interface SearchIndex {
+  /** Number of indexed entities */
+  readonly size: number;
+  /** Index an entity, replacing any entity of the same kind and id */
+  add<K extends SearchDocumentKind>(kind: K, entity: SearchEntities[K]): void;
+  /** Index several entities of one kind */
+  addAll<K extends SearchDocumentKind>(
+    kind: K,
+    entities: readonly SearchEntities[K][],
+  ): void;
+  /** Remove an entity; returns `false` when it was not indexed */
+  remove(kind: SearchDocumentKind, id: number): boolean;
+  /** Whether an entity is indexed */
+  has(kind: SearchDocumentKind, id: number): boolean;
+  /** Search the index, best matches first */
+  search(query: string, options?: SearchOptions): SearchResult[];
+  /** JSON form, for {@link loadSearchIndex} */
+  toJSON(): SerializedSearchIndex;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Default field weights
+ */
+export const DEFAULT_SEARCH_FIELD_WEIGHTS: Readonly<SearchFieldWeights> = {
+  name: 3,
+  ingredients: 2,
+  mood: 1.5,
+  description: 1,
+};
+
+/** Score multiplier for prefix matches. */
+const PREFIX_QUALITY = 0.75;
+
+/** Score multiplier per typo distance. */
+const TYPO_QUALITY = [1, 0.5, 0.3];
+
+// =============================================================================
+// Text Processing
+// =============================================================================
+
+/**
+ * Split text into lowercase, diacritic-free words
+ *
+ * @example
+ * ```ts
+ * tokenize('Crème de Cassis'); // ['creme', 'de', 'cassis']
+ * ```
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token !== '');
+}
+
+/** Typos allowed for a query word of this length. */
+function maxTypos(length: number): number {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps),
+ * giving up once it exceeds `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prev2[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** How well an indexed term matches a query word (0 for no match). */
+function matchQuality(
+  word: string,
+  term: string,
+  prefix: boolean,
+  fuzzy: boolean,
+): number {
+  if (term === word) return 1;
+  if (prefix && word.length >= 2 && term.startsWith(word)) {
+    return PREFIX_QUALITY;
+  }
+  if (!fuzzy) return 0;
+  const max = maxTypos(word.length);
+  if (max === 0) return 0;
+  const distance = editDistance(word, term, max);
+  return distance <= max ? TYPO_QUALITY[distance] : 0;
+}
+
+// =============================================================================
+// Documents
+// =============================================================================
+
+function toDocument<K extends SearchDocumentKind>(
+  kind: K,
+  entity: SearchEntities[K],
+): SearchDocument {
+  const doc: SearchDocument = {
+    kind,
+    id: entity.id,
+    name: entity.name,
+    fields: { name: tokenize(entity.name) },
+  };
+  if (kind === 'recipe') {
+    const recipe = entity as Recipe;
+    doc.fields.description = tokenize(recipe.description ?? '');
+    doc.fields.ingredients = recipe.ingredients.flatMap((item) =>
+      tokenize(item.name),
+    );
+    doc.fields.mood = tokenize(recipe.mood?.name ?? '');
+    doc.moodId = recipe.moodId;
+  } else if (kind === 'mood') {
+    const mood = entity as Mood;
+    doc.fields.description = tokenize(
+      `${mood.description} ${mood.exampleDrinks}`,
+    );
+  } else {
+    doc.subcategory = (entity as Ingredient | Equipment).subcategory;
+  }
+  return doc;
+}
+
+function passesFilters(doc: SearchDocument, options: SearchOptions): boolean {
+  if (options.kinds && !options.kinds.includes(doc.kind)) return false;
+  if (
+    doc.kind === 'ingredient' &&
+    options.ingredientSubcategory !== undefined &&
+    doc.subcategory !== options.ingredientSubcategory
+  ) {
+    return false;
+  }
+  if (
+    doc.kind === 'equipment' &&
+    options.equipmentSubcategory !== undefined &&
+    doc.subcategory !== options.equipmentSubcategory
+  ) {
+    return false;
+  }
+  if (options.moodId !== undefined) {
+    if (doc.kind === 'recipe' && doc.moodId !== options.moodId) return false;
+    if (doc.kind === 'mood' && doc.id !== options.moodId) return false;
+  }
+  return true;
+}
+
+const documentKey = (kind: SearchDocumentKind, id: number) => `${kind}:${id}`;
+
+// =============================================================================
+// Index
+// =============================================================================
+
+/**
+ * Create an empty search index
+ *
+ * @example
+ * ```ts
+ * const index = createSearchIndex();
+ * index.addAll('recipe', recipes);
+ * index.addAll('ingredient', ingredients);
+ * index.search('margarta', { kinds: ['recipe'] }); // typo-tolerant
+ * localStorage.setItem('search', JSON.stringify(index));
+ * ```
+ */
+export function createSearchIndex(
+  options: SearchIndexOptions = {},
+): SearchIndex {
+  return buildIndex(
+    { ...DEFAULT_SEARCH_FIELD_WEIGHTS, ...options.fieldWeights },
+    [],
+  );
+}
+
+/**
+ * Restore an index saved with {@link SearchIndex.toJSON}. Throws when the
+ * format version is not supported.
+ */
+export function loadSearchIndex(data: SerializedSearchIndex): SearchIndex {
+  if (data.version !== 1) {
+    throw new Error(`Unsupported search index version: ${data.version}`);
+  }
+  return buildIndex({ ...data.fieldWeights }, data.documents);
+}
+
+function buildIndex(
+  fieldWeights: SearchFieldWeights,
+  initial: readonly SearchDocument[],
+): SearchIndex {
+  const documents = new Map<string, SearchDocument>();
+  // term -> document key -> fields containing the term
+  const postings = new Map<string, Map<string, Set<SearchField>>>();
+
+  const insert = (doc: SearchDocument) => {
+    const key = documentKey(doc.kind, doc.id);
+    if (documents.has(key)) remove(doc.kind, doc.id);
+    documents.set(key, doc);
+    for (const [field, terms] of Object.entries(doc.fields) as [
+      SearchField,
+      string[],
+    ][]) {
+      for (const term of terms) {
+        let docs = postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          postings.set(term, docs);
+        }
+        const fields = docs.get(key) ?? new Set();
+        fields.add(field);
+        docs.set(key, fields);
+      }
+    }
+  };
+
+  const remove = (kind: SearchDocumentKind, id: number): boolean => {
+    const key = documentKey(kind, id);
+    const doc = documents.get(key);
+    if (!doc) return false;
+    documents.delete(key);
+    for (const terms of Object.values(doc.fields)) {
+      for (const term of terms ?? []) {
+        const docs = postings.get(term);
+        docs?.delete(key);
+        if (docs?.size === 0) postings.delete(term);
+      }
+    }
+    return true;
+  };
+
+  const search = (query: string, options: SearchOptions = {}) => {
+    const words = [...new Set(tokenize(query))];
+    if (words.length === 0) return [];
+    const weights = { ...fieldWeights, ...options.fieldWeights };
+    const prefix = options.prefix ?? true;
+    const fuzzy = options.fuzzy ?? true;
+
+    const matched = new Map<string, Set<SearchField>>();
+    // Best score of each query word per document
+    const perWord = words.map((word) => {
+      const scores = new Map<string, number>();
+      for (const [term, docs] of postings) {
+        const quality = matchQuality(word, term, prefix, fuzzy);
+        if (quality === 0) continue;
+        for (const [key, fields] of docs) {
+          const weight = Math.max(...[...fields].map((f) => weights[f]));
+          const score = quality * weight;
+          if (score > (scores.get(key) ?? 0)) scores.set(key, score);
+          const matchedFields = matched.get(key) ?? new Set();
+          fields.forEach((field) => matchedFields.add(field));
+          matched.set(key, matchedFields);
+        }
+      }
+      // Rare words count more than common ones
+      const idf = Math.log(1 + documents.size / Math.max(1, scores.size));
+      for (const [key, score] of scores) scores.set(key, score * idf);
+      return scores;
+    });
+
+    const totals = new Map<string, number>();
+    for (const scores of perWord) {
+      for (const [key, score] of scores) {
+        totals.set(key, (totals.get(key) ?? 0) + score);
+      }
+    }
+
+    const results: SearchResult[] = [];
+    for (const [key, score] of totals) {
+      if (
+        (options.combine ?? 'and') === 'and' &&
+        perWord.some((scores) => !scores.has(key))
+      ) {
+        continue;
+      }
+      const doc = documents.get(key);
+      if (!doc || !passesFilters(doc, options)) continue;
+      results.push({
+        kind: doc.kind,
+        id: doc.id,
+        name: doc.name,
+        score,
+        matchedFields: [...(matched.get(key) ?? [])],
+      });
+    }
+    results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+    return results.slice(0, options.limit ?? 20);
+  };
+
+  for (const doc of initial) insert(doc);
+
+  return {
+    get size() {
+      return documents.size;
+    },
+    add(kind, entity) {
+      insert(toDocument(kind, entity));
+    },
+    addAll(kind, entities) {
+      for (const entity of entities) insert(toDocument(kind, entity));
+    },
+    remove,
+    has: (kind, id) => documents.has(documentKey(kind, id)),
+    search,
+    toJSON: () => ({
+      version: 1,
+      fieldWeights: { ...fieldWeights },
+      documents: [...documents.values()],
+    }),
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * Shopping list aggregation across several recipes.
+ *
+ * Merges {@link RecipeIngredient} entries by ingredient id, adds up amounts
+ * in compatible units, sets aside what the user already owns and groups the
+ * rest by {@link IngredientSubcategory}. Missing equipment is listed
+ * separately.
+ */
+
+import { INGREDIENT_SUBCATEGORIES } from './enums';
+import type {
+  Ingredient,
+  IngredientSubcategory,
+  Recipe,
+  RecipeEquipment,
+} from './index';
+import {
+  formatAmount,
+  parseAmount,
+  type AmountQuantity,
+  type AmountUnit,
+  type FormatAmountOptions,
+  type ParsedAmount,
+} from './amount';
+import type { UserInventory } from './matching';
+import {
+  ML_PER_UNIT,
+  isVolumeUnit,
+  type UnitSystem,
+  type VolumeUnit,
+} from './scaling';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A summed amount on a shopping list
+ */
+export type ShoppingAmount = Omit<ParsedAmount, 'original'>;
+
+/**
+ * One ingredient on a shopping list
+ */
+export interface ShoppingListItem {
+  /** Ingredient ID */
+  ingredientId: number;
+  /** Display name of the ingredient */
+  name: string;
+  /** Subcategory from the catalog; `other` when the ingredient is not in it */
+  subcategory: IngredientSubcategory;
+  /** Totals, one per group of compatible units */
+  amounts: ShoppingAmount[];
+  /** Amounts that cannot be added up, as written (e.g., "to taste") */
+  notes: string[];
+  /** IDs of the recipes that use the ingredient */
+  recipeIds: number[];
+}
+
+/**
+ * Items of one ingredient subcategory
+ */
+export interface ShoppingListGroup {
+  /** Ingredient subcategory */
+  subcategory: IngredientSubcategory;
+  /** Items in first-use order */
+  items: ShoppingListItem[];
+}
+
+/**
+ * Consolidated shopping list for a set of recipes
+ */
+export interface ShoppingList {
+  /** Ingredients to buy, grouped in {@link INGREDIENT_SUBCATEGORIES} order; empty groups are omitted */
+  groups: ShoppingListGroup[];
+  /** Ingredients the user already has */
+  owned: ShoppingListItem[];
+  /** Equipment the recipes need that the user does not have */
+  missingEquipment: RecipeEquipment[];
+}
+
+/**
+ * Options for {@link buildShoppingList}
+ */
+export interface ShoppingListOptions {
+  /** Servings to make per recipe id; recipes not listed make one serving */
+  servings?: Record<number, number>;
+  /** What the user already owns; owned items are moved to `owned` */
+  inventory?: UserInventory;
+  /** Unit for totals that mix volume units: `ml` for metric, `oz` for imperial (default) */
+  unitSystem?: UnitSystem;
+}
+
+/**
+ * Options for {@link renderShoppingList}
+ */
+export interface RenderShoppingListOptions {
+  /** Output format; defaults to `text` */
+  format?: 'text' | 'markdown';
+  /** Title line; defaults to "Shopping List" */
+  title?: string;
+  /** How amounts are printed */
+  amounts?: FormatAmountOptions;
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+interface Total {
+  unit: AmountUnit | null;
+  unitText: string | null;
+  min: number;
+  max: number;
+}
+
+interface Accumulator {
+  item: ShoppingListItem;
+  volumes: Map<VolumeUnit, Total>;
+  counts: Map<string, Total>;
+}
+
+function bounds(quantity: AmountQuantity, factor: number): [number, number] {
+  return quantity.kind === 'single'
+    ? [quantity.value * factor, quantity.value * factor]
+    : [quantity.min * factor, quantity.max * factor];
+}
+
+function addTo<K>(
+  totals: Map<K, Total>,
+  key: K,
+  amount: ParsedAmount,
+  [min, max]: [number, number],
+): void {
+  const total = totals.get(key);
+  if (total) {
+    total.min += min;
+    total.max += max;
+  } else {
+    totals.set(key, { unit: amount.unit, unitText: amount.unitText, min, max });
+  }
+}
+
+function toAmount({ unit, unitText, min, max }: Total): ShoppingAmount {
+  const quantity: AmountQuantity =
+    min === max ? { kind: 'single', value: min } : { kind: 'range', min, max };
+  return { quantity, unit, unitText };
+}
+
+/** Sum volume totals, converting only when units are mixed. */
+function volumeAmount(
+  volumes: Map<VolumeUnit, Total>,
+  unitSystem: UnitSystem,
+): ShoppingAmount | null {
+  if (volumes.size === 0) return null;
+  if (volumes.size === 1) return toAmount([...volumes.values()][0]);
+
+  const target: VolumeUnit = unitSystem === 'metric' ? 'ml' : 'oz';
+  const step = target === 'ml' ? 1 : 0.25;
+  let min = 0;
+  let max = 0;
+  for (const [unit, total] of volumes) {
+    min += (total.min * ML_PER_UNIT[unit]) / ML_PER_UNIT[target];
+    max += (total.max * ML_PER_UNIT[unit]) / ML_PER_UNIT[target];
+  }
+  // Round up: it is better to buy slightly too much than too little
+  const roundUp = (value: number) => Math.ceil(value / step - 1e-9) * step;
+  return toAmount({
+    unit: target,
+    unitText: null,
+    min: roundUp(min),
+    max: roundUp(max),
+  });
+}
+
+/**
+ * Build a consolidated shopping list for a set of recipes.
+ *
+ * Amounts of the same ingredient are added up when their units are
+ * compatible: volumes in one unit stay in that unit, mixed volume units are
+ * converted, and counts are added per unit (e.g., pieces, sprigs). "To
+ * taste" and other free-text amounts are kept as notes.
+ *
+ * @example
+ * ```ts
+ * const list = buildShoppingList(partyRecipes, ingredients, {
+ *   servings: { [margarita.id]: 6 },
+ *   inventory: preferences,
+ * });
+ * console.log(renderShoppingList(list, { format: 'markdown' }));
+ * ```
+ */
+export function buildShoppingList(
+  recipes: readonly Recipe[],
+  catalog: readonly Ingredient[],
+  options: ShoppingListOptions = {},
+): ShoppingList {
+  const byId = new Map(
+    catalog.map((ingredient) => [ingredient.id, ingredient]),
+  );
+  const ownedIngredients = new Set(options.inventory?.ingredient_ids ?? []);
+  const ownedEquipment = new Set(options.inventory?.equipment_ids ?? []);
+  const accumulators = new Map<number, Accumulator>();
+  const missingEquipment = new Map<number, RecipeEquipment>();
+
+  for (const recipe of recipes) {
+    const factor = options.servings?.[recipe.id] ?? 1;
+    for (const entry of recipe.ingredients) {
+      let acc = accumulators.get(entry.id);
+      if (!acc) {
+        acc = {
+          item: {
+            ingredientId: entry.id,
+            name: byId.get(entry.id)?.name ?? entry.name,
+            subcategory: byId.get(entry.id)?.subcategory ?? 'other',
+            amounts: [],
+            notes: [],
+            recipeIds: [],
+          },
+          volumes: new Map(),
+          counts: new Map(),
+        };
+        accumulators.set(entry.id, acc);
+      }
+      if (!acc.item.recipeIds.includes(recipe.id)) {
+        acc.item.recipeIds.push(recipe.id);
+      }
+
+      const amount = parseAmount(entry.amount);
+      if (amount.quantity === null || amount.unit === 'to_taste') {
+        const note = amount.unit === 'to_taste' ? 'to taste' : amount.original;
+        if (!acc.item.notes.includes(note)) acc.item.notes.push(note);
+      } else if (isVolumeUnit(amount.unit)) {
+        addTo(
+          acc.volumes,
+          amount.unit,
+          amount,
+          bounds(amount.quantity, factor),
+        );
+      } else {
+        const key = amount.unit ?? amount.unitText?.toLowerCase() ?? '';
+        addTo(acc.counts, key, amount, bounds(amount.quantity, factor));
+      }
+    }
+    for (const item of recipe.equipment) {
+      if (!ownedEquipment.has(item.id) && !missingEquipment.has(item.id)) {
+        missingEquipment.set(item.id, item);
+      }
+    }
+  }
+
+  const unitSystem = options.unitSystem ?? 'imperial';
+  const groups = new Map<IngredientSubcategory, ShoppingListItem[]>();
+  const owned: ShoppingListItem[] = [];
+  for (const { item, volumes, counts } of accumulators.values()) {
+    const volume = volumeAmount(volumes, unitSystem);
+    item.amounts = [
+      ...(volume ? [volume] : []),
+      ...[...counts.values()].map(toAmount),
+    ];
+    if (ownedIngredients.has(item.ingredientId)) {
+      owned.push(item);
+      continue;
+    }
+    const group = groups.get(item.subcategory) ?? [];
+    group.push(item);
+    groups.set(item.subcategory, group);
+  }
+
+  return {
+    groups: INGREDIENT_SUBCATEGORIES.filter((subcategory) =>
+      groups.has(subcategory),
+    ).map((subcategory) => ({
+      subcategory,
+      items: groups.get(subcategory) ?? [],
+    })),
+    owned,
+    missingEquipment: [...missingEquipment.values()],
+  };
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+const SUBCATEGORY_LABELS: Record<IngredientSubcategory, string> = {
+  spirit: 'Spirits',
+  wine: 'Wine',
+  other_alcohol: 'Other Alcohol',
+  fruit: 'Fruit',
+  spice: 'Spices',
+  other: 'Other',
+};
+
+function describeItem(
+  item: ShoppingListItem,
+  options: FormatAmountOptions | undefined,
+): string {
+  const parts = [
+    ...item.amounts.map((amount) => formatAmount(amount, options)),
+    ...item.notes,
+  ];
+  return parts.length > 0 ? `${item.name}: ${parts.join(' + ')}` : item.name;
+}
+
+/**
+ * Render a {@link ShoppingList} as plain text or a Markdown checklist
+ */
+export function renderShoppingList(
+  list: ShoppingList,
+  options: RenderShoppingListOptions = {},
+): string {
+  const markdown = options.format === 'markdown';
+  const title = options.title ?? 'Shopping List';
+  const lines: string[] = [markdown ? `# ${title}` : title.toUpperCase()];
+  const section = (heading: string, entries: string[]) => {
+    if (entries.length === 0) return;
+    lines.push('', markdown ? `## ${heading}` : heading);
+    for (const entry of entries) {
+      lines.push(markdown ? `- [ ] ${entry}` : `  - ${entry}`);
+    }
+  };
+
+  for (const group of list.groups) {
+    section(
+      SUBCATEGORY_LABELS[group.subcategory],
+      group.items.map((item) => describeItem(item, options.amounts)),
+    );
+  }
+  section(
+    'Equipment',
+    list.missingEquipment.map((item) => item.name),
+  );
+  if (list.groups.length === 0 && list.missingEquipment.length === 0) {
+    lines.push('', 'Nothing to buy.');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,263 @@
+/**
+ * "You might also like" recommendations from recipe feature overlap.
+ *
+ * Each recipe becomes a sparse feature vector of its ingredients, ingredient
+ * subcategories, equipment and mood. Features are weighted by rarity across
+ * the corpus (IDF) and by kind, so sharing an uncommon liqueur counts for
+ * more than sharing ice or a shaker. Similarity is the cosine of two
+ * vectors; an inverted index keeps lookups fast over a few thousand recipes.
+ */
+
+import type {
+  Ingredient,
+  IngredientSubcategory,
+  Recipe,
+  RecipeEquipment,
+  RecipeIngredient,
+} from './index';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Kind of feature a recipe vector is built from
+ */
+export type SimilarityFeatureKind =
+  | 'ingredient'
+  | 'subcategory'
+  | 'equipment'
+  | 'mood';
+
+/**
+ * Relative weight of each feature kind
+ */
+export type SimilarityWeights = Record<SimilarityFeatureKind, number>;
+
+/**
+ * Options for {@link createSimilarityIndex}
+ */
+export interface SimilarityIndexOptions {
+  /** Ingredient catalog used to look up subcategories; without it subcategories are ignored */
+  ingredients?: readonly Ingredient[];
+  /** Per-kind weights; defaults to {@link DEFAULT_SIMILARITY_WEIGHTS} */
+  weights?: Partial<SimilarityWeights>;
+}
+
+/**
+ * Options for {@link SimilarityIndex.similarTo}
+ */
+export interface SimilarRecipesOptions {
+  /** Maximum number of results; defaults to 5 */
+  limit?: number;
+  /** Recipe IDs to leave out, e.g. the user's favorites and rated recipes */
+  exclude?: Iterable<number>;
+  /** Lowest score (0-1) to include; defaults to any overlap */
+  minScore?: number;
+}
+
+/**
+ * Features a recommended recipe shares with the source recipe, rarest
+ * (most telling) first
+ */
+export interface SharedFeatures {
+  ingredients: RecipeIngredient[];
+  subcategories: IngredientSubcategory[];
+  equipment: RecipeEquipment[];
+  /** Shared mood ID, or `null` when the moods differ */
+  moodId: number | null;
+}
+
+/**
+ * A recommended recipe
+ */
+export interface SimilarRecipe<T extends Recipe = Recipe> {
+  recipe: T;
+  /** Cosine similarity from 0 to 1 */
+  score: number;
+  shared: SharedFeatures;
+}
+
+/**
+ * Precomputed recipe vectors
+ */
+export interface SimilarityIndex<T extends Recipe = Recipe> {
+  /** Number of indexed recipes */
+  readonly size: number;
+  /**
+   * Recipes most similar to `recipe` (an indexed recipe or its ID), best
+   * first. The recipe itself is never returned; unknown IDs return `[]`.
+   */
+  similarTo(
+    recipe: number | Recipe,
+    options?: SimilarRecipesOptions,
+  ): SimilarRecipe<T>[];
+}
+
+/**
+ * Default feature weights: ingredients dominate, mood and subcategories
+ * break ties between recipes with similar ingredient overlap
+ */
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = {
+  ingredient: 1,
+  subcategory: 0.4,
+  equipment: 0.2,
+  mood: 0.6,
+};
+
+// =============================================================================
+// Vectors
+// =============================================================================
+
+/** Feature key, e.g. "ingredient:12" or "subcategory:spirit". */
+type Feature = `${SimilarityFeatureKind}:${string}`;
+
+interface Vector {
+  weights: Map<Feature, number>;
+  norm: number;
+}
+
+function moodIdOf(recipe: Recipe): number | null {
+  return recipe.moodId ?? recipe.mood?.id ?? null;
+}
+
+function featuresOf(
+  recipe: Recipe,
+  subcategories: Map<number, IngredientSubcategory>,
+): Set<Feature> {
+  const features = new Set<Feature>();
+  for (const item of recipe.ingredients) {
+    features.add(`ingredient:${item.id}`);
+    const subcategory = subcategories.get(item.id);
+    if (subcategory) features.add(`subcategory:${subcategory}`);
+  }
+  for (const item of recipe.equipment) features.add(`equipment:${item.id}`);
+  const moodId = moodIdOf(recipe);
+  if (moodId !== null) features.add(`mood:${moodId}`);
+  return features;
+}
+
+function kindOf(feature: Feature): SimilarityFeatureKind {
+  return feature.slice(0, feature.indexOf(':')) as SimilarityFeatureKind;
+}
+
+// =============================================================================
+// Index
+// =============================================================================
+
+/**
+ * Build a similarity index over a recipe corpus
+ *
+ * @example
+ * ```ts
+ * const index = createSimilarityIndex(recipes, { ingredients });
+ * const alsoLike = index.similarTo(recipe.id, {
+ *   limit: 4,
+ *   exclude: [...favorites.map((r) => r.id), ...myRatings.map((r) => r.recipe_id)],
+ * });
+ * alsoLike[0].shared.ingredients; // e.g. [{ name: 'Campari', ... }]
+ * ```
+ */
+export function createSimilarityIndex<T extends Recipe>(
+  recipes: readonly T[],
+  options: SimilarityIndexOptions = {},
+): SimilarityIndex<T> {
+  const weights = { ...DEFAULT_SIMILARITY_WEIGHTS, ...options.weights };
+  const subcategories = new Map(
+    (options.ingredients ?? []).map((item) => [item.id, item.subcategory]),
+  );
+
+  const features = recipes.map((recipe) => featuresOf(recipe, subcategories));
+  const postings = new Map<Feature, number[]>();
+  features.forEach((set, doc) => {
+    for (const feature of set) {
+      const list = postings.get(feature) ?? [];
+      list.push(doc);
+      postings.set(feature, list);
+    }
+  });
+
+  const count = recipes.length;
+  // Unseen features (from recipes outside the corpus) get the rarest weight.
+  const weightOf = (feature: Feature): number =>
+    weights[kindOf(feature)] *
+    Math.log(1 + count / (postings.get(feature)?.length ?? 1));
+
+  const vectorOf = (set: Set<Feature>): Vector => {
+    const map = new Map<Feature, number>();
+    let sum = 0;
+    for (const feature of set) {
+      const weight = weightOf(feature);
+      if (weight > 0) {
+        map.set(feature, weight);
+        sum += weight * weight;
+      }
+    }
+    return { weights: map, norm: Math.sqrt(sum) };
+  };
+  const vectors = features.map(vectorOf);
+  const byId = new Map(recipes.map((recipe, doc) => [recipe.id, doc]));
+
+  const explain = (source: Vector, target: T): SharedFeatures => {
+    const rank = <V>(items: V[], feature: (item: V) => Feature): V[] =>
+      items
+        .filter((item) => source.weights.has(feature(item)))
+        .sort((a, b) => weightOf(feature(b)) - weightOf(feature(a)));
+    const targetSubcategories = new Set<IngredientSubcategory>();
+    for (const item of target.ingredients) {
+      const subcategory = subcategories.get(item.id);
+      if (subcategory) targetSubcategories.add(subcategory);
+    }
+    const moodId = moodIdOf(target);
+    return {
+      ingredients: rank(target.ingredients, (item) => `ingredient:${item.id}`),
+      subcategories: rank(
+        [...targetSubcategories],
+        (subcategory) => `subcategory:${subcategory}`,
+      ),
+      equipment: rank(target.equipment, (item) => `equipment:${item.id}`),
+      moodId:
+        moodId !== null && source.weights.has(`mood:${moodId}`) ? moodId : null,
+    };
+  };
+
+  return {
+    get size() {
+      return count;
+    },
+    similarTo(recipe, queryOptions = {}) {
+      const sourceId = typeof recipe === 'number' ? recipe : recipe.id;
+      const sourceDoc = byId.get(sourceId);
+      let source: Vector;
+      if (sourceDoc !== undefined) source = vectors[sourceDoc];
+      else if (typeof recipe === 'number') return [];
+      else source = vectorOf(featuresOf(recipe, subcategories));
+      if (source.norm === 0) return [];
+
+      const excluded = new Set(queryOptions.exclude ?? []);
+      excluded.add(sourceId);
+      const dots = new Map<number, number>();
+      for (const [feature, weight] of source.weights) {
+        for (const doc of postings.get(feature) ?? []) {
+          const target = vectors[doc].weights.get(feature) ?? 0;
+          dots.set(doc, (dots.get(doc) ?? 0) + weight * target);
+        }
+      }
+
+      const minScore = queryOptions.minScore ?? 0;
+      const scored: { doc: number; score: number }[] = [];
+      for (const [doc, dot] of dots) {
+        if (excluded.has(recipes[doc].id)) continue;
+        const score = dot / (source.norm * vectors[doc].norm);
+        if (score > 0 && score >= minScore) scored.push({ doc, score });
+      }
+      scored.sort((a, b) => b.score - a.score || a.doc - b.doc);
+
+      return scored.slice(0, queryOptions.limit ?? 5).map(({ doc, score }) => ({
+        recipe: recipes[doc],
+        score,
+        shared: explain(source, recipes[doc]),
+      }));
+    },
+  };
+}
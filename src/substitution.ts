@@ -0,0 +1,277 @@
+/**
+ * Ingredient substitutions.
+ *
+ * A {@link SubstitutionGraph} holds directed edges between ingredient ids:
+ * "lemon juice can stand in for lime juice", "agave at 0.75× for simple
+ * syrup". {@link proposeSubstitutedRecipes} uses it to turn a recipe the user
+ * is a few ingredients short of into variants made only from what they own,
+ * with amounts adjusted by each substitution's ratio.
+ */
+
+import type { Ingredient, Recipe, RecipeIngredient } from './index';
+import { formatAmount, parseAmount } from './amount';
+import type { UserInventory } from './matching';
+import { scaleAmount } from './scaling';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A directed substitution: `to` can replace `from`
+ */
+export interface IngredientSubstitution {
+  /** ID of the ingredient the recipe calls for */
+  from: number;
+  /** ID of the ingredient used instead */
+  to: number;
+  /** Amount of `to` per unit of `from` (0.75 uses three quarters as much) */
+  ratio: number;
+  /** How close the result is, from 0 (poor) to 1 (indistinguishable) */
+  quality: number;
+  /** Advice shown with the substitution (e.g., "Slightly more tart") */
+  notes?: string;
+  /** Also add the reverse edge, with the inverse ratio and same quality */
+  bidirectional?: boolean;
+}
+
+/**
+ * Substitution edges indexed by the ingredient they replace
+ */
+export interface SubstitutionGraph {
+  /** Number of directed edges */
+  readonly size: number;
+  /** Substitutes for an ingredient, best quality first */
+  substitutesFor(ingredientId: number): IngredientSubstitution[];
+  /** Add an edge, replacing an existing edge between the same ingredients */
+  add(substitution: IngredientSubstitution): void;
+  /** All directed edges */
+  toJSON(): IngredientSubstitution[];
+}
+
+/**
+ * Options for {@link proposeSubstitutedRecipes}
+ */
+export interface ProposeSubstitutionsOptions {
+  /** Most missing ingredients to substitute in one variant; defaults to 2 */
+  maxSubstitutions?: number;
+  /** Lowest edge quality to use; defaults to 0 */
+  minQuality?: number;
+  /** Maximum number of variants; defaults to 3 */
+  limit?: number;
+}
+
+/**
+ * One replaced ingredient in a {@link SubstitutedRecipe}
+ */
+export interface AppliedSubstitution {
+  /** Index of the ingredient in `recipe.ingredients` */
+  index: number;
+  /** The ingredient as the original recipe calls for it */
+  original: RecipeIngredient;
+  /** The substitute with its adjusted amount */
+  replacement: RecipeIngredient;
+  /** The edge that was used */
+  substitution: IngredientSubstitution;
+}
+
+/**
+ * A variant of a recipe that uses only owned ingredients
+ */
+export interface SubstitutedRecipe<T extends Recipe = Recipe> {
+  /** Copy of the recipe with the substitutes in place */
+  recipe: T;
+  /** Substitutions made, in recipe order */
+  substitutions: AppliedSubstitution[];
+  /** Product of the substitution qualities, from 0 to 1 */
+  quality: number;
+}
+
+// =============================================================================
+// Graph
+// =============================================================================
+
+function checkSubstitution(substitution: IngredientSubstitution): void {
+  const { from, to, ratio, quality } = substitution;
+  if (from === to) {
+    throw new RangeError(`Ingredient ${from} cannot substitute for itself`);
+  }
+  if (!(ratio > 0) || !Number.isFinite(ratio)) {
+    throw new RangeError(`Substitution ratio must be positive, got ${ratio}`);
+  }
+  if (!(quality >= 0 && quality <= 1)) {
+    throw new RangeError(`Substitution quality must be 0-1, got ${quality}`);
+  }
+}
+
+/**
+ * Build a substitution graph. Bidirectional edges are expanded into two
+ * directed edges; throws a `RangeError` for self-loops, non-positive ratios
+ * or qualities outside 0-1.
+ *
+ * @example
+ * ```ts
+ * const graph = createSubstitutionGraph([
+ *   { from: LIME_JUICE, to: LEMON_JUICE, ratio: 1, quality: 0.8, bidirectional: true },
+ *   { from: SIMPLE_SYRUP, to: AGAVE_SYRUP, ratio: 0.75, quality: 0.85,
+ *     notes: 'Agave is sweeter; use less' },
+ * ]);
+ * ```
+ */
+export function createSubstitutionGraph(
+  substitutions: readonly IngredientSubstitution[] = [],
+): SubstitutionGraph {
+  const edges = new Map<number, Map<number, IngredientSubstitution>>();
+
+  const put = (substitution: IngredientSubstitution): void => {
+    const targets = edges.get(substitution.from) ?? new Map();
+    targets.set(substitution.to, substitution);
+    edges.set(substitution.from, targets);
+  };
+
+  const graph: SubstitutionGraph = {
+    get size() {
+      let size = 0;
+      for (const targets of edges.values()) size += targets.size;
+      return size;
+    },
+    substitutesFor(ingredientId) {
+      return [...(edges.get(ingredientId)?.values() ?? [])].sort(
+        (a, b) => b.quality - a.quality,
+      );
+    },
+    add(substitution) {
+      checkSubstitution(substitution);
+      const { bidirectional, ...edge } = substitution;
+      put(edge);
+      if (bidirectional) {
+        put({ ...edge, from: edge.to, to: edge.from, ratio: 1 / edge.ratio });
+      }
+    },
+    toJSON() {
+      const result: IngredientSubstitution[] = [];
+      for (const targets of edges.values()) result.push(...targets.values());
+      return result;
+    },
+  };
+  for (const substitution of substitutions) graph.add(substitution);
+  return graph;
+}
+
+// =============================================================================
+// Proposals
+// =============================================================================
+
+/**
+ * Rewrite an amount for a substitute. "To taste" and amounts without a
+ * quantity are kept as written.
+ */
+function substituteAmount(amount: string, ratio: number): string {
+  if (ratio === 1) return amount;
+  const parsed = parseAmount(amount);
+  if (parsed.quantity === null || parsed.unit === 'to_taste') return amount;
+  return formatAmount(scaleAmount(parsed, ratio));
+}
+
+/**
+ * Propose variants of a recipe in which every missing ingredient is
+ * replaced by an owned substitute. Returns `[]` when the recipe needs
+ * equipment the user lacks, when more than `maxSubstitutions` ingredients
+ * are missing, or when a missing ingredient has no owned substitute. A
+ * recipe with nothing missing also returns `[]`. Substitutes the recipe
+ * already contains are skipped, and no substitute replaces two ingredients.
+ *
+ * Variants are ranked by {@link SubstitutedRecipe.quality}.
+ *
+ * @example
+ * ```ts
+ * const { missingIngredients } = matchRecipes(recipes, preferences, {
+ *   maxMissing: 2,
+ * });
+ * const tonight = missingIngredients.flatMap((match) =>
+ *   proposeSubstitutedRecipes(match.recipe, preferences, graph, ingredients, {
+ *     limit: 1,
+ *   }),
+ * );
+ * ```
+ */
+export function proposeSubstitutedRecipes<T extends Recipe>(
+  recipe: T,
+  inventory: UserInventory,
+  graph: SubstitutionGraph,
+  ingredients: readonly Ingredient[],
+  options: ProposeSubstitutionsOptions = {},
+): SubstitutedRecipe<T>[] {
+  const owned = new Set(inventory.ingredient_ids);
+  const ownedEquipment = new Set(inventory.equipment_ids);
+  if (recipe.equipment.some((item) => !ownedEquipment.has(item.id))) return [];
+
+  const missing = recipe.ingredients
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => !owned.has(item.id));
+  const maxSubstitutions = options.maxSubstitutions ?? 2;
+  if (missing.length === 0 || missing.length > maxSubstitutions) return [];
+
+  const catalog = new Map(ingredients.map((item) => [item.id, item]));
+  const present = new Set(recipe.ingredients.map((item) => item.id));
+  const minQuality = options.minQuality ?? 0;
+  const choices: AppliedSubstitution[][] = [];
+  for (const { item, index } of missing) {
+    const candidates: AppliedSubstitution[] = [];
+    for (const substitution of graph.substitutesFor(item.id)) {
+      const substitute = catalog.get(substitution.to);
+      if (
+        !substitute ||
+        !owned.has(substitute.id) ||
+        present.has(substitute.id) ||
+        substitution.quality < minQuality
+      ) {
+        continue;
+      }
+      candidates.push({
+        index,
+        original: item,
+        replacement: {
+          id: substitute.id,
+          name: substitute.name,
+          icon: substitute.icon,
+          amount: substituteAmount(item.amount, substitution.ratio),
+        },
+        substitution,
+      });
+    }
+    if (candidates.length === 0) return [];
+    choices.push(candidates);
+  }
+
+  // Every combination of one distinct substitute per missing ingredient
+  let combinations: AppliedSubstitution[][] = [[]];
+  for (const slot of choices) {
+    combinations = combinations.flatMap((chosen) =>
+      slot
+        .filter((choice) =>
+          chosen.every(
+            (applied) => applied.replacement.id !== choice.replacement.id,
+          ),
+        )
+        .map((choice) => [...chosen, choice]),
+    );
+  }
+
+  return combinations
+    .map((substitutions) => {
+      const replaced = recipe.ingredients.slice();
+      let quality = 1;
+      for (const applied of substitutions) {
+        replaced[applied.index] = applied.replacement;
+        quality *= applied.substitution.quality;
+      }
+      return {
+        recipe: { ...recipe, ingredients: replaced },
+        substitutions,
+        quality,
+      };
+    })
+    .sort((a, b) => b.quality - a.quality)
+    .slice(0, options.limit ?? 3);
+}
@@ -0,0 +1,672 @@
+/**
+ * Runtime validators for MIXR request body types.
+ *
+ * Each validator accepts an `unknown` payload (typically parsed JSON) and
+ * returns either the typed value or a list of field-level errors, so clients
+ * and the API server reject malformed payloads the same way.
+ */
+
+import { COLLECTION_VISIBILITIES } from './enums';
+import type {
+  AddCollectionItemRequest,
+  AddFavoriteRequest,
+  CreateCollectionRequest,
+  GenerateRecipeRequest,
+  RemoveCollectionItemRequest,
+  ReorderCollectionRequest,
+  SubmitRatingRequest,
+  UpdateCollectionItemRequest,
+  UpdateCollectionRequest,
+  UpdateRecipeRequest,
+  UpdateUserPreferencesRequest,
+  UpdateUserRequest,
+} from './index';
+
+// =============================================================================
+// Result Types
+// =============================================================================
+
+/**
+ * Machine-readable reason a field failed validation
+ */
+export type ValidationErrorCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_value'
+  | 'empty'
+  | 'too_small'
+  | 'too_large'
+  | 'not_integer'
+  | 'unknown_key';
+
+/**
+ * A single field-level validation error
+ */
+export interface ValidationError {
+  /** Dotted/bracketed path to the offending field (e.g., "equipment_ids[2]"); empty for the root */
+  path: string;
+  /** Machine-readable error code */
+  code: ValidationErrorCode;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Outcome of validating an `unknown` payload as `T`
+ */
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; errors: ValidationError[] };
+
+/**
+ * Render a {@link ValidationError} as a single line, e.g.
+ * `data[3].ingredients[1].icon: expected string|null, received number`
+ */
+export function formatValidationError(error: ValidationError): string {
+  return error.path ? `${error.path}: ${error.message}` : error.message;
+}
+
+// =============================================================================
+// Shared Helpers
+// =============================================================================
+
+/**
+ * Append a property key or array index to a path
+ * @internal
+ */
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Check that a value is a plain (non-array, non-null) object
+ * @internal
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describe the runtime type of a value for error messages
+ * @internal
+ */
+export function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Build a {@link ValidationResult} from collected errors
+ * @internal
+ */
+export function toResult<T>(
+  value: T,
+  errors: ValidationError[],
+): ValidationResult<T> {
+  return errors.length === 0
+    ? { success: true, value }
+    : { success: false, errors };
+}
+
+function checkObject(
+  input: unknown,
+  allowedKeys: readonly string[],
+  errors: ValidationError[],
+): input is Record<string, unknown> {
+  if (!isRecord(input)) {
+    errors.push({
+      path: '',
+      code: 'invalid_type',
+      message: `expected object, received ${describeType(input)}`,
+    });
+    return false;
+  }
+  for (const key of Object.keys(input)) {
+    if (!allowedKeys.includes(key)) {
+      errors.push({
+        path: key,
+        code: 'unknown_key',
+        message: `unexpected field "${key}"`,
+      });
+    }
+  }
+  return true;
+}
+
+function checkId(
+  value: unknown,
+  path: string,
+  errors: ValidationError[],
+): boolean {
+  if (value === undefined) {
+    errors.push({ path, code: 'required', message: 'is required' });
+    return false;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({
+      path,
+      code: 'invalid_type',
+      message: `expected number, received ${describeType(value)}`,
+    });
+    return false;
+  }
+  if (!Number.isInteger(value)) {
+    errors.push({ path, code: 'not_integer', message: 'must be an integer' });
+    return false;
+  }
+  if (value < 1) {
+    errors.push({ path, code: 'too_small', message: 'must be at least 1' });
+    return false;
+  }
+  return true;
+}
+
+function checkIdArray(
+  value: unknown,
+  path: string,
+  nonEmpty: boolean,
+  errors: ValidationError[],
+): boolean {
+  if (value === undefined) {
+    errors.push({ path, code: 'required', message: 'is required' });
+    return false;
+  }
+  if (!Array.isArray(value)) {
+    errors.push({
+      path,
+      code: 'invalid_type',
+      message: `expected array, received ${describeType(value)}`,
+    });
+    return false;
+  }
+  if (nonEmpty && value.length === 0) {
+    errors.push({ path, code: 'empty', message: 'must not be empty' });
+    return false;
+  }
+  let valid = true;
+  value.forEach((item, index) => {
+    if (!checkId(item, joinPath(path, index), errors)) valid = false;
+  });
+  return valid;
+}
+
+function checkText(
+  value: unknown,
+  path: string,
+  errors: ValidationError[],
+): boolean {
+  if (value === undefined) {
+    errors.push({ path, code: 'required', message: 'is required' });
+    return false;
+  }
+  if (typeof value !== 'string') {
+    errors.push({
+      path,
+      code: 'invalid_type',
+      message: `expected string, received ${describeType(value)}`,
+    });
+    return false;
+  }
+  if (value.trim() === '') {
+    errors.push({ path, code: 'empty', message: 'must not be empty' });
+    return false;
+  }
+  return true;
+}
+
+function checkNullableString(
+  value: unknown,
+  path: string,
+  errors: ValidationError[],
+): void {
+  if (value !== null && typeof value !== 'string') {
+    errors.push({
+      path,
+      code: value === undefined ? 'required' : 'invalid_type',
+      message:
+        value === undefined
+          ? 'is required'
+          : `expected string|null, received ${describeType(value)}`,
+    });
+  }
+}
+
+/** Check an id array that must not repeat an id. */
+function checkUniqueIdArray(
+  value: unknown,
+  path: string,
+  errors: ValidationError[],
+): void {
+  if (!checkIdArray(value, path, false, errors)) return;
+  const ids = value as number[];
+  ids.forEach((id, index) => {
+    if (ids.indexOf(id) !== index) {
+      errors.push({
+        path: joinPath(path, index),
+        code: 'invalid_value',
+        message: `duplicate id ${id}`,
+      });
+    }
+  });
+}
+
+function checkVisibility(
+  value: unknown,
+  path: string,
+  errors: ValidationError[],
+): void {
+  if (!COLLECTION_VISIBILITIES.includes(value as never)) {
+    errors.push({
+      path,
+      code: typeof value === 'string' ? 'invalid_value' : 'invalid_type',
+      message: `expected one of ${COLLECTION_VISIBILITIES.join(', ')}`,
+    });
+  }
+}
+
+function checkList(
+  value: unknown,
+  path: string,
+  nonEmpty: boolean,
+  errors: ValidationError[],
+  checkItem: (item: unknown, path: string) => void,
+): void {
+  if (!Array.isArray(value)) {
+    errors.push({
+      path,
+      code: 'invalid_type',
+      message: `expected array, received ${describeType(value)}`,
+    });
+  } else if (nonEmpty && value.length === 0) {
+    errors.push({ path, code: 'empty', message: 'must not be empty' });
+  } else {
+    value.forEach((item, index) => checkItem(item, joinPath(path, index)));
+  }
+}
+
+/** Check a `RecipeIngredient` (with `amount`) or `RecipeEquipment`. */
+function checkRecipeItem(
+  item: unknown,
+  path: string,
+  withAmount: boolean,
+  errors: ValidationError[],
+): void {
+  if (!isRecord(item)) {
+    errors.push({
+      path,
+      code: 'invalid_type',
+      message: `expected object, received ${describeType(item)}`,
+    });
+    return;
+  }
+  const keys = withAmount
+    ? ['id', 'name', 'icon', 'amount']
+    : ['id', 'name', 'icon'];
+  for (const key of Object.keys(item)) {
+    if (!keys.includes(key)) {
+      errors.push({
+        path: joinPath(path, key),
+        code: 'unknown_key',
+        message: `unexpected field "${key}"`,
+      });
+    }
+  }
+  checkId(item.id, joinPath(path, 'id'), errors);
+  checkText(item.name, joinPath(path, 'name'), errors);
+  checkNullableString(item.icon, joinPath(path, 'icon'), errors);
+  if (withAmount) checkText(item.amount, joinPath(path, 'amount'), errors);
+}
+
+// =============================================================================
+// Request Validators
+// =============================================================================
+
+/**
+ * Validate a {@link GenerateRecipeRequest}: both id arrays must be non-empty
+ * lists of positive integers and `mood_id` must be a positive integer.
+ *
+ * @example
+ * ```ts
+ * const result = validateGenerateRecipeRequest(await req.json());
+ * if (!result.success) return badRequest(result.errors);
+ * generate(result.value);
+ * ```
+ */
+export function validateGenerateRecipeRequest(
+  input: unknown,
+): ValidationResult<GenerateRecipeRequest> {
+  const errors: ValidationError[] = [];
+  if (
+    checkObject(input, ['equipment_ids', 'ingredient_ids', 'mood_id'], errors)
+  ) {
+    checkIdArray(input.equipment_ids, 'equipment_ids', true, errors);
+    checkIdArray(input.ingredient_ids, 'ingredient_ids', true, errors);
+    checkId(input.mood_id, 'mood_id', errors);
+  }
+  return toResult(input as GenerateRecipeRequest, errors);
+}
+
+/**
+ * Validate a {@link SubmitRatingRequest}: `stars` must be an integer from 1
+ * to 5 and `review`, when present, must be a string.
+ */
+export function validateSubmitRatingRequest(
+  input: unknown,
+): ValidationResult<SubmitRatingRequest> {
+  const errors: ValidationError[] = [];
+  if (checkObject(input, ['stars', 'review'], errors)) {
+    const { stars, review } = input;
+    if (stars === undefined) {
+      errors.push({ path: 'stars', code: 'required', message: 'is required' });
+    } else if (typeof stars !== 'number' || !Number.isFinite(stars)) {
+      errors.push({
+        path: 'stars',
+        code: 'invalid_type',
+        message: `expected number, received ${describeType(stars)}`,
+      });
+    } else if (!Number.isInteger(stars)) {
+      errors.push({
+        path: 'stars',
+        code: 'not_integer',
+        message: 'must be an integer',
+      });
+    } else if (stars < 1) {
+      errors.push({
+        path: 'stars',
+        code: 'too_small',
+        message: 'must be at least 1',
+      });
+    } else if (stars > 5) {
+      errors.push({
+        path: 'stars',
+        code: 'too_large',
+        message: 'must be at most 5',
+      });
+    }
+    if (review !== undefined && typeof review !== 'string') {
+      errors.push({
+        path: 'review',
+        code: 'invalid_type',
+        message: `expected string, received ${describeType(review)}`,
+      });
+    }
+  }
+  return toResult(input as SubmitRatingRequest, errors);
+}
+
+/**
+ * Validate an {@link UpdateUserRequest}: `display_name` must be a string that
+ * is non-empty after trimming whitespace.
+ */
+export function validateUpdateUserRequest(
+  input: unknown,
+): ValidationResult<UpdateUserRequest> {
+  const errors: ValidationError[] = [];
+  if (checkObject(input, ['display_name'], errors)) {
+    const { display_name } = input;
+    if (display_name === undefined) {
+      errors.push({
+        path: 'display_name',
+        code: 'required',
+        message: 'is required',
+      });
+    } else if (typeof display_name !== 'string') {
+      errors.push({
+        path: 'display_name',
+        code: 'invalid_type',
+        message: `expected string, received ${describeType(display_name)}`,
+      });
+    } else if (display_name.trim() === '') {
+      errors.push({
+        path: 'display_name',
+        code: 'empty',
+        message: 'must not be empty',
+      });
+    }
+  }
+  return toResult(input as UpdateUserRequest, errors);
+}
+
+/**
+ * Validate an {@link UpdateUserPreferencesRequest}: both id arrays are
+ * required and must contain positive integers, but may be empty.
+ */
+export function validateUpdateUserPreferencesRequest(
+  input: unknown,
+): ValidationResult<UpdateUserPreferencesRequest> {
+  const errors: ValidationError[] = [];
+  if (checkObject(input, ['equipment_ids', 'ingredient_ids'], errors)) {
+    checkIdArray(input.equipment_ids, 'equipment_ids', false, errors);
+    checkIdArray(input.ingredient_ids, 'ingredient_ids', false, errors);
+  }
+  return toResult(input as UpdateUserPreferencesRequest, errors);
+}
+
+/**
+ * Validate an {@link AddFavoriteRequest}: `recipe_id` must be a positive
+ * integer.
+ */
+export function validateAddFavoriteRequest(
+  input: unknown,
+): ValidationResult<AddFavoriteRequest> {
+  const errors: ValidationError[] = [];
+  if (checkObject(input, ['recipe_id'], errors)) {
+    checkId(input.recipe_id, 'recipe_id', errors);
+  }
+  return toResult(input as AddFavoriteRequest, errors);
+}
+
+const RECIPE_UPDATE_FIELDS = [
+  'name',
+  'description',
+  'mood_id',
+  'ingredients',
+  'steps',
+  'equipment',
+];
+
+/**
+ * Validate an {@link UpdateRecipeRequest}: at least one recipe field must be
+ * set. `name`, steps and ingredient names/amounts must be non-empty,
+ * `ingredients` and `steps` must be non-empty lists, and `mood_id` must be a
+ * positive integer or null.
+ */
+export function validateUpdateRecipeRequest(
+  input: unknown,
+): ValidationResult<UpdateRecipeRequest> {
+  const errors: ValidationError[] = [];
+  if (checkObject(input, [...RECIPE_UPDATE_FIELDS, 'summary'], errors)) {
+    const { name, description, mood_id, ingredients, steps, equipment } = input;
+    if (!RECIPE_UPDATE_FIELDS.some((key) => input[key] !== undefined)) {
+      errors.push({
+        path: '',
+        code: 'empty',
+        message: 'must change at least one field',
+      });
+    }
+    if (name !== undefined) checkText(name, 'name', errors);
+    if (description !== undefined) {
+      checkNullableString(description, 'description', errors);
+    }
+    if (mood_id !== undefined && mood_id !== null) {
+      checkId(mood_id, 'mood_id', errors);
+    }
+    if (ingredients !== undefined) {
+      checkList(ingredients, 'ingredients', true, errors, (item, path) =>
+        checkRecipeItem(item, path, true, errors),
+      );
+    }
+    if (steps !== undefined) {
+      checkList(steps, 'steps', true, errors, (item, path) =>
+        checkText(item, path, errors),
+      );
+    }
+    if (equipment !== undefined) {
+      checkList(equipment, 'equipment', false, errors, (item, path) =>
+        checkRecipeItem(item, path, false, errors),
+      );
+    }
+    if (input.summary !== undefined && typeof input.summary !== 'string') {
+      errors.push({
+        path: 'summary',
+        code: 'invalid_type',
+        message: `expected string, received ${describeType(input.summary)}`,
+      });
+    }
+  }
+  return toResult(input as UpdateRecipeRequest, errors);
+}
+
+/**
+ * Check the fields shared by collection create and update requests.
+ */
+function checkCollectionFields(
+  input: Record<string, unknown>,
+  errors: ValidationError[],
+): void {
+  const { name, description, cover_mood_id, visibility } = input;
+  if (name !== undefined) checkText(name, 'name', errors);
+  if (description !== undefined) {
+    checkNullableString(description, 'description', errors);
+  }
+  if (cover_mood_id !== undefined && cover_mood_id !== null) {
+    checkId(cover_mood_id, 'cover_mood_id', errors);
+  }
+  if (visibility !== undefined) {
+    checkVisibility(visibility, 'visibility', errors);
+  }
+}
+
+const COLLECTION_FIELDS = [
+  'name',
+  'description',
+  'cover_mood_id',
+  'visibility',
+];
+
+/**
+ * Validate a {@link CreateCollectionRequest}: `name` must be non-empty,
+ * `recipe_ids` must not repeat an id and `visibility` must be one of
+ * {@link COLLECTION_VISIBILITIES}.
+ */
+export function validateCreateCollectionRequest(
+  input: unknown,
+): ValidationResult<CreateCollectionRequest> {
+  const errors: ValidationError[] = [];
+  if (checkObject(input, [...COLLECTION_FIELDS, 'recipe_ids'], errors)) {
+    if (input.name === undefined) {
+      errors.push({ path: 'name', code: 'required', message: 'is required' });
+    }
+    checkCollectionFields(input, errors);
+    if (input.recipe_ids !== undefined) {
+      checkUniqueIdArray(input.recipe_ids, 'recipe_ids', errors);
+    }
+  }
+  return toResult(input as CreateCollectionRequest, errors);
+}
+
+/**
+ * Validate an {@link UpdateCollectionRequest}: like
+ * {@link validateCreateCollectionRequest}, but every field is optional and
+ * at least one must be set.
+ */
+export function validateUpdateCollectionRequest(
+  input: unknown,
+): ValidationResult<UpdateCollectionRequest> {
+  const errors: ValidationError[] = [];
+  if (checkObject(input, COLLECTION_FIELDS, errors)) {
+    if (!COLLECTION_FIELDS.some((key) => input[key] !== undefined)) {
+      errors.push({
+        path: '',
+        code: 'empty',
+        message: 'must change at least one field',
+      });
+    }
+    checkCollectionFields(input, errors);
+  }
+  return toResult(input as UpdateCollectionRequest, errors);
+}
+
+/**
+ * Validate a {@link ReorderCollectionRequest}: `recipe_ids` is required and
+ * must not repeat an id. Whether it lists exactly the collection's recipes
+ * is checked against the collection (see {@link applyCollectionOperation}).
+ */
+export function validateReorderCollectionRequest(
+  input: unknown,
+): ValidationResult<ReorderCollectionRequest> {
+  const errors: ValidationError[] = [];
+  if (checkObject(input, ['recipe_ids'], errors)) {
+    checkUniqueIdArray(input.recipe_ids, 'recipe_ids', errors);
+  }
+  return toResult(input as ReorderCollectionRequest, errors);
+}
+
+/**
+ * Validate an {@link AddCollectionItemRequest}: `recipe_id` must be a
+ * positive integer, `note` a string or null and `position` a non-negative
+ * integer.
+ */
+export function validateAddCollectionItemRequest(
+  input: unknown,
+): ValidationResult<AddCollectionItemRequest> {
+  const errors: ValidationError[] = [];
+  if (checkObject(input, ['recipe_id', 'note', 'position'], errors)) {
+    const { recipe_id, note, position } = input;
+    checkId(recipe_id, 'recipe_id', errors);
+    if (note !== undefined) checkNullableString(note, 'note', errors);
+    if (position !== undefined) {
+      if (typeof position !== 'number' || !Number.isFinite(position)) {
+        errors.push({
+          path: 'position',
+          code: 'invalid_type',
+          message: `expected number, received ${describeType(position)}`,
+        });
+      } else if (!Number.isInteger(position)) {
+        errors.push({
+          path: 'position',
+          code: 'not_integer',
+          message: 'must be an integer',
+        });
+      } else if (position < 0) {
+        errors.push({
+          path: 'position',
+          code: 'too_small',
+          message: 'must be at least 0',
+        });
+      }
+    }
+  }
+  return toResult(input as AddCollectionItemRequest, errors);
+}
+
+/**
+ * Validate an {@link UpdateCollectionItemRequest}: `recipe_id` must be a
+ * positive integer and `note` a string or null.
+ */
+export function validateUpdateCollectionItemRequest(
+  input: unknown,
+): ValidationResult<UpdateCollectionItemRequest> {
+  const errors: ValidationError[] = [];
+  if (checkObject(input, ['recipe_id', 'note'], errors)) {
+    checkId(input.recipe_id, 'recipe_id', errors);
+    checkNullableString(input.note, 'note', errors);
+  }
+  return toResult(input as UpdateCollectionItemRequest, errors);
+}
+
+/**
+ * Validate a {@link RemoveCollectionItemRequest}: `recipe_id` must be a
+ * positive integer.
+ */
+export function validateRemoveCollectionItemRequest(
+  input: unknown,
+): ValidationResult<RemoveCollectionItemRequest> {
+  const errors: ValidationError[] = [];
+  if (checkObject(input, ['recipe_id'], errors)) {
+    checkId(input.recipe_id, 'recipe_id', errors);
+  }
+  return toResult(input as RemoveCollectionItemRequest, errors);
+}